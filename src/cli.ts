@@ -2,10 +2,21 @@
 
 import { program } from "commander"; // Import commander
 import { version } from "../package.json"; // Import version for CLI
+import { registerCacheCommand } from "./commands/cache";
+import { registerConfigCommand } from "./commands/config";
 import { registerGenerateCommands } from "./commands/generate";
+import { registerHookCommand } from "./commands/hook";
 import { registerInitCommand } from "./commands/init";
+import { registerReviewCommand } from "./commands/review";
+import { registerRewordCommand } from "./commands/reword";
+import { registerUsageCommand } from "./commands/usage";
 import { loadConfig } from "./config/config"; // Import config loader
 import { theme } from "./ui/theme";
+import {
+	isStdoutReserved,
+	reportError,
+	routeLogsToStderr,
+} from "./utils/output";
 
 /**
  * Main function for the PR AI CLI.
@@ -13,29 +24,32 @@ import { theme } from "./ui/theme";
  * generating AI content, reviewing, creating the PR, and opening it.
  */
 async function mainCli() {
+	// Keep stdout clean for the JSON result or config values, including config loading messages
+	if (isStdoutReserved()) routeLogsToStderr();
 	console.log(theme.primary("🚀 Starting PR AI CLI..."));
 
 	try {
 		const config = await loadConfig();
 
-		program.version(version).description("GitLift: AI-powered Git utilities.");
+		program
+			.version(version)
+			.description("GitLift: AI-powered Git utilities.")
+			.option("--verbose", "Print stack traces of errors");
 
 		registerInitCommand(program);
+		registerConfigCommand(program);
 		registerGenerateCommands(program, config);
+		registerHookCommand(program, config);
+		registerReviewCommand(program, config);
+		registerRewordCommand(program, config);
+		registerCacheCommand(program, config);
+		registerUsageCommand(program);
 
 		await program.parseAsync(process.argv);
 	} catch (error: unknown) {
-		// Specific errors should be handled and logged within modules
-		// This logs the final error message before exiting
-		if (error instanceof Error) {
-			console.error(theme.error(`\n❌ CLI Error: ${error.message}`));
-		} else {
-			console.error(
-				theme.error("\n❌ An unexpected CLI error occurred:"),
-				error,
-			);
-		}
-		process.exit(1);
+		// Commands report their own errors through runCommand; this catches startup failures
+		// such as an invalid configuration file
+		process.exit(reportError(error, "GitLift"));
 	}
 }
 
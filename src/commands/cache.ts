@@ -0,0 +1,92 @@
+import type { Command } from "commander";
+import type { AppConfig } from "../config/config";
+import {
+	type CacheStats,
+	clearCache,
+	getCacheStats,
+	resolveCacheSettings,
+} from "../core/cache";
+import { theme } from "../ui/theme";
+import { type OutputOptions, runCommand } from "../utils/output";
+
+/**
+ * Structured result of `cache stats`, printed with `--json`.
+ */
+interface CacheStatsResult extends CacheStats {
+	status: "generated";
+	enabled: boolean;
+	ttlHours: number;
+	maxSizeMb: number;
+}
+
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function handleCacheStats(
+	options: OutputOptions,
+	config: Required<AppConfig>,
+): Promise<CacheStatsResult> {
+	const settings = resolveCacheSettings(config.cache);
+	const stats = await getCacheStats(settings);
+	if (!options.json) {
+		console.log(theme.primary("🗄️ Response Cache"));
+		console.log(`Location:  ${stats.directory}`);
+		console.log(
+			`Status:    ${settings.enabled ? theme.success("enabled") : theme.warning("disabled (cache.enabled is false)")}`,
+		);
+		console.log(
+			`Entries:   ${stats.entries}${stats.expired > 0 ? theme.dim(` (${stats.expired} expired)`) : ""}`,
+		);
+		console.log(
+			`Size:      ${formatSize(stats.size)} of ${settings.maxSizeMb} MB`,
+		);
+		console.log(`TTL:       ${settings.ttlHours} hour(s)`);
+		if (stats.oldest && stats.newest) {
+			console.log(
+				`Oldest:    ${stats.oldest.toLocaleString()}\nNewest:    ${stats.newest.toLocaleString()}`,
+			);
+		}
+	}
+	return { status: "generated", ...settings, ...stats };
+}
+
+async function handleCacheClear(): Promise<{
+	status: "updated";
+	removed: number;
+}> {
+	const removed = await clearCache();
+	console.log(theme.success(`✓ Removed ${removed} cached response(s).`));
+	return { status: "updated", removed };
+}
+
+export function registerCacheCommand(
+	program: Command,
+	config: Required<AppConfig>,
+) {
+	const cacheCommand = program
+		.command("cache")
+		.description(
+			"Inspect or clear the cache of AI responses reused for identical requests.",
+		);
+
+	cacheCommand
+		.command("stats")
+		.description("Show the location, size and age of the response cache")
+		.option("--json", "Print the statistics as JSON on stdout", false)
+		.action(async (options: OutputOptions) => {
+			await runCommand("Cache", options, () =>
+				handleCacheStats(options, config),
+			);
+		});
+
+	cacheCommand
+		.command("clear")
+		.description("Delete every cached response")
+		.option("--json", "Print the result as JSON on stdout", false)
+		.action(async (options: OutputOptions) => {
+			await runCommand("Cache", options, handleCacheClear);
+		});
+}
@@ -0,0 +1,182 @@
+import type { Command } from "commander";
+import {
+	type AppConfig,
+	type ConfigLayer,
+	configKeyToEnvName,
+	getConfigKeys,
+	getConfigValue,
+	loadConfigLayers,
+	mergeConfigLayers,
+	parseConfigValue,
+	readConfigFile,
+	resolveEditableConfigFile,
+	updateConfigValue,
+	writeConfigFile,
+} from "../config/config";
+import { theme } from "../ui/theme";
+import { CommandError, ConfigError, ExitCode } from "../utils/errors";
+import { runCommand } from "../utils/output";
+
+interface ConfigResult {
+	status: "generated" | "updated";
+}
+
+function formatValue(value: unknown): string {
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function assertKnownKey(key: string) {
+	if (!getConfigKeys().includes(key)) {
+		throw new ConfigError(
+			`Unknown configuration key '${key}'. Known keys: ${getConfigKeys().join(", ")}.`,
+		);
+	}
+}
+
+function describeOrigin(layer: ConfigLayer | undefined, key: string): string {
+	if (!layer) return "";
+	const source = layer.name === "env" ? configKeyToEnvName(key) : layer.source;
+	return theme.dim(`  (${layer.name}: ${source})`);
+}
+
+/**
+ * Lists the values of a config object, one `key = value` line each, expanding merged sections.
+ */
+function listValues(config: AppConfig): [string, unknown][] {
+	const keys = getConfigKeys();
+	return keys
+		.filter((key) => {
+			const value = getConfigValue(config, key);
+			// Sections are listed key by key, unless they are set to something else (e.g., a string)
+			const isSection =
+				keys.some((other) => other.startsWith(`${key}.`)) &&
+				typeof value === "object";
+			return value !== undefined && !isSection;
+		})
+		.map((key) => [key, getConfigValue(config, key)]);
+}
+
+async function handleConfigGet(key: string): Promise<ConfigResult> {
+	assertKnownKey(key);
+	const { config } = mergeConfigLayers(await loadConfigLayers());
+	const value = getConfigValue(config, key);
+	if (value !== undefined) process.stdout.write(`${formatValue(value)}\n`);
+	return { status: "generated" };
+}
+
+async function handleConfigSet(
+	key: string,
+	raw: string,
+	global: boolean,
+): Promise<ConfigResult> {
+	const value = parseConfigValue(key, raw);
+	const path = await resolveEditableConfigFile(global);
+	const updated = updateConfigValue(await readConfigFile(path), key, value);
+	await writeConfigFile(path, updated);
+	console.log(theme.success(`✓ Set ${key} = ${formatValue(value)} in ${path}`));
+	return { status: "updated" };
+}
+
+async function handleConfigUnset(
+	key: string,
+	global: boolean,
+): Promise<ConfigResult> {
+	assertKnownKey(key);
+	const path = await resolveEditableConfigFile(global);
+	const current = await readConfigFile(path);
+	if (getConfigValue(current, key) === undefined) {
+		throw new CommandError(
+			`'${key}' is not set in ${path}.`,
+			ExitCode.NothingToDo,
+		);
+	}
+	await writeConfigFile(path, updateConfigValue(current, key, undefined));
+	console.log(theme.success(`✓ Removed ${key} from ${path}`));
+	return { status: "updated" };
+}
+
+async function handleConfigList(global: boolean): Promise<ConfigResult> {
+	const path = await resolveEditableConfigFile(global);
+	const values = listValues(await readConfigFile(path));
+	if (values.length === 0) {
+		console.error(theme.dim(`No values set in ${path}.`));
+	}
+	for (const [key, value] of values) {
+		process.stdout.write(`${key} = ${formatValue(value)}\n`);
+	}
+	return { status: "generated" };
+}
+
+async function handleConfigShow(origin: boolean): Promise<ConfigResult> {
+	const { config, origins } = mergeConfigLayers(await loadConfigLayers());
+	for (const [key, value] of listValues(config)) {
+		const suffix = origin ? describeOrigin(origins.get(key), key) : "";
+		process.stdout.write(`${key} = ${formatValue(value)}${suffix}\n`);
+	}
+	return { status: "generated" };
+}
+
+export function registerConfigCommand(program: Command) {
+	const configCommand = program
+		.command("config")
+		.description(
+			"Read and edit the configuration (defaults < global < repository < GITLIFT_* environment < flags).",
+		);
+
+	configCommand
+		.command("get <key>")
+		.description(
+			"Print the effective value of a key (e.g., model, issues.jiraUrl)",
+		)
+		.action(async (key: string) => {
+			await runCommand("Config", { json: false }, () => handleConfigGet(key));
+		});
+
+	configCommand
+		.command("set <key> <value>")
+		.description(
+			"Set a key in the repository's config file (JSON values and comma-separated lists are accepted)",
+		)
+		.option("-g, --global", "Edit the global config file instead", false)
+		.action(
+			async (key: string, value: string, options: { global: boolean }) => {
+				await runCommand("Config", { json: false }, () =>
+					handleConfigSet(key, value, options.global),
+				);
+			},
+		);
+
+	configCommand
+		.command("unset <key>")
+		.description("Remove a key from the repository's config file")
+		.option("-g, --global", "Edit the global config file instead", false)
+		.action(async (key: string, options: { global: boolean }) => {
+			await runCommand("Config", { json: false }, () =>
+				handleConfigUnset(key, options.global),
+			);
+		});
+
+	configCommand
+		.command("list")
+		.description("List the values set in the repository's config file")
+		.option("-g, --global", "List the global config file instead", false)
+		.action(async (options: { global: boolean }) => {
+			await runCommand("Config", { json: false }, () =>
+				handleConfigList(options.global),
+			);
+		});
+
+	configCommand
+		.command("show")
+		.description("Show the effective configuration after merging all layers")
+		.option(
+			"--origin",
+			"Show which layer and file each value comes from",
+			false,
+		)
+		.action(async (options: { origin: boolean }) => {
+			await runCommand("Config", { json: false }, () =>
+				handleConfigShow(options.origin),
+			);
+		});
+}
@@ -0,0 +1,278 @@
+import { type Command, Option } from "commander";
+import { type AppConfig, resolveAiSettings } from "../../config/config";
+import {
+	type TokenUsage,
+	createTokenUsage,
+	generateReleaseNotes,
+	getAnsweringModel,
+} from "../../core/ai";
+import {
+	CHANGELOG_GROUPINGS,
+	type ChangelogGrouping,
+	type ReleaseNotes,
+	formatCommitGroups,
+	getCommitsInRange,
+	getPreviousTag,
+	groupCommits,
+	isTag,
+	prependToChangelog,
+	renderChangelogEntry,
+	renderReleaseBody,
+} from "../../core/changelog";
+import { resolveForge } from "../../core/forge";
+import { createGitHubRelease } from "../../core/github";
+import { checkPrerequisites } from "../../core/prerequisites";
+import { PROVIDER_NAMES, type ProviderName } from "../../core/provider";
+import { resolvePrices } from "../../core/usage";
+import { reviewReleaseNotes } from "../../ui/changelog-ui";
+import { theme } from "../../ui/theme";
+import { CommandError, ExitCode, UserCancelledError } from "../../utils/errors";
+import { type OutputOptions, runCommand } from "../../utils/output";
+
+const CHANGELOG_FORMATS = ["changelog", "release"] as const;
+
+type ChangelogFormat = (typeof CHANGELOG_FORMATS)[number];
+
+interface GenerateChangelogOptions extends OutputOptions {
+	from?: string;
+	to: string;
+	groupBy: ChangelogGrouping;
+	format: ChangelogFormat;
+	name?: string;
+	/** Changelog file to prepend to; true for the default CHANGELOG.md. */
+	write?: string | boolean;
+	publish: boolean;
+	draft: boolean;
+	model?: string;
+	provider?: ProviderName;
+	language: string;
+	yes: boolean;
+}
+
+/**
+ * Structured result of `generate changelog`, printed with `--json`.
+ */
+interface GenerateChangelogResult {
+	status: "generated" | "updated" | "created";
+	from: string | null;
+	to: string;
+	version: string;
+	groupBy: ChangelogGrouping;
+	format: ChangelogFormat;
+	commits: number;
+	notes: ReleaseNotes;
+	/** The final Markdown (changelog entry or release body). */
+	markdown: string;
+	/** The changelog file that was updated. */
+	file: string | null;
+	/** The published GitHub release. */
+	url: string | null;
+	provider: ProviderName;
+	model: string;
+	usage: TokenUsage;
+	/** Steps that did not run (e.g., "review" with --yes). */
+	skipped: string[];
+}
+
+const DEFAULT_CHANGELOG_FILE = "CHANGELOG.md";
+
+async function handleGenerateChangelog(
+	options: GenerateChangelogOptions,
+	config: Required<AppConfig>,
+): Promise<GenerateChangelogResult> {
+	console.log(theme.primary("🚀 Starting GitLift Changelog Generation..."));
+
+	const format: ChangelogFormat = options.publish ? "release" : options.format;
+	const file =
+		options.write === true ? DEFAULT_CHANGELOG_FILE : options.write || null;
+	if (file && format === "release") {
+		throw new CommandError(
+			"--write adds a Keep a Changelog entry and cannot be combined with --format release or --publish.",
+			ExitCode.Usage,
+		);
+	}
+	if (options.publish && !(await isTag(options.to))) {
+		throw new CommandError(
+			`--publish needs --to to be an existing tag ('${options.to}' is not). Create and push the tag first.`,
+			ExitCode.Usage,
+		);
+	}
+
+	const skipped: string[] = [];
+	const aiSettings = resolveAiSettings(config, options);
+	const forge = options.publish
+		? await resolveForge(config.forge, config.forgeApiUrl)
+		: null;
+	if (forge && forge.name !== "github") {
+		throw new CommandError(
+			`Publishing releases is only supported on GitHub (this repository uses ${forge.label}).`,
+			ExitCode.Usage,
+		);
+	}
+	await checkPrerequisites(aiSettings, forge);
+
+	const from = options.from ?? (await getPreviousTag(options.to));
+	console.log(
+		theme.info(
+			from
+				? `Release range: ${from}..${options.to}`
+				: `No previous tag found; using the whole history up to ${options.to}.`,
+		),
+	);
+
+	const commits = await getCommitsInRange(
+		from,
+		options.to,
+		options.groupBy === "pr",
+	);
+	if (commits.length === 0) {
+		throw new CommandError(
+			`No commits found between '${from}' and '${options.to}'. Nothing to write release notes for.`,
+			ExitCode.NothingToDo,
+		);
+	}
+
+	const groups = groupCommits(commits, options.groupBy);
+	for (const group of groups) {
+		console.log(
+			theme.dim(`  ${group.name}: ${group.commits.length} commit(s)`),
+		);
+	}
+
+	const usage = createTokenUsage({
+		command: "generate changelog",
+		prices: resolvePrices(config.prices),
+	});
+	const notes = await generateReleaseNotes(
+		formatCommitGroups(groups, config.maxDiffTokens),
+		{ from, to: options.to },
+		{ ...aiSettings, language: options.language, usage },
+	);
+
+	const version =
+		options.name ?? ((await isTag(options.to)) ? options.to : "Unreleased");
+	let markdown =
+		format === "release"
+			? renderReleaseBody(notes, from, options.to)
+			: renderChangelogEntry(
+					notes,
+					version,
+					new Date().toISOString().slice(0, 10),
+				);
+
+	const result = {
+		from,
+		to: options.to,
+		version,
+		groupBy: options.groupBy,
+		format,
+		commits: commits.length,
+		notes,
+		provider: aiSettings.provider,
+		model: getAnsweringModel(usage, aiSettings.modelName),
+		usage,
+		skipped,
+	};
+
+	if (!file && !options.publish) {
+		console.log(`\n${markdown}`);
+		return { status: "generated", ...result, markdown, file, url: null };
+	}
+
+	if (!options.yes) {
+		const reviewed = await reviewReleaseNotes(
+			markdown,
+			options.publish ? `Publish Release ${options.to}` : `Add to ${file}`,
+		);
+		if (reviewed === null) {
+			throw new UserCancelledError("Changelog generation cancelled.");
+		}
+		markdown = reviewed;
+	} else {
+		skipped.push("review");
+	}
+
+	if (file) {
+		await prependToChangelog(file, markdown);
+		console.log(theme.success(`\n✨ Added release notes to ${file}.`));
+		return { status: "updated", ...result, markdown, file, url: null };
+	}
+
+	const url = await createGitHubRelease(options.to, markdown, options.draft);
+	console.log(theme.success(`\n✨ Release ${options.to} published!`));
+	return { status: "created", ...result, markdown, file: null, url };
+}
+
+export function registerChangelogCommand(
+	generateCommand: Command,
+	config: Required<AppConfig>,
+) {
+	generateCommand
+		.command("changelog")
+		.description("Generate release notes for the commits between two refs.")
+		.option(
+			"--from <ref>",
+			"Start of the range, exclusive (default: the previous tag)",
+		)
+		.option("--to <ref>", "End of the range, inclusive", "HEAD")
+		.addOption(
+			new Option("-g, --group-by <grouping>", "How to group commits")
+				.choices(CHANGELOG_GROUPINGS)
+				.default("type"),
+		)
+		.addOption(
+			new Option(
+				"-f, --format <format>",
+				"Keep a Changelog entry or GitHub release body",
+			)
+				.choices(CHANGELOG_FORMATS)
+				.default("changelog"),
+		)
+		.option(
+			"--name <version>",
+			"Version heading for the entry (default: the --to tag, or 'Unreleased')",
+		)
+		.option(
+			"-w, --write [file]",
+			`Prepend the entry to a changelog file (default: ${DEFAULT_CHANGELOG_FILE})`,
+		)
+		.option(
+			"--publish",
+			"Publish the notes as a GitHub release for the --to tag (gh release create)",
+			false,
+		)
+		.option("-d, --draft", "Publish the release as a draft", false)
+		.option(
+			"-m, --model <model-name>",
+			`Specify the AI model to use (default: "${config.model}")`,
+		)
+		.addOption(
+			new Option(
+				"--provider <provider>",
+				"Specify the AI provider to use (overrides config)",
+			).choices(PROVIDER_NAMES),
+		)
+		.option(
+			"-l, --language <language>",
+			"Specify the language for the release notes",
+			config.language,
+		)
+		.option(
+			"-y, --yes",
+			"Skip all confirmation prompts",
+			config.skipConfirmations,
+		)
+		.option(
+			"--json",
+			"Print the result as JSON on stdout and progress on stderr (implies --yes)",
+			false,
+		)
+		.option("-o, --output <file>", "Also write the JSON result to a file")
+		.action(async (cmdOptions: GenerateChangelogOptions) => {
+			// JSON output is meant for scripts, so it never prompts
+			const options = { ...cmdOptions, yes: cmdOptions.yes || cmdOptions.json };
+			await runCommand("Changelog Generation", options, () =>
+				handleGenerateChangelog(options, config),
+			);
+		});
+}
@@ -1,158 +1,591 @@
-import type { Command } from "commander";
+import { type Command, Option } from "commander";
 import inquirer from "inquirer";
-import type { AppConfig } from "../../config/config";
-import { generateCommitMessageContent } from "../../core/ai";
+import { type AppConfig, resolveAiSettings } from "../../config/config";
 import {
+	type TokenUsage,
+	createTokenUsage,
+	generateCommitMessageCandidates,
+	generateCommitMessageContent,
+	generateCommitPlan,
+	getAnsweringModel,
+	prepareDiff,
+} from "../../core/ai";
+import { resolveCacheSettings } from "../../core/cache";
+import {
+	type CommitConvention,
+	resolveCommitConvention,
+	validateCommitTitle,
+} from "../../core/commit-convention";
+import { resolveForge } from "../../core/forge";
+import {
+	findRemoteBranchContaining,
+	getCommitDiff,
+	getCurrentBranch,
+	getHeadCommit,
 	getStagedDiff,
 	getUnstagedChanges,
+	gitAmendMessage,
 	gitCommit,
 	stageAllTrackedAndUntrackedChanges,
 } from "../../core/git";
+import { loadIgnoreMatcher } from "../../core/ignore";
+import {
+	appendIssueLinks,
+	extractIssueReferences,
+	fetchIssues,
+	formatIssueReference,
+	formatIssuesForPrompt,
+	resolveIssueSettings,
+} from "../../core/issues";
+import { loadPromptTemplates } from "../../core/prompt";
+import { PROVIDER_NAMES, type ProviderName } from "../../core/provider";
+import { resolveSecretsSettings, scrubDiff } from "../../core/secrets";
+import {
+	type PlannedCommit,
+	applyPatchToIndex,
+	buildPatch,
+	formatHunksForPrompt,
+	getPlannedFiles,
+	getStagedPatch,
+	indexMatchesSnapshot,
+	normalizeCommitPlan,
+	redactHunks,
+	restoreIndex,
+	snapshotAndResetIndex,
+	splitIntoHunks,
+} from "../../core/split";
+import { resolvePrices } from "../../core/usage";
 import { reviewAndConfirmCommitMessage } from "../../ui/commit-ui";
+import { printDiffReport, printSecretsReport } from "../../ui/diff-ui";
+import {
+	type Draft,
+	type RegenerateDraft,
+	chooseCandidate,
+	generateInitialDraft,
+} from "../../ui/regenerate-ui";
+import { reviewCommitPlan } from "../../ui/split-ui";
+import { canPreviewStream } from "../../ui/stream-ui";
 import { theme } from "../../ui/theme";
+import { parseCandidateCount } from "../../utils/args";
+import {
+	CommandError,
+	ExitCode,
+	GitError,
+	UserCancelledError,
+} from "../../utils/errors";
+import { type OutputOptions, runCommand } from "../../utils/output";
 
-interface GenerateCommitOptions {
+interface GenerateCommitOptions extends OutputOptions {
 	all: boolean;
+	split: boolean;
+	/** Regenerate the message of HEAD instead of committing staged changes. */
+	amend: boolean;
+	/** Allow amending a commit that is already on a remote branch. */
+	force: boolean;
+	/** How many alternative messages to generate. */
+	candidates: number;
+	/** False when `--no-issues` is passed. */
+	issues?: boolean;
+	/** False when `--no-cache` is passed. */
+	cache?: boolean;
+	/** Show the message as it is generated; false with `--no-stream`, `--json` or without a terminal. */
+	stream?: boolean;
 	model?: string;
+	provider?: ProviderName;
 	language?: string;
 	yes: boolean;
 }
 
-async function handleGenerateCommit(
+/**
+ * Structured result of `generate commit`, printed with `--json`.
+ */
+interface GenerateCommitResult {
+	status: "committed";
+	title: string;
+	body: string;
+	/** Hash of the created (or amended) commit. */
+	commit: string;
+	/** True when the message of HEAD was replaced (`--amend`). */
+	amended: boolean;
+	convention: string;
+	/** Convention violations the title was committed with. */
+	violations: string[];
+	provider: ProviderName;
+	model: string;
+	usage: TokenUsage;
+	/** All generated alternatives, when `--candidates` asked for more than one. */
+	candidates?: Draft[];
+	/** Issue references found in the branch name (e.g., "#456", "PROJ-123"). */
+	issues: string[];
+	/** Steps that did not run (e.g., "review" with --yes). */
+	skipped: string[];
+}
+
+/**
+ * Structured result of `generate commit --split`, printed with `--json`.
+ */
+interface SplitCommitResult {
+	status: "committed";
+	/** The created commits, oldest first. */
+	commits: { commit: string; title: string; body: string; files: string[] }[];
+	convention: string;
+	provider: ProviderName;
+	model: string;
+	usage: TokenUsage;
+	/** Steps that did not run (e.g., "review" with --yes). */
+	skipped: string[];
+}
+
+/**
+ * Prepares the staged diff and asks the AI for a commit message following the configured convention.
+ * Issue references in the branch name are added to the prompt and as footer lines.
+ * Shared by `generate commit` and the `prepare-commit-msg` hook.
+ * @param {string} stagedDiff - The raw staged diff (or the diff of HEAD with `--amend`).
+ * @param {Pick<GenerateCommitOptions, "model" | "provider" | "language" | "issues" | "cache" | "stream" | "yes">} options - CLI overrides for the AI settings; without `yes`, a streamed generation cancelled with Ctrl+C yields an empty message to review.
+ * @param {Required<AppConfig>} config - The loaded configuration.
+ * @param {number} [count=1] - How many alternative messages to generate in one call.
+ * @param {string} [command="generate commit"] - The command name recorded in the usage log.
+ * @returns {Promise<{ title: string; body: string; candidates: Draft[]; convention: CommitConvention; usage: TokenUsage; issues: string[]; regenerate: RegenerateDraft }>} - The first generated message, all alternatives, the convention they were checked against, the tokens used, the linked issues, and a callback to rework a message from the same diff.
+ */
+export async function draftCommitMessage(
+	stagedDiff: string,
+	options: Pick<
+		GenerateCommitOptions,
+		"model" | "provider" | "language" | "issues" | "cache" | "stream" | "yes"
+	>,
+	config: Required<AppConfig>,
+	count = 1,
+	command = "generate commit",
+): Promise<{
+	title: string;
+	body: string;
+	candidates: Draft[];
+	convention: CommitConvention;
+	usage: TokenUsage;
+	issues: string[];
+	regenerate: RegenerateDraft;
+}> {
+	const aiSettings = resolveAiSettings(config, options);
+	const commitLanguage = options.language || config.language;
+
+	const branch = await getCurrentBranch();
+	const issueSettings = resolveIssueSettings(config.issues);
+	const issueReferences =
+		options.issues === false
+			? []
+			: extractIssueReferences(branch, [], issueSettings);
+	// Commits work without a forge, so one is only resolved to look up numbered issues
+	const forge =
+		issueSettings.fetch && issueReferences.some((r) => r.kind === "number")
+			? await resolveForge(config.forge, config.forgeApiUrl).catch(() => null)
+			: null;
+	const linkedIssues = issueSettings.fetch
+		? await fetchIssues(issueReferences, issueSettings, forge)
+		: [];
+	const withIssueLinks = (draft: Draft): Draft => ({
+		...draft,
+		body: appendIssueLinks(draft.body, issueReferences, issueSettings, false),
+	});
+
+	const usage = createTokenUsage({
+		command,
+		prices: resolvePrices(config.prices),
+	});
+	const generationOptions = {
+		...aiSettings,
+		language: commitLanguage,
+		usage,
+		issueContext: formatIssuesForPrompt(linkedIssues),
+		branch: branch ?? undefined,
+		cache:
+			options.cache === false ? undefined : resolveCacheSettings(config.cache),
+		stream: options.stream,
+		prompt: await loadPromptTemplates(config.prompt, "commit"),
+	};
+	const isExcluded = await loadIgnoreMatcher(config.exclude);
+	const scrubbed = scrubDiff(stagedDiff, config.secrets, isExcluded);
+	printSecretsReport(scrubbed.findings);
+	const preparedDiff = await prepareDiff(
+		scrubbed.content,
+		{ maxDiffTokens: config.maxDiffTokens, isExcluded },
+		generationOptions,
+	);
+	printDiffReport(preparedDiff);
+
+	const convention = await resolveCommitConvention(config.commitConvention);
+	const generateFirst = () =>
+		generateCommitMessageContent(preparedDiff, generationOptions, convention);
+	const candidates = (
+		count > 1
+			? await generateCommitMessageCandidates(
+					preparedDiff,
+					generationOptions,
+					convention,
+					count,
+				)
+			: [
+					options.stream && !options.yes
+						? await generateInitialDraft(generateFirst)
+						: await generateFirst(),
+				]
+	).map(withIssueLinks);
+	const [{ title, body }] = candidates as [Draft, ...Draft[]];
+	const regenerate: RegenerateDraft = async (previous, feedback) =>
+		withIssueLinks(
+			await generateCommitMessageContent(
+				preparedDiff,
+				generationOptions,
+				convention,
+				{ previous, feedback },
+			),
+		);
+	return {
+		title,
+		body,
+		candidates,
+		convention,
+		usage,
+		issues: issueReferences.map(formatIssueReference),
+		regenerate,
+	};
+}
+
+/**
+ * Builds the final commit message string.
+ * Title is the first line, then a blank line, then the body.
+ * If body is empty or only whitespace, only the title is used.
+ * @param {{ title: string; body: string }} parts - The commit title and body.
+ * @returns {string} - The full commit message.
+ */
+export function formatCommitMessage(parts: {
+	title: string;
+	body: string;
+}): string {
+	let message = parts.title;
+	if (parts.body?.trim()) {
+		message += `\n\n${parts.body.trim()}`;
+	}
+	return message;
+}
+
+/**
+ * Splits the staged changes into several commits planned by the AI. The index is reset to HEAD
+ * and each planned commit is staged from its hunks and committed in turn. If anything fails or the
+ * user interrupts, the commits made so far are undone and the original index is restored.
+ */
+async function splitStagedChanges(
 	options: GenerateCommitOptions,
 	config: Required<AppConfig>,
-) {
-	console.log(theme.primary("🚀 Starting GitLift Commit Generation..."));
+	skipped: string[],
+): Promise<SplitCommitResult> {
+	const aiSettings = resolveAiSettings(config, options);
+	const usage = createTokenUsage({
+		command: "generate commit",
+		prices: resolvePrices(config.prices),
+	});
+	const isExcluded = await loadIgnoreMatcher(config.exclude);
+	const patch = await getStagedPatch();
+	printSecretsReport(scrubDiff(patch, config.secrets, isExcluded).findings);
+	const hunks = splitIntoHunks(patch, isExcluded);
+	const convention = await resolveCommitConvention(config.commitConvention);
+
+	const proposed = await generateCommitPlan(
+		formatHunksForPrompt(
+			redactHunks(hunks, resolveSecretsSettings(config.secrets)),
+			config.maxDiffTokens,
+		),
+		{
+			...aiSettings,
+			language: options.language || config.language,
+			usage,
+			prompt: await loadPromptTemplates(config.prompt, "commit"),
+		},
+		convention,
+	);
+	const normalized = normalizeCommitPlan(proposed, hunks);
+	if (normalized.unassigned.length > 0) {
+		console.log(
+			theme.warning(
+				`The AI left out ${normalized.unassigned.length} hunk(s); they were added to the commits touching the same files (or the last commit).`,
+			),
+		);
+	}
+
+	let plan: PlannedCommit[] | null = normalized.plan;
+	if (!options.yes) {
+		plan = await reviewCommitPlan(plan, hunks, (title) =>
+			validateCommitTitle(title, convention),
+		);
+		if (!plan) {
+			throw new UserCancelledError("Commit split cancelled.");
+		}
+	} else {
+		skipped.push("review");
+		for (const commit of plan) {
+			for (const violation of validateCommitTitle(commit.title, convention)) {
+				console.log(
+					theme.warning(`⚠️ Commit convention (${commit.title}): ${violation}`),
+				);
+			}
+		}
+	}
 
+	const snapshot = await snapshotAndResetIndex();
+	// Let Ctrl+C stop the running git command, then roll back instead of exiting mid-split
+	let interrupted = false;
+	const onInterrupt = () => {
+		interrupted = true;
+	};
+	process.on("SIGINT", onInterrupt);
+	const commits: SplitCommitResult["commits"] = [];
 	try {
-		if (options.all) {
+		for (const [index, planned] of plan.entries()) {
+			if (interrupted) break;
 			console.log(
-				theme.info("Attempting to stage all modified and new files (--all)..."),
+				theme.info(`\nCommit ${index + 1}/${plan.length}: ${planned.title}`),
 			);
-			await stageAllTrackedAndUntrackedChanges();
+			const ids = new Set(planned.hunks);
+			await applyPatchToIndex(buildPatch(hunks.filter((h) => ids.has(h.id))));
+			await gitCommit(formatCommitMessage(planned));
+			commits.push({
+				commit: await getHeadCommit(),
+				title: planned.title,
+				body: planned.body,
+				files: getPlannedFiles(planned, hunks),
+			});
+		}
+		if (interrupted) {
+			throw new UserCancelledError("Commit split interrupted.");
 		}
+	} catch (error: unknown) {
+		await restoreIndex(snapshot);
+		throw interrupted
+			? new UserCancelledError("Commit split interrupted.")
+			: error;
+	} finally {
+		process.off("SIGINT", onInterrupt);
+	}
 
-		let stagedDiff = await getStagedDiff();
+	if (!(await indexMatchesSnapshot(snapshot))) {
+		console.log(
+			theme.warning(
+				"⚠️ The commits do not add up to the originally staged changes. Check 'git status' and 'git log'.",
+			),
+		);
+	}
+	console.log(
+		theme.success(
+			`\n✨ Created ${commits.length} commits from the staged changes!`,
+		),
+	);
+	return {
+		status: "committed",
+		commits,
+		convention: convention.name,
+		provider: aiSettings.provider,
+		model: getAnsweringModel(usage, aiSettings.modelName),
+		usage,
+		skipped,
+	};
+}
 
-		if (!stagedDiff) {
-			const { unstagedModifiedFiles, untrackedFiles } =
-				await getUnstagedChanges();
-			if (unstagedModifiedFiles.length > 0 || untrackedFiles.length > 0) {
-				console.log(
-					theme.warning(
-						"No staged changes found. However, there are unstaged changes:",
-					),
-				);
-				if (unstagedModifiedFiles.length > 0) {
-					console.log(
-						theme.dim(`  Modified: ${unstagedModifiedFiles.join(", ")}`),
-					);
-				}
-				if (untrackedFiles.length > 0) {
-					console.log(theme.dim(`  Untracked: ${untrackedFiles.join(", ")}`));
-				}
-
-				if (!options.yes) {
-					const { confirmStage } = await inquirer.prompt([
-						{
-							type: "confirm",
-							name: "confirmStage",
-							message: "Do you want to stage all these changes and proceed?",
-							default: false,
-						},
-					]);
-					if (confirmStage) {
-						await stageAllTrackedAndUntrackedChanges();
-						stagedDiff = await getStagedDiff(); // Re-check staged diff
-						if (!stagedDiff) {
-							console.log(
-								theme.error(
-									"Failed to stage changes or no changes to stage after attempting. Aborting.",
-								),
-							);
-							process.exit(1);
-						}
-					} else {
-						console.log(
-							theme.warning(
-								"Aborting commit generation as no changes are staged and user chose not to stage.",
-							),
-						);
-						process.exit(0);
-					}
-				} else {
-					console.log(
-						theme.warning(
-							"Aborting: No staged changes, and --yes flag is set, so cannot prompt to stage unstaged changes.",
-						),
-					);
-					process.exit(0);
-				}
-			} else {
-				console.log(
-					theme.warning(
-						"No staged changes found and no unstaged changes detected. Nothing to commit.",
-					),
-				);
-				process.exit(0);
-			}
-		}
+/**
+ * Reads the staged diff, staging changes first with `--all` or when the user agrees.
+ */
+async function collectStagedDiff(
+	options: GenerateCommitOptions,
+): Promise<string> {
+	if (options.all) {
+		console.log(
+			theme.info("Attempting to stage all modified and new files (--all)..."),
+		);
+		await stageAllTrackedAndUntrackedChanges();
+	}
 
-		const commitModel = options.model || config.model;
-		const commitLanguage = options.language || config.language;
+	let stagedDiff = await getStagedDiff();
 
-		const { title: initialTitle, body: initialBody } =
-			await generateCommitMessageContent(
-				stagedDiff,
-				commitModel,
-				commitLanguage,
+	if (!stagedDiff) {
+		const { unstagedModifiedFiles, untrackedFiles } =
+			await getUnstagedChanges();
+		if (unstagedModifiedFiles.length === 0 && untrackedFiles.length === 0) {
+			throw new CommandError(
+				"No staged changes found and no unstaged changes detected. Nothing to commit.",
+				ExitCode.NothingToDo,
 			);
+		}
 
-		let finalCommitParts: { title: string; body: string } | null = {
-			title: initialTitle,
-			body: initialBody,
-		};
+		console.log(
+			theme.warning(
+				"No staged changes found. However, there are unstaged changes:",
+			),
+		);
+		if (unstagedModifiedFiles.length > 0) {
+			console.log(theme.dim(`  Modified: ${unstagedModifiedFiles.join(", ")}`));
+		}
+		if (untrackedFiles.length > 0) {
+			console.log(theme.dim(`  Untracked: ${untrackedFiles.join(", ")}`));
+		}
 
-		if (!options.yes) {
-			finalCommitParts = await reviewAndConfirmCommitMessage(
-				initialTitle,
-				initialBody,
+		if (options.yes) {
+			throw new CommandError(
+				"Aborting: No staged changes, and --yes flag is set, so cannot prompt to stage unstaged changes.",
+				ExitCode.NothingToDo,
 			);
 		}
 
-		if (!finalCommitParts) {
-			console.log(theme.warning("Commit generation cancelled."));
-			process.exit(0);
+		const { confirmStage } = await inquirer.prompt([
+			{
+				type: "confirm",
+				name: "confirmStage",
+				message: "Do you want to stage all these changes and proceed?",
+				default: false,
+			},
+		]);
+		if (!confirmStage) {
+			throw new UserCancelledError(
+				"Aborting commit generation as no changes are staged and user chose not to stage.",
+			);
 		}
+		await stageAllTrackedAndUntrackedChanges();
+		stagedDiff = await getStagedDiff(); // Re-check staged diff
+		if (!stagedDiff) {
+			throw new GitError(
+				"Failed to stage changes or no changes to stage after attempting. Aborting.",
+			);
+		}
+	}
+	return stagedDiff;
+}
 
-		// Construct the final commit message string
-		// Title is the first line, then a blank line, then the body.
-		// If body is empty or only whitespace, only use the title.
-		let finalCommitString = finalCommitParts.title;
-		if (finalCommitParts.body?.trim()) {
-			finalCommitString += `\n\n${finalCommitParts.body.trim()}`;
+/**
+ * Reads the diff of HEAD for `--amend`, refusing commits that were already pushed unless forced.
+ */
+async function readHeadDiff(force: boolean): Promise<string> {
+	const remoteBranch = await findRemoteBranchContaining("HEAD");
+	if (remoteBranch) {
+		if (!force) {
+			throw new CommandError(
+				`HEAD is already on '${remoteBranch}'. Amending it rewrites published history and needs a force push; pass --force to do it anyway.`,
+				ExitCode.Usage,
+			);
 		}
+		console.log(
+			theme.warning(
+				`⚠️ Amending a commit that is already on '${remoteBranch}'. You will need to force push afterwards.`,
+			),
+		);
+	}
+	const diff = await getCommitDiff("HEAD");
+	if (!diff) {
+		throw new CommandError(
+			"HEAD has no changes of its own (e.g., an empty or merge commit). Nothing to describe.",
+			ExitCode.NothingToDo,
+		);
+	}
+	return diff;
+}
 
-		await gitCommit(finalCommitString);
+async function handleGenerateCommit(
+	options: GenerateCommitOptions,
+	config: Required<AppConfig>,
+): Promise<GenerateCommitResult | SplitCommitResult> {
+	console.log(theme.primary("🚀 Starting GitLift Commit Generation..."));
 
-		console.log(
-			theme.success("\n✨ Commit generated and applied successfully!"),
+	if (options.split && options.candidates > 1) {
+		throw new CommandError(
+			"--candidates cannot be combined with --split; review each planned message instead.",
+			ExitCode.Usage,
 		);
-	} catch (error: unknown) {
-		if (error instanceof Error) {
-			console.error(
-				theme.error(`\n❌ Error in Commit Generation: ${error.message}`),
-			);
-		} else {
-			console.error(
-				theme.error(
-					"\n❌ An unexpected error occurred during Commit Generation:",
-				),
-				error,
-			);
+	}
+	if (options.amend && (options.split || options.all)) {
+		throw new CommandError(
+			"--amend only rewrites the message of HEAD and cannot be combined with --split or --all.",
+			ExitCode.Usage,
+		);
+	}
+
+	const skipped: string[] = [];
+	const stagedDiff = options.amend
+		? await readHeadDiff(options.force)
+		: await collectStagedDiff(options);
+
+	if (options.split) {
+		return splitStagedChanges(options, config, skipped);
+	}
+
+	const {
+		title: initialTitle,
+		body: initialBody,
+		candidates,
+		convention,
+		usage,
+		issues,
+		regenerate,
+	} = await draftCommitMessage(stagedDiff, options, config, options.candidates);
+
+	let finalCommitParts: { title: string; body: string } | null = {
+		title: initialTitle,
+		body: initialBody,
+	};
+
+	if (!options.yes) {
+		const validateTitle = (title: string) =>
+			validateCommitTitle(title, convention);
+		const chosen =
+			candidates.length > 1
+				? await chooseCandidate(candidates, "Commit Message", validateTitle)
+				: finalCommitParts;
+		if (!chosen) {
+			throw new UserCancelledError("Commit generation cancelled.");
+		}
+		finalCommitParts = await reviewAndConfirmCommitMessage(
+			chosen.title,
+			chosen.body,
+			validateTitle,
+			regenerate,
+			candidates,
+		);
+	} else {
+		skipped.push("review");
+		for (const violation of validateCommitTitle(initialTitle, convention)) {
+			console.log(theme.warning(`⚠️ Commit convention: ${violation}`));
 		}
-		process.exit(1);
 	}
+
+	if (!finalCommitParts) {
+		throw new UserCancelledError("Commit generation cancelled.");
+	}
+
+	if (options.amend) {
+		await gitAmendMessage(formatCommitMessage(finalCommitParts));
+	} else {
+		await gitCommit(formatCommitMessage(finalCommitParts));
+	}
+	const commit = await getHeadCommit();
+
+	console.log(
+		theme.success(
+			options.amend
+				? "\n✨ Commit message regenerated and amended successfully!"
+				: "\n✨ Commit generated and applied successfully!",
+		),
+	);
+	const aiSettings = resolveAiSettings(config, options);
+	return {
+		status: "committed",
+		title: finalCommitParts.title,
+		body: finalCommitParts.body,
+		commit,
+		amended: options.amend,
+		convention: convention.name,
+		violations: validateCommitTitle(finalCommitParts.title, convention),
+		provider: aiSettings.provider,
+		model: getAnsweringModel(usage, aiSettings.modelName),
+		usage,
+		candidates: candidates.length > 1 ? candidates : undefined,
+		issues,
+		skipped,
+	};
 }
 
 export function registerCommitCommand(
@@ -167,30 +600,74 @@ export function registerCommitCommand(
 			"Automatically stage files that have been modified and deleted, then do a normal commit",
 			false,
 		)
+		.option(
+			"--amend",
+			"Regenerate the message of the last commit from its own changes",
+			false,
+		)
+		.option(
+			"-f, --force",
+			"Allow --amend on a commit that is already on a remote branch",
+			false,
+		)
+		.option(
+			"--split",
+			"Let the AI split the staged changes into several logical commits",
+			false,
+		)
+		.option(
+			"--candidates <n>",
+			"Generate several alternative messages to choose from",
+			parseCandidateCount,
+			1,
+		)
+		.option(
+			"--no-issues",
+			"Do not look for issue references in the branch name",
+		)
+		.option(
+			"--no-cache",
+			"Always call the AI provider instead of reusing a cached response",
+		)
+		.option(
+			"--no-stream",
+			"Wait for the complete response instead of showing it as it is generated",
+		)
 		.option(
 			"-m, --model <model-name>",
-			"Specify the OpenAI model for commit messages (overrides config)",
+			`Specify the AI model to use (default: "${config.model}")`,
+		)
+		.addOption(
+			new Option(
+				"--provider <provider>",
+				"Specify the AI provider to use (overrides config)",
+			).choices(PROVIDER_NAMES),
 		)
 		.option(
 			"-l, --language <language>",
-			"Specify the language for the commit message (overrides config)",
+			"Specify the language for the commit message",
+			config.language,
 		)
-		.option("-y, --yes", "Skip confirmation prompts", config.skipConfirmations)
-		.action(
-			async (
-				cmdOptions: Omit<GenerateCommitOptions, "model" | "language"> & {
-					model?: string;
-					language?: string;
-				},
-			) => {
-				// Ensure options passed to handler have correct typing, including potentially undefined model/language
-				const options: GenerateCommitOptions = {
-					all: cmdOptions.all,
-					yes: cmdOptions.yes,
-					model: cmdOptions.model, // Will be undefined if not provided, handled in handleGenerateCommit
-					language: cmdOptions.language, // Will be undefined if not provided
-				};
-				await handleGenerateCommit(options, config);
-			},
-		);
+		.option(
+			"-y, --yes",
+			"Skip all confirmation prompts",
+			config.skipConfirmations,
+		)
+		.option(
+			"--json",
+			"Print the result as JSON on stdout and progress on stderr (implies --yes)",
+			false,
+		)
+		.option("-o, --output <file>", "Also write the JSON result to a file")
+		.action(async (cmdOptions: GenerateCommitOptions) => {
+			// JSON output is meant for scripts, so it never prompts or redraws the terminal
+			const options = {
+				...cmdOptions,
+				yes: cmdOptions.yes || cmdOptions.json,
+				stream: cmdOptions.stream && !cmdOptions.json && canPreviewStream(),
+			};
+			await runCommand("Commit Generation", options, () =>
+				handleGenerateCommit(options, config),
+			);
+		});
 }
@@ -1,5 +1,6 @@
 import type { Command } from "commander";
 import type { AppConfig } from "../../config/config";
+import { registerChangelogCommand } from "./changelog";
 import { registerCommitCommand } from "./commit";
 import { registerPrCommand } from "./pr";
 
@@ -16,5 +17,6 @@ export function registerGenerateCommands(
 	// Register subcommands for 'generate'
 	registerPrCommand(generateCommand, config);
 	registerCommitCommand(generateCommand, config);
+	registerChangelogCommand(generateCommand, config);
 	// Future commands like registerCommitCommand(generateCommand, config) can be added here.
 }
@@ -1,22 +1,166 @@
-import type { Command } from "commander";
-import type { AppConfig } from "../../config/config"; // Using AppConfig and Required
-import { generatePrContent } from "../../core/ai";
-import { ensureBranchIsPushed, getGitInfo } from "../../core/git";
-import { askAndOpenPr, createGitHubPr } from "../../core/github";
+import { type Command, Option } from "commander";
+import { type AppConfig, resolveAiSettings } from "../../config/config"; // Using AppConfig and Required
+import {
+	type TokenUsage,
+	createTokenUsage,
+	generatePrContent,
+	generatePrContentCandidates,
+	getAnsweringModel,
+	prepareDiff,
+	suggestPrLabels,
+} from "../../core/ai";
+import { resolveCacheSettings } from "../../core/cache";
+import { type PrMetadata, askAndOpenPr, resolveForge } from "../../core/forge";
+import {
+	ensureBranchIsPushed,
+	getCommitMessages,
+	getGitInfo,
+} from "../../core/git";
+import { loadIgnoreMatcher } from "../../core/ignore";
+import {
+	appendIssueLinks,
+	extractIssueReferences,
+	fetchIssues,
+	formatIssueReference,
+	formatIssuesForPrompt,
+	resolveIssueSettings,
+} from "../../core/issues";
+import {
+	type PrTemplate,
+	findPrTemplateByName,
+	findPrTemplates,
+} from "../../core/pr-template";
 import { checkPrerequisites } from "../../core/prerequisites";
-import { reviewAndConfirmPr } from "../../ui/pr-ui";
+import { loadPromptTemplates } from "../../core/prompt";
+import { PROVIDER_NAMES, type ProviderName } from "../../core/provider";
+import { scrubDiff } from "../../core/secrets";
+import { resolvePrices } from "../../core/usage";
+import { printDiffReport, printSecretsReport } from "../../ui/diff-ui";
+import {
+	choosePrTemplate,
+	chooseSuggestedLabels,
+	confirmUpdateExistingPr,
+	reviewAndConfirmPr,
+} from "../../ui/pr-ui";
+import {
+	type Draft,
+	chooseCandidate,
+	generateInitialDraft,
+} from "../../ui/regenerate-ui";
+import { canPreviewStream } from "../../ui/stream-ui";
 import { theme } from "../../ui/theme";
+import { parseCandidateCount } from "../../utils/args";
+import { CommandError, ExitCode, UserCancelledError } from "../../utils/errors";
+import { type OutputOptions, runCommand } from "../../utils/output";
 
 // Define the expected shape of options for this command
-interface GeneratePrOptions {
+interface GeneratePrOptions extends OutputOptions {
 	base: string;
-	model: string;
+	model?: string;
+	provider?: ProviderName;
 	language: string;
 	yes: boolean;
 	dryRun: boolean;
+	/** Template name/path, or false when `--no-template` is passed. */
+	template?: string | false;
+	draft: boolean;
+	reviewer: string[];
+	assignee: string[];
+	label: string[];
+	milestone?: string;
+	suggestLabels: boolean;
+	/** How many alternative titles and bodies to generate. */
+	candidates: number;
+	/** False when `--no-issues` is passed. */
+	issues: boolean;
+	/** False when `--no-cache` is passed. */
+	cache: boolean;
+	/** Show the title and body as they are generated; false with `--no-stream`, `--json` or without a terminal. */
+	stream: boolean;
+}
+
+/**
+ * Structured result of `generate pr`, printed with `--json`.
+ */
+interface GeneratePrResult {
+	status: "created" | "updated" | "dry-run";
+	title: string;
+	body: string;
+	provider: ProviderName;
+	model: string;
+	usage: TokenUsage;
+	/** The created/updated PR, or the existing PR in a dry run. */
+	url: string | null;
+	branch: string;
+	base: string;
+	template: string | null;
+	labels: string[];
+	/** All generated alternatives, when `--candidates` asked for more than one. */
+	candidates?: Draft[];
+	/** Issue references found in the branch name and commits (e.g., "#456", "PROJ-123"). */
+	issues: string[];
+	/** Steps that did not run (e.g., "review" with --yes, "create-pr" with --dry-run). */
+	skipped: string[];
 }
 
-async function handleGeneratePr(options: GeneratePrOptions) {
+// Commander leaves the list options unset when they are not given
+type GeneratePrCliOptions = Omit<
+	GeneratePrOptions,
+	"reviewer" | "assignee" | "label"
+> &
+	Partial<Pick<GeneratePrOptions, "reviewer" | "assignee" | "label">>;
+
+/**
+ * Commander argument parser for repeatable, comma-separated options (e.g. `--label a,b --label c`).
+ * The options have no default, so the given values replace the configured list instead of adding to it.
+ */
+function collectList(value: string, previous: string[] = []): string[] {
+	return [
+		...previous,
+		...value
+			.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean),
+	];
+}
+
+/**
+ * Decides which PR template (if any) the AI should fill in.
+ * An explicit `--template` wins; otherwise the user picks one, or the first template is used with `--yes`.
+ * @param {string | false | undefined} templateOption - The `--template` / `--no-template` value.
+ * @param {boolean} skipConfirm - Whether prompts are disabled.
+ * @returns {Promise<PrTemplate | null>} - The template to use, or null for a free-form body.
+ * @throws {CommandError} If `--template` names a template that does not exist.
+ */
+async function resolvePrTemplate(
+	templateOption: string | false | undefined,
+	skipConfirm: boolean,
+): Promise<PrTemplate | null> {
+	if (templateOption === false) return null;
+
+	const templates = await findPrTemplates();
+	if (templateOption) {
+		const template = findPrTemplateByName(templates, templateOption);
+		if (!template) {
+			const available = templates.map((t) => t.name).join(", ") || "none";
+			throw new CommandError(
+				`PR template '${templateOption}' not found. Available templates: ${available}.`,
+				ExitCode.Usage,
+			);
+		}
+		return template;
+	}
+
+	const [firstTemplate] = templates;
+	if (!firstTemplate) return null;
+	if (templates.length === 1 || skipConfirm) return firstTemplate;
+	return choosePrTemplate(templates);
+}
+
+async function handleGeneratePr(
+	options: GeneratePrOptions,
+	config: Required<AppConfig>,
+): Promise<GeneratePrResult> {
 	console.log(theme.primary("🚀 Starting GitLift PR Generation..."));
 
 	if (options.dryRun) {
@@ -25,63 +169,207 @@ async function handleGeneratePr(options: GeneratePrOptions) {
 		);
 	}
 
-	try {
-		await checkPrerequisites();
-		const { currentBranch, diff, commits } = await getGitInfo(
-			options.base,
-			options.yes,
-		);
-		await ensureBranchIsPushed(currentBranch, options.yes);
-		const { title: initialTitle, body: initialBody } = await generatePrContent(
-			diff,
+	const skipped: string[] = [];
+	const aiSettings = resolveAiSettings(config, options);
+	const forge = await resolveForge(config.forge, config.forgeApiUrl);
+	await checkPrerequisites(aiSettings, forge);
+	const { currentBranch, diff, commits } = await getGitInfo(
+		options.base,
+		options.yes,
+	);
+	await ensureBranchIsPushed(currentBranch, options.yes);
+
+	const existingPr = await forge.findOpenRequest(currentBranch);
+	if (existingPr && !options.yes) {
+		if (!(await confirmUpdateExistingPr(existingPr))) {
+			throw new UserCancelledError(
+				`Leaving PR #${existingPr.number} unchanged.`,
+			);
+		}
+	}
+
+	const issueSettings = resolveIssueSettings(config.issues);
+	const issueReferences = options.issues
+		? extractIssueReferences(
+				currentBranch,
+				await getCommitMessages(options.base),
+				issueSettings,
+			)
+		: [];
+	const linkedIssues = issueSettings.fetch
+		? await fetchIssues(issueReferences, issueSettings, forge)
+		: [];
+	const withIssueLinks = (draft: Draft): Draft => ({
+		...draft,
+		body: appendIssueLinks(draft.body, issueReferences, issueSettings, true),
+	});
+
+	const usage = createTokenUsage({
+		command: "generate pr",
+		prices: resolvePrices(config.prices),
+	});
+	const generationOptions = {
+		...aiSettings,
+		language: options.language,
+		usage,
+		issueContext: formatIssuesForPrompt(linkedIssues),
+		branch: currentBranch,
+		cache: options.cache ? resolveCacheSettings(config.cache) : undefined,
+		stream: options.stream,
+		prompt: await loadPromptTemplates(config.prompt, "pr"),
+	};
+	const isExcluded = await loadIgnoreMatcher(config.exclude);
+	const scrubbed = scrubDiff(diff, config.secrets, isExcluded);
+	printSecretsReport(scrubbed.findings);
+	const preparedDiff = await prepareDiff(
+		scrubbed.content,
+		{ maxDiffTokens: config.maxDiffTokens, isExcluded },
+		generationOptions,
+	);
+	printDiffReport(preparedDiff);
+
+	const prTemplate = await resolvePrTemplate(options.template, options.yes);
+	if (prTemplate) {
+		console.log(theme.dim(`Using PR template: ${prTemplate.path}`));
+	}
+
+	const generateFirst = () =>
+		generatePrContent(
+			preparedDiff,
 			commits,
-			options.model,
-			options.language,
+			generationOptions,
+			prTemplate?.content,
 		);
+	const candidates = (
+		options.candidates > 1
+			? await generatePrContentCandidates(
+					preparedDiff,
+					commits,
+					generationOptions,
+					options.candidates,
+					prTemplate?.content,
+				)
+			: [
+					options.stream && !options.yes
+						? await generateInitialDraft(generateFirst)
+						: await generateFirst(),
+				]
+	).map(withIssueLinks);
 
-		let finalPrContent: { title: string; body: string } | null = {
-			title: initialTitle,
-			body: initialBody,
-		};
+	let finalPrContent: { title: string; body: string } | null =
+		candidates[0] ?? null;
 
-		if (!options.yes) {
-			finalPrContent = await reviewAndConfirmPr(initialTitle, initialBody);
+	if (!options.yes) {
+		const chosen =
+			candidates.length > 1
+				? await chooseCandidate(candidates, "PR Content")
+				: finalPrContent;
+		if (!chosen) {
+			throw new UserCancelledError("PR generation cancelled.");
 		}
+		finalPrContent = await reviewAndConfirmPr(
+			chosen.title,
+			chosen.body,
+			existingPr ?? undefined,
+			async (previous, feedback) =>
+				withIssueLinks(
+					await generatePrContent(
+						preparedDiff,
+						commits,
+						generationOptions,
+						prTemplate?.content,
+						{ previous, feedback },
+					),
+				),
+			candidates,
+		);
+	} else {
+		skipped.push("review");
+	}
 
-		if (!finalPrContent) {
-			console.log(theme.warning("PR generation cancelled."));
-			process.exit(0);
-		}
+	if (!finalPrContent) {
+		throw new UserCancelledError("PR generation cancelled.");
+	}
 
-		const { title, body } = finalPrContent;
+	const { title, body } = finalPrContent;
 
-		if (options.dryRun) {
-			console.log(`\\n${theme.primary("Dry Run Results:")}`);
-			console.log(`${theme.info("Title:")} ${title}`);
-			console.log(`${theme.info("Body:\\n")}${theme.dim(body)}`);
-			console.log(
-				theme.warning("\\nExiting due to --dry-run flag. No PR created."),
+	const labels = [...options.label];
+	if (options.suggestLabels) {
+		const repoLabels = await forge.listLabels();
+		const candidates = repoLabels.filter((l) => !labels.includes(l.name));
+		if (candidates.length > 0) {
+			let suggested = await suggestPrLabels(
+				title,
+				body,
+				candidates,
+				generationOptions,
 			);
-			process.exit(0);
+			if (!options.yes && suggested.length > 0) {
+				suggested = await chooseSuggestedLabels(suggested);
+			}
+			labels.push(...suggested);
+		} else {
+			skipped.push("suggest-labels");
 		}
+	}
 
-		const prUrl = await createGitHubPr(title, body);
-		await askAndOpenPr(prUrl, options.yes);
+	const metadata: PrMetadata = {
+		base: options.base,
+		draft: options.draft,
+		reviewers: options.reviewer,
+		assignees: options.assignee,
+		labels,
+		milestone: options.milestone || undefined,
+	};
 
-		console.log(theme.success("\\n✨ PR AI process finished successfully!"));
-	} catch (error: unknown) {
-		if (error instanceof Error) {
-			console.error(
-				theme.error(`\\n❌ Error in PR Generation: ${error.message}`),
-			);
-		} else {
-			console.error(
-				theme.error("\\n❌ An unexpected error occurred during PR Generation:"),
-				error,
-			);
+	const result = {
+		title,
+		body,
+		provider: aiSettings.provider,
+		model: getAnsweringModel(usage, aiSettings.modelName),
+		usage,
+		branch: currentBranch,
+		base: options.base,
+		template: prTemplate?.path ?? null,
+		labels,
+		candidates: candidates.length > 1 ? candidates : undefined,
+		issues: issueReferences.map(formatIssueReference),
+		skipped,
+	};
+
+	if (options.dryRun) {
+		console.log(`\n${theme.primary("Dry Run Results:")}`);
+		console.log(`${theme.info("Title:")} ${title}`);
+		console.log(`${theme.info("Body:\n")}${theme.dim(body)}`);
+		if (labels.length > 0) {
+			console.log(`${theme.info("Labels:")} ${labels.join(", ")}`);
 		}
-		process.exit(1);
+		console.log(
+			theme.warning(
+				existingPr
+					? `\nExiting due to --dry-run flag. PR #${existingPr.number} not updated.`
+					: "\nExiting due to --dry-run flag. No PR created.",
+			),
+		);
+		skipped.push(existingPr ? "update-pr" : "create-pr", "open-in-browser");
+		return { status: "dry-run", ...result, url: existingPr?.url ?? null };
 	}
+
+	const prUrl = existingPr
+		? await forge.updateRequest(existingPr, title, body, metadata)
+		: await forge.createRequest(title, body, currentBranch, metadata);
+	if (options.json) {
+		skipped.push("open-in-browser");
+	} else {
+		await askAndOpenPr(prUrl, forge, options.yes);
+	}
+
+	console.log(theme.success("\n✨ PR AI process finished successfully!"));
+	return {
+		status: existingPr ? "updated" : "created",
+		...result,
+		url: prUrl,
+	};
 }
 
 export function registerPrCommand(
@@ -93,13 +381,18 @@ export function registerPrCommand(
 		.description("Generate a Pull Request description and title using AI.")
 		.option(
 			"-b, --base <branch>",
-			"Specify the base branch for comparison",
+			"Specify the base branch for comparison and for the PR",
 			config.baseBranch,
 		)
 		.option(
 			"-m, --model <model-name>",
-			"Specify the OpenAI model to use",
-			config.model,
+			`Specify the AI model to use (default: "${config.model}")`,
+		)
+		.addOption(
+			new Option(
+				"--provider <provider>",
+				"Specify the AI provider to use (overrides config)",
+			).choices(PROVIDER_NAMES),
 		)
 		.option(
 			"-l, --language <language>",
@@ -112,7 +405,77 @@ export function registerPrCommand(
 			config.skipConfirmations,
 		)
 		.option("--dry-run", "Generate title/body but do not create PR", false)
-		.action(async (cmdOptions: GeneratePrOptions) => {
-			await handleGeneratePr(cmdOptions);
+		.option(
+			"--candidates <n>",
+			"Generate several alternative titles and bodies to choose from",
+			parseCandidateCount,
+			1,
+		)
+		.option(
+			"--json",
+			"Print the result as JSON on stdout and progress on stderr (implies --yes)",
+			false,
+		)
+		.option("-o, --output <file>", "Also write the JSON result to a file")
+		.option(
+			"-t, --template <name>",
+			"Fill in the named PR template (from .github/PULL_REQUEST_TEMPLATE/)",
+		)
+		.option("--no-template", "Ignore PR templates and write a free-form body")
+		.option(
+			"--no-issues",
+			"Do not look for issue references in the branch name and commits",
+		)
+		.option(
+			"--no-cache",
+			"Always call the AI provider instead of reusing a cached response",
+		)
+		.option(
+			"--no-stream",
+			"Wait for the complete response instead of showing it as it is generated",
+		)
+		.option("-d, --draft", "Open the PR as a draft", config.draft)
+		.option(
+			"--no-draft",
+			"Open a ready-for-review PR even if the config sets draft",
+		)
+		.option(
+			"-r, --reviewer <handles>",
+			"Request reviews from people or teams, instead of the configured ones (repeatable, comma-separated)",
+			collectList,
+		)
+		.option(
+			"-a, --assignee <logins>",
+			"Assign people by login, '@me' for yourself, instead of the configured ones (repeatable, comma-separated)",
+			collectList,
+		)
+		.option(
+			"--label <names>",
+			"Add labels by name, instead of the configured ones (repeatable, comma-separated)",
+			collectList,
+		)
+		.option(
+			"--milestone <name>",
+			"Add the PR to a milestone by name",
+			config.milestone || undefined,
+		)
+		.option(
+			"--suggest-labels",
+			"Let the AI pick additional labels from the repository's label list",
+			config.suggestLabels,
+		)
+		.action(async (cmdOptions: GeneratePrCliOptions) => {
+			// JSON output is meant for scripts, so it never prompts or redraws the terminal
+			const options = {
+				...cmdOptions,
+				reviewer: cmdOptions.reviewer ?? config.reviewers,
+				assignee: cmdOptions.assignee ?? config.assignees,
+				label: cmdOptions.label ?? config.labels,
+				yes: cmdOptions.yes || cmdOptions.json,
+				stream: cmdOptions.stream && !cmdOptions.json && canPreviewStream(),
+			};
+			await runCommand("PR Generation", options, () =>
+				handleGeneratePr(options, config),
+			);
 		});
 }
@@ -0,0 +1,149 @@
+import { readFile, writeFile } from "node:fs/promises";
+import type { Command } from "commander";
+import type { AppConfig } from "../config/config";
+import { getStagedDiff } from "../core/git";
+import {
+	HOOK_NAME,
+	LEFTHOOK_SNIPPET,
+	installHookBlock,
+	resolveHookTarget,
+	shouldSkipHookSource,
+	uninstallHookBlock,
+} from "../core/hooks";
+import { theme } from "../ui/theme";
+import { reportError } from "../utils/output";
+import { draftCommitMessage, formatCommitMessage } from "./generate/commit";
+
+async function handleHookInstall() {
+	try {
+		const target = await resolveHookTarget();
+
+		if (target.manager === "lefthook") {
+			console.log(
+				theme.warning(
+					`lefthook detected (${target.path}). It manages .git/hooks itself, so add this to its config instead:`,
+				),
+			);
+			console.log(`\n${LEFTHOOK_SNIPPET}\n`);
+			console.log(theme.dim("Then run 'lefthook install'."));
+			return;
+		}
+
+		const result = await installHookBlock(target.path);
+		const via = target.manager === "husky" ? " (husky)" : "";
+		console.log(
+			theme.success(
+				`✓ ${result === "updated" ? "Updated" : "Installed"} ${HOOK_NAME} hook${via}: ${target.path}`,
+			),
+		);
+		console.log(
+			theme.dim(
+				"Plain 'git commit' will now pre-fill the message with GitLift. Existing hook content was kept.",
+			),
+		);
+	} catch (error: unknown) {
+		process.exit(reportError(error, "Hook Installation"));
+	}
+}
+
+async function handleHookUninstall() {
+	try {
+		const target = await resolveHookTarget();
+
+		if (target.manager === "lefthook") {
+			console.log(
+				theme.warning(
+					`lefthook detected. Remove the 'gitlift' command from ${target.path} and run 'lefthook install'.`,
+				),
+			);
+			return;
+		}
+
+		if (await uninstallHookBlock(target.path)) {
+			console.log(
+				theme.success(`✓ Removed GitLift from ${HOOK_NAME}: ${target.path}`),
+			);
+		} else {
+			console.log(theme.warning(`GitLift is not installed in ${target.path}.`));
+		}
+	} catch (error: unknown) {
+		process.exit(reportError(error, "Hook Removal"));
+	}
+}
+
+/**
+ * Non-interactive entry point called by the `prepare-commit-msg` hook.
+ * Writes a generated message above the comments Git placed in the message file.
+ * Never fails, so a GitLift problem can never block a commit.
+ */
+async function handleHookRun(
+	messageFile: string,
+	source: string | undefined,
+	config: Required<AppConfig>,
+) {
+	if (shouldSkipHookSource(source)) return;
+
+	try {
+		const existing = await readFile(messageFile, "utf8");
+		const hasMessage = existing
+			.split("\n")
+			.some((line) => line.trim() && !line.startsWith("#"));
+		if (hasMessage) return;
+
+		const stagedDiff = await getStagedDiff();
+		if (!stagedDiff) return;
+
+		// The hook never reviews; git opens the editor with the message instead
+		const message = await draftCommitMessage(
+			stagedDiff,
+			{ yes: true },
+			config,
+			1,
+			"hook",
+		);
+		await writeFile(
+			messageFile,
+			`${formatCommitMessage(message)}\n${existing}`,
+		);
+	} catch (error: unknown) {
+		console.error(
+			theme.warning(
+				`⚠️ GitLift could not pre-fill the commit message: ${error instanceof Error ? error.message : error}`,
+			),
+		);
+	}
+}
+
+export function registerHookCommand(
+	program: Command,
+	config: Required<AppConfig>,
+) {
+	const hookCommand = program
+		.command("hook")
+		.description(`Manage the ${HOOK_NAME} Git hook integration.`);
+
+	hookCommand
+		.command("install")
+		.description(
+			`Install a ${HOOK_NAME} hook that pre-fills commit messages (works with husky and lefthook)`,
+		)
+		.action(async () => {
+			await handleHookInstall();
+		});
+
+	hookCommand
+		.command("uninstall")
+		.description(`Remove GitLift from the ${HOOK_NAME} hook`)
+		.action(async () => {
+			await handleHookUninstall();
+		});
+
+	hookCommand
+		.command("run <message-file> [source] [sha]")
+		.description(
+			`Called by the ${HOOK_NAME} hook (not meant to be run by hand)`,
+		)
+		.action(async (messageFile: string, source: string | undefined) => {
+			await handleHookRun(messageFile, source, config);
+		});
+}
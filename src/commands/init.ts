@@ -4,8 +4,17 @@ import { $ } from "bun";
 import type { Command } from "commander";
 import inquirer from "inquirer";
 import ora from "ora";
+import { getGlobalConfigPath } from "../config/config";
 import { checkPrerequisites } from "../core/prerequisites";
+import {
+	PROVIDERS,
+	PROVIDER_NAMES,
+	type ProviderName,
+	type ProviderOptions,
+	assertProviderCredentials,
+} from "../core/provider";
 import { theme } from "../ui/theme";
+import { reportError } from "../utils/output";
 
 interface InitOptions {
 	global: boolean;
@@ -16,8 +25,31 @@ interface InitConfig {
 	model: string;
 	language: string;
 	skipConfirmations: boolean;
+	provider: ProviderName;
+	baseURL?: string;
 }
 
+// Suggested models per provider for the configuration wizard
+const MODEL_CHOICES: Record<ProviderName, { name: string; value: string }[]> = {
+	openai: [
+		{ name: "GPT-4.1 Mini (Recommended)", value: "gpt-4.1-mini" },
+		{ name: "GPT-4o", value: "gpt-4o" },
+		{ name: "GPT-4o Mini (Faster/Cheaper)", value: "gpt-4o-mini" },
+	],
+	anthropic: [
+		{
+			name: "Claude 3.5 Haiku (Recommended)",
+			value: "claude-3-5-haiku-latest",
+		},
+		{ name: "Claude 3.7 Sonnet", value: "claude-3-7-sonnet-latest" },
+	],
+	ollama: [
+		{ name: "Llama 3.1 (Recommended)", value: "llama3.1" },
+		{ name: "Qwen 2.5 Coder", value: "qwen2.5-coder" },
+	],
+	"openai-compatible": [],
+};
+
 async function detectGitInfo() {
 	try {
 		// Detectar branch padrão do repositório
@@ -31,22 +63,76 @@ async function detectGitInfo() {
 	}
 }
 
-async function setupOpenAIKey() {
-	if (process.env.OPENAI_API_KEY) {
-		console.log(theme.success("✓ OpenAI API Key already configured"));
+async function setupProvider(): Promise<ProviderOptions> {
+	const { provider } = await inquirer.prompt([
+		{
+			type: "list",
+			name: "provider",
+			message: "Which AI provider do you want to use?",
+			choices: PROVIDER_NAMES.map((name) => ({
+				name: PROVIDERS[name].label,
+				value: name,
+			})),
+			default: "openai",
+		},
+	]);
+
+	const info = PROVIDERS[provider as ProviderName];
+	let baseURL: string | undefined;
+	if (info.requiresBaseURL || info.defaultBaseURL) {
+		const answers = await inquirer.prompt([
+			{
+				type: "input",
+				name: "baseURL",
+				message: `Base URL for ${info.label}:`,
+				default: info.defaultBaseURL,
+				validate: (input) =>
+					URL.canParse(input) ||
+					"Please enter a valid URL (e.g., http://localhost:8080/v1)",
+			},
+		]);
+		// Keep the config minimal when the provider's default endpoint is used
+		baseURL =
+			answers.baseURL === info.defaultBaseURL ? undefined : answers.baseURL;
+	}
+
+	return { provider, baseURL };
+}
+
+async function setupApiKey(provider: ProviderName) {
+	const { label, apiKeyEnv, requiresApiKey, keyUrl } = PROVIDERS[provider];
+	if (!apiKeyEnv) {
+		console.log(theme.success(`✓ ${label} does not need an API key`));
 		return;
 	}
 
-	console.log(theme.warning("⚠️ OpenAI API Key not found"));
-	console.log(
-		theme.info("Get your API key at: https://platform.openai.com/api-keys"),
-	);
+	if (process.env[apiKeyEnv]) {
+		console.log(theme.success(`✓ ${label} API Key already configured`));
+		return;
+	}
+
+	if (!requiresApiKey) {
+		const { needsKey } = await inquirer.prompt([
+			{
+				type: "confirm",
+				name: "needsKey",
+				message: `Does your ${label} require an API key?`,
+				default: false,
+			},
+		]);
+		if (!needsKey) return;
+	} else {
+		console.log(theme.warning(`⚠️ ${label} API Key not found`));
+		if (keyUrl) {
+			console.log(theme.info(`Get your API key at: ${keyUrl}`));
+		}
+	}
 
 	const { apiKey } = await inquirer.prompt([
 		{
 			type: "password",
 			name: "apiKey",
-			message: "Enter your OpenAI API Key:",
+			message: `Enter your ${label} API Key:`,
 			mask: "*",
 			validate: (input) => input.length > 0 || "API Key is required",
 		},
@@ -56,7 +142,7 @@ async function setupOpenAIKey() {
 		{
 			type: "confirm",
 			name: "addToShell",
-			message: "Add OPENAI_API_KEY to your shell profile (.zshrc/.bashrc)?",
+			message: `Add ${apiKeyEnv} to your shell profile (.zshrc/.bashrc)?`,
 			default: true,
 		},
 	]);
@@ -67,10 +153,10 @@ async function setupOpenAIKey() {
 			const profile = shell.includes("zsh") ? ".zshrc" : ".bashrc";
 			const profilePath = join(process.env.HOME || "", profile);
 
-			const exportLine = `\nexport OPENAI_API_KEY="${apiKey}"\n`;
+			const exportLine = `\nexport ${apiKeyEnv}="${apiKey}"\n`;
 			await writeFile(profilePath, exportLine, { flag: "a" });
 
-			console.log(theme.success(`✓ Added OPENAI_API_KEY to ${profile}`));
+			console.log(theme.success(`✓ Added ${apiKeyEnv} to ${profile}`));
 			console.log(
 				theme.info("Run `source ~/${profile}` or restart your terminal"),
 			);
@@ -80,14 +166,14 @@ async function setupOpenAIKey() {
 			);
 			console.log(
 				theme.info(
-					`Please add this line to your shell profile:\nexport OPENAI_API_KEY="${apiKey}"`,
+					`Please add this line to your shell profile:\nexport ${apiKeyEnv}="${apiKey}"`,
 				),
 			);
 		}
 	}
 
 	// Set for current session
-	process.env.OPENAI_API_KEY = apiKey;
+	process.env[apiKeyEnv] = apiKey;
 }
 
 async function setupGitHubAuth() {
@@ -193,14 +279,14 @@ async function setupEditor() {
 async function createConfigFile(config: InitConfig, isGlobal: boolean) {
 	const configContent = {
 		baseBranch: config.baseBranch,
+		provider: config.provider,
+		...(config.baseURL ? { baseURL: config.baseURL } : {}),
 		model: config.model,
 		language: config.language,
 		skipConfirmations: config.skipConfirmations,
 	};
 
-	const configPath = isGlobal
-		? join(process.env.HOME || "", ".gitliftrc.json")
-		: ".gitliftrc.json";
+	const configPath = isGlobal ? getGlobalConfigPath() : ".gitliftrc.json";
 
 	await writeFile(configPath, JSON.stringify(configContent, null, 2));
 	console.log(theme.success(`✓ Configuration saved to ${configPath}`));
@@ -210,14 +296,11 @@ async function testConfiguration(config: InitConfig) {
 	const spinner = ora("Testing configuration...").start();
 
 	try {
-		// Test OpenAI API
-		spinner.text = "Testing OpenAI API connection...";
-		const testPrompt = "test";
+		// Test AI provider
+		spinner.text = `Testing ${PROVIDERS[config.provider].label} configuration...`;
 		// Note: This would be a minimal API call to test connectivity
-		// For now, we'll just check if the key exists
-		if (!process.env.OPENAI_API_KEY) {
-			throw new Error("OpenAI API Key not found");
-		}
+		// For now, we'll just check that the credentials exist
+		assertProviderCredentials(config);
 
 		// Test GitHub CLI
 		spinner.text = "Testing GitHub CLI...";
@@ -258,9 +341,10 @@ async function handleInit(options: InitOptions) {
 			);
 		}
 
-		// Step 2: Setup OpenAI API Key
-		console.log(theme.info("\n🔑 Step 2: OpenAI API Key setup..."));
-		await setupOpenAIKey();
+		// Step 2: Setup AI provider and its API Key
+		console.log(theme.info("\n🔑 Step 2: AI provider setup..."));
+		const providerOptions = await setupProvider();
+		await setupApiKey(providerOptions.provider);
 
 		// Step 3: Setup GitHub Authentication
 		console.log(theme.info("\n🐙 Step 3: GitHub CLI authentication..."));
@@ -275,6 +359,9 @@ async function handleInit(options: InitOptions) {
 
 		const detectedBranch = await detectGitInfo();
 
+		const providerInfo = PROVIDERS[providerOptions.provider];
+		const modelChoices = MODEL_CHOICES[providerOptions.provider];
+
 		const config = await inquirer.prompt([
 			{
 				type: "input",
@@ -282,17 +369,22 @@ async function handleInit(options: InitOptions) {
 				message: "Default base branch for PRs:",
 				default: detectedBranch,
 			},
-			{
-				type: "list",
-				name: "model",
-				message: "Preferred OpenAI model:",
-				choices: [
-					{ name: "GPT-4 Turbo (Recommended)", value: "gpt-4.1-mini" },
-					{ name: "GPT-4o", value: "gpt-4o" },
-					{ name: "GPT-4o Mini (Faster/Cheaper)", value: "gpt-4o-mini" },
-				],
-				default: "gpt-4.1-mini",
-			},
+			modelChoices.length > 0
+				? {
+						type: "list",
+						name: "model",
+						message: `Preferred ${providerInfo.label} model:`,
+						choices: modelChoices,
+						default: providerInfo.defaultModel,
+					}
+				: {
+						type: "input",
+						name: "model",
+						message: `Model name served by your ${providerInfo.label}:`,
+						default: providerInfo.defaultModel,
+						validate: (input: string) =>
+							input.length > 0 || "Model name is required",
+					},
 			{
 				type: "list",
 				name: "language",
@@ -325,13 +417,15 @@ async function handleInit(options: InitOptions) {
 			config.language = customLanguage;
 		}
 
+		const initConfig = { ...config, ...providerOptions } as InitConfig;
+
 		// Step 6: Save configuration
 		console.log(theme.info("\n💾 Step 6: Saving configuration..."));
-		await createConfigFile(config as InitConfig, options.global);
+		await createConfigFile(initConfig, options.global);
 
 		// Step 7: Test configuration
 		console.log(theme.info("\n🧪 Step 7: Testing configuration..."));
-		await testConfiguration(config as InitConfig);
+		await testConfiguration(initConfig);
 
 		// Success message
 		console.log(theme.success("\n✨ GitLift setup completed successfully!"));
@@ -340,15 +434,7 @@ async function handleInit(options: InitOptions) {
 		console.log(theme.dim("• Try: gitlift generate commit"));
 		console.log(theme.dim("• Docs: https://github.com/arthurbm/gitlift"));
 	} catch (error: unknown) {
-		if (error instanceof Error) {
-			console.error(theme.error(`\n❌ Setup failed: ${error.message}`));
-		} else {
-			console.error(
-				theme.error("\n❌ An unexpected error occurred during setup:"),
-				error,
-			);
-		}
-		process.exit(1);
+		process.exit(reportError(error, "Setup"));
 	}
 }
 
@@ -0,0 +1,320 @@
+import { writeFile } from "node:fs/promises";
+import { stripVTControlCharacters } from "node:util";
+import { type Command, Option } from "commander";
+import { version } from "../../package.json";
+import { type AppConfig, resolveAiSettings } from "../config/config";
+import {
+	type TokenUsage,
+	createTokenUsage,
+	generateCodeReview,
+	getAnsweringModel,
+} from "../core/ai";
+import { budgetDiff } from "../core/diff";
+import {
+	type ExistingPr,
+	type ReviewComment,
+	resolveForge,
+} from "../core/forge";
+import { getGitInfo, getStagedDiff } from "../core/git";
+import { loadIgnoreMatcher } from "../core/ignore";
+import { checkPrerequisites } from "../core/prerequisites";
+import { PROVIDER_NAMES, type ProviderName } from "../core/provider";
+import {
+	type CodeReview,
+	type ReviewFinding,
+	annotateDiffLineNumbers,
+	formatFindingComment,
+	formatReviewText,
+	getCommentableLines,
+	sortFindings,
+	toSarif,
+} from "../core/review";
+import { scrubDiff } from "../core/secrets";
+import { resolvePrices } from "../core/usage";
+import { printDiffReport, printSecretsReport } from "../ui/diff-ui";
+import { confirmPostReview } from "../ui/review-ui";
+import { theme } from "../ui/theme";
+import { CommandError, ExitCode } from "../utils/errors";
+import { routeLogsToStderr, runCommand } from "../utils/output";
+
+const REVIEW_FORMATS = ["text", "json", "sarif"] as const;
+
+type ReviewFormat = (typeof REVIEW_FORMATS)[number];
+
+interface ReviewOptions {
+	staged: boolean;
+	base: string;
+	format: ReviewFormat;
+	output?: string;
+	post: boolean;
+	model?: string;
+	provider?: ProviderName;
+	language: string;
+	yes: boolean;
+}
+
+/**
+ * Structured result of `review`, printed with `--format json`.
+ */
+interface ReviewResult {
+	status: "generated";
+	summary: string;
+	findings: ReviewFinding[];
+	/** The PR the review was posted to, if any. */
+	url: string | null;
+	provider: ProviderName;
+	model: string;
+	usage: TokenUsage;
+	/** Steps that did not run (e.g., "post" when declined). */
+	skipped: string[];
+}
+
+/**
+ * Splits findings into inline comments (on lines that are part of the diff) and
+ * a summary body listing the rest.
+ */
+function buildReviewComments(
+	review: CodeReview,
+	diff: string,
+): { body: string; comments: ReviewComment[] } {
+	const commentable = getCommentableLines(diff);
+	const comments: ReviewComment[] = [];
+	const general: string[] = [];
+	for (const finding of review.findings) {
+		const lines = commentable.get(finding.file);
+		if (lines?.has(finding.endLine)) {
+			comments.push({
+				path: finding.file,
+				line: finding.endLine,
+				startLine:
+					finding.startLine < finding.endLine && lines.has(finding.startLine)
+						? finding.startLine
+						: undefined,
+				body: formatFindingComment(finding),
+			});
+		} else {
+			general.push(formatFindingComment(finding, true));
+		}
+	}
+	const body = [
+		`## 🔎 GitLift AI Review\n\n${review.summary}`,
+		...general,
+	].join("\n\n---\n\n");
+	return { body, comments };
+}
+
+async function writeReport(
+	format: ReviewFormat,
+	review: CodeReview,
+	output?: string,
+) {
+	const report =
+		format === "sarif"
+			? JSON.stringify(toSarif(review, version), null, 2)
+			: formatReviewText(review);
+	if (format === "sarif") {
+		process.stdout.write(`${report}\n`);
+	} else {
+		console.log(`\n${report}`);
+	}
+	if (output) {
+		await writeFile(output, `${stripVTControlCharacters(report)}\n`);
+	}
+}
+
+async function handleReview(
+	options: ReviewOptions,
+	config: Required<AppConfig>,
+): Promise<ReviewResult> {
+	console.log(theme.primary("🚀 Starting GitLift Review..."));
+
+	if (options.post && options.staged) {
+		throw new CommandError(
+			"--post reviews the branch's pull request and cannot be combined with --staged.",
+			ExitCode.Usage,
+		);
+	}
+
+	const skipped: string[] = [];
+	const aiSettings = resolveAiSettings(config, options);
+	const forge = options.post
+		? await resolveForge(config.forge, config.forgeApiUrl)
+		: null;
+	await checkPrerequisites(aiSettings, forge);
+
+	let diff: string;
+	let commits: string | undefined;
+	let existingPr: ExistingPr | null = null;
+	if (options.staged) {
+		diff = await getStagedDiff();
+		if (!diff) {
+			throw new CommandError(
+				"No staged changes found. Nothing to review.",
+				ExitCode.NothingToDo,
+			);
+		}
+	} else {
+		const gitInfo = await getGitInfo(options.base, options.yes);
+		diff = gitInfo.diff;
+		commits = gitInfo.commits;
+		if (forge) {
+			existingPr = await forge.findOpenRequest(gitInfo.currentBranch);
+			if (!existingPr) {
+				throw new CommandError(
+					`No open ${forge.requestName} found for '${gitInfo.currentBranch}'. Create one with 'gitlift generate pr' first.`,
+					ExitCode.Usage,
+				);
+			}
+		}
+	}
+
+	const isExcluded = await loadIgnoreMatcher(config.exclude);
+	const scrubbed = scrubDiff(diff, config.secrets, isExcluded);
+	printSecretsReport(scrubbed.findings);
+	const budgeted = budgetDiff(scrubbed.content, {
+		maxDiffTokens: config.maxDiffTokens,
+		isExcluded,
+	});
+	printDiffReport({
+		content: budgeted.content,
+		summarized: false,
+		omitted: budgeted.omitted,
+		estimatedTokens: budgeted.estimatedTokens,
+	});
+	// Reviews need the actual code, so large diffs are reviewed chunk by chunk instead of summarized
+	const chunks = budgeted.chunks ?? [budgeted.content];
+	if (chunks.length > 1) {
+		console.log(
+			theme.warning(
+				`Diff is ~${budgeted.estimatedTokens} tokens (budget ${config.maxDiffTokens}); reviewing it in ${chunks.length} parts.`,
+			),
+		);
+	}
+
+	const usage = createTokenUsage({
+		command: "review",
+		prices: resolvePrices(config.prices),
+	});
+	const generationOptions = {
+		...aiSettings,
+		language: options.language,
+		usage,
+	};
+	const summaries: string[] = [];
+	const findings: ReviewFinding[] = [];
+	const commentable = getCommentableLines(budgeted.content);
+	for (const chunk of chunks) {
+		const review = await generateCodeReview(
+			annotateDiffLineNumbers(chunk),
+			commits,
+			generationOptions,
+		);
+		summaries.push(review.summary);
+		// Drop findings for files that are not part of the reviewed diff
+		for (const finding of review.findings) {
+			if (!commentable.has(finding.file)) continue;
+			findings.push({
+				...finding,
+				endLine: Math.max(finding.startLine, finding.endLine),
+			});
+		}
+	}
+	const review: CodeReview = {
+		summary: summaries.join("\n\n"),
+		findings: sortFindings(findings),
+	};
+
+	if (options.format !== "json") {
+		await writeReport(options.format, review, options.output);
+	}
+
+	let url: string | null = null;
+	if (forge && existingPr) {
+		if (options.yes || (await confirmPostReview(existingPr, findings.length))) {
+			const { body, comments } = buildReviewComments(review, budgeted.content);
+			await forge.postReview(existingPr, body, comments);
+			url = existingPr.url;
+		} else {
+			skipped.push("post");
+		}
+	}
+
+	return {
+		status: "generated",
+		...review,
+		url,
+		provider: aiSettings.provider,
+		model: getAnsweringModel(usage, aiSettings.modelName),
+		usage,
+		skipped,
+	};
+}
+
+export function registerReviewCommand(
+	program: Command,
+	config: Required<AppConfig>,
+) {
+	program
+		.command("review")
+		.description(
+			"Review the current branch (or staged changes) with AI and report findings.",
+		)
+		.option(
+			"-s, --staged",
+			"Review staged changes instead of the branch",
+			false,
+		)
+		.option(
+			"-b, --base <branch>",
+			"Specify the base branch to compare the current branch against",
+			config.baseBranch,
+		)
+		.addOption(
+			new Option(
+				"-f, --format <format>",
+				"Report format (json and sarif are printed on stdout, progress on stderr)",
+			)
+				.choices(REVIEW_FORMATS)
+				.default("text"),
+		)
+		.option("-o, --output <file>", "Also write the report to a file")
+		.option(
+			"--post",
+			"Post the findings as review comments on the branch's open PR",
+			false,
+		)
+		.option(
+			"-m, --model <model-name>",
+			`Specify the AI model to use (default: "${config.model}")`,
+		)
+		.addOption(
+			new Option(
+				"--provider <provider>",
+				"Specify the AI provider to use (overrides config)",
+			).choices(PROVIDER_NAMES),
+		)
+		.option(
+			"-l, --language <language>",
+			"Specify the language for the review",
+			config.language,
+		)
+		.option(
+			"-y, --yes",
+			"Skip all confirmation prompts",
+			config.skipConfirmations,
+		)
+		.action(async (cmdOptions: ReviewOptions) => {
+			const json = cmdOptions.format === "json";
+			// Machine-readable formats are meant for scripts, so they never prompt
+			const options = {
+				...cmdOptions,
+				yes: cmdOptions.yes || cmdOptions.format !== "text",
+			};
+			if (options.format === "sarif") routeLogsToStderr();
+			await runCommand(
+				"Review",
+				{ json, output: json ? options.output : undefined },
+				() => handleReview(options, config),
+			);
+		});
+}
@@ -0,0 +1,254 @@
+import { type Command, Option } from "commander";
+import { type AppConfig, resolveAiSettings } from "../config/config";
+import {
+	type TokenUsage,
+	createTokenUsage,
+	generateCommitMessageContent,
+	getAnsweringModel,
+	prepareDiff,
+} from "../core/ai";
+import {
+	resolveCommitConvention,
+	validateCommitTitle,
+} from "../core/commit-convention";
+import {
+	findRemoteBranchContaining,
+	getCommitDiff,
+	getCurrentBranch,
+} from "../core/git";
+import { loadIgnoreMatcher } from "../core/ignore";
+import { checkPrerequisites } from "../core/prerequisites";
+import { loadPromptTemplates } from "../core/prompt";
+import { PROVIDER_NAMES, type ProviderName } from "../core/provider";
+import {
+	type RangeCommit,
+	isPoorCommitTitle,
+	resolveRewordRange,
+	rewordCommits,
+} from "../core/reword";
+import { scrubDiff } from "../core/secrets";
+import { resolvePrices } from "../core/usage";
+import { printDiffReport, printSecretsReport } from "../ui/diff-ui";
+import { type RewordEntry, reviewRewordPlan } from "../ui/reword-ui";
+import { theme } from "../ui/theme";
+import { CommandError, ExitCode, UserCancelledError } from "../utils/errors";
+import { type OutputOptions, runCommand } from "../utils/output";
+import { formatCommitMessage } from "./generate/commit";
+
+interface RewordOptions extends OutputOptions {
+	/** Reword every commit in the range, not just the poorly worded ones. */
+	all: boolean;
+	/** Allow rewriting commits that are already on a remote branch. */
+	force: boolean;
+	model?: string;
+	provider?: ProviderName;
+	language: string;
+	yes: boolean;
+}
+
+/**
+ * Structured result of `reword`, printed with `--json`.
+ */
+interface RewordResult {
+	status: "reworded";
+	/** The reworded commits, oldest first. */
+	commits: {
+		/** Hash before the rebase. */
+		previous: string;
+		/** Hash after the rebase. */
+		commit: string;
+		previousTitle: string;
+		title: string;
+		body: string;
+	}[];
+	convention: string;
+	provider: ProviderName;
+	model: string;
+	usage: TokenUsage;
+	/** Steps that did not run (e.g., "review" with --yes). */
+	skipped: string[];
+}
+
+async function handleReword(
+	range: string,
+	options: RewordOptions,
+	config: Required<AppConfig>,
+): Promise<RewordResult> {
+	console.log(theme.primary("🚀 Starting GitLift Reword..."));
+
+	const skipped: string[] = [];
+	const aiSettings = resolveAiSettings(config, options);
+	await checkPrerequisites(aiSettings, null);
+
+	const rewordRange = await resolveRewordRange(range);
+	const convention = await resolveCommitConvention(config.commitConvention);
+	const selected = options.all
+		? rewordRange.commits
+		: rewordRange.commits.filter(
+				(commit) =>
+					isPoorCommitTitle(commit.title) ||
+					validateCommitTitle(commit.title, convention).length > 0,
+			);
+	if (selected.length === 0) {
+		throw new CommandError(
+			`All ${rewordRange.commits.length} commit(s) in '${range}' already have descriptive messages. Use --all to reword them anyway.`,
+			ExitCode.NothingToDo,
+		);
+	}
+
+	// Rewording an ancestor rewrites every descendant, so checking the oldest selected commit is enough
+	const remoteBranch = await findRemoteBranchContaining(
+		(selected[0] as RangeCommit).hash,
+	);
+	if (remoteBranch) {
+		if (!options.force) {
+			throw new CommandError(
+				`Some of these commits are already on '${remoteBranch}'. Rewording them rewrites published history and needs a force push; pass --force to do it anyway.`,
+				ExitCode.Usage,
+			);
+		}
+		console.log(
+			theme.warning(
+				`⚠️ Rewording commits that are already on '${remoteBranch}'. You will need to force push afterwards.`,
+			),
+		);
+	}
+
+	const usage = createTokenUsage({
+		command: "reword",
+		prices: resolvePrices(config.prices),
+	});
+	const generationOptions = {
+		...aiSettings,
+		language: options.language,
+		usage,
+		branch: (await getCurrentBranch()) ?? undefined,
+		prompt: await loadPromptTemplates(config.prompt, "commit"),
+	};
+	const isExcluded = await loadIgnoreMatcher(config.exclude);
+	let entries: RewordEntry[] | null = [];
+	for (const [index, commit] of selected.entries()) {
+		console.log(
+			theme.info(
+				`\nCommit ${index + 1}/${selected.length}: ${commit.hash.slice(0, 7)} ${commit.title}`,
+			),
+		);
+		const scrubbed = scrubDiff(
+			await getCommitDiff(commit.hash),
+			config.secrets,
+			isExcluded,
+		);
+		printSecretsReport(scrubbed.findings);
+		const preparedDiff = await prepareDiff(
+			scrubbed.content,
+			{ maxDiffTokens: config.maxDiffTokens, isExcluded },
+			generationOptions,
+		);
+		printDiffReport(preparedDiff);
+		const { title, body } = await generateCommitMessageContent(
+			preparedDiff,
+			generationOptions,
+			convention,
+		);
+		entries.push({ commit, title, body, reword: true });
+	}
+
+	if (!options.yes) {
+		entries = await reviewRewordPlan(entries, (title) =>
+			validateCommitTitle(title, convention),
+		);
+		if (!entries) {
+			throw new UserCancelledError("Reword cancelled.");
+		}
+	} else {
+		skipped.push("review");
+	}
+
+	const approved = entries.filter((entry) => entry.reword);
+	if (approved.length === 0) {
+		throw new CommandError(
+			"All current messages were kept. Nothing to reword.",
+			ExitCode.NothingToDo,
+		);
+	}
+	const newHashes = await rewordCommits(
+		rewordRange,
+		new Map(
+			approved.map((entry) => [entry.commit.hash, formatCommitMessage(entry)]),
+		),
+	);
+
+	console.log(theme.success(`\n✨ Reworded ${approved.length} commit(s)!`));
+	return {
+		status: "reworded",
+		commits: approved.map((entry) => ({
+			previous: entry.commit.hash,
+			commit: newHashes.get(entry.commit.hash) ?? entry.commit.hash,
+			previousTitle: entry.commit.title,
+			title: entry.title,
+			body: entry.body,
+		})),
+		convention: convention.name,
+		provider: aiSettings.provider,
+		model: getAnsweringModel(usage, aiSettings.modelName),
+		usage,
+		skipped,
+	};
+}
+
+export function registerRewordCommand(
+	program: Command,
+	config: Required<AppConfig>,
+) {
+	program
+		.command("reword <range>")
+		.description(
+			"Rewrite poorly worded commit messages in a range of unpushed commits with AI.",
+		)
+		.option(
+			"--all",
+			"Reword every commit in the range, not just the poorly worded ones",
+			false,
+		)
+		.option(
+			"-f, --force",
+			"Allow rewording commits that are already on a remote branch",
+			false,
+		)
+		.option(
+			"-m, --model <model-name>",
+			`Specify the AI model to use (default: "${config.model}")`,
+		)
+		.addOption(
+			new Option(
+				"--provider <provider>",
+				"Specify the AI provider to use (overrides config)",
+			).choices(PROVIDER_NAMES),
+		)
+		.option(
+			"-l, --language <language>",
+			"Specify the language for the commit messages",
+			config.language,
+		)
+		.option(
+			"-y, --yes",
+			"Skip the review and reword right away",
+			config.skipConfirmations,
+		)
+		.option(
+			"--json",
+			"Print the result as JSON on stdout and progress on stderr (implies --yes)",
+			false,
+		)
+		.option("-o, --output <file>", "Also write the JSON result to a file")
+		.action(async (range: string, cmdOptions: RewordOptions) => {
+			// JSON output is meant for scripts, so it never prompts
+			const options = {
+				...cmdOptions,
+				yes: cmdOptions.yes || cmdOptions.json,
+			};
+			await runCommand("Reword", options, () =>
+				handleReword(range, options, config),
+			);
+		});
+}
@@ -0,0 +1,81 @@
+import { type Command, Option } from "commander";
+import {
+	USAGE_GROUPS,
+	type UsageGroup,
+	type UsageSummary,
+	getUsageLogPath,
+	readUsageRecords,
+	summarizeUsage,
+} from "../core/usage";
+import { theme } from "../ui/theme";
+import { printUsageReport } from "../ui/usage-ui";
+import { parseSince } from "../utils/args";
+import { type OutputOptions, runCommand } from "../utils/output";
+
+interface UsageOptions extends OutputOptions {
+	since?: Date;
+	by: UsageGroup;
+}
+
+/**
+ * Structured result of `usage`, printed with `--json`.
+ */
+interface UsageResult {
+	status: "generated";
+	by: UsageGroup;
+	since: string | null;
+	groups: UsageSummary[];
+}
+
+async function handleUsage(options: UsageOptions): Promise<UsageResult> {
+	const records = await readUsageRecords(options.since ?? null);
+	const groups = summarizeUsage(records, options.by);
+	const period = options.since
+		? `since ${options.since.toLocaleString()}`
+		: "all time";
+
+	if (!options.json) {
+		if (records.length === 0) {
+			console.log(
+				theme.warning(
+					`No AI usage recorded (${period}) in ${getUsageLogPath()}.`,
+				),
+			);
+		} else {
+			console.log(theme.primary(`📊 AI usage by ${options.by} (${period})\n`));
+			printUsageReport(groups, options.by);
+		}
+	}
+	return {
+		status: "generated",
+		by: options.by,
+		since: options.since?.toISOString() ?? null,
+		groups,
+	};
+}
+
+export function registerUsageCommand(program: Command) {
+	program
+		.command("usage")
+		.description(
+			"Summarize the tokens and estimated cost of past AI calls from the local usage log.",
+		)
+		.option(
+			"--since <date|duration>",
+			'Only include calls since a date ("2025-06-01") or duration ("7d", "12h", "2w")',
+			parseSince,
+		)
+		.addOption(
+			new Option(
+				"--by <group>",
+				"Group the calls by model, repository or command",
+			)
+				.choices(USAGE_GROUPS)
+				.default("model"),
+		)
+		.option("--json", "Print the summary as JSON on stdout", false)
+		.option("-o, --output <file>", "Also write the JSON summary to a file")
+		.action(async (options: UsageOptions) => {
+			await runCommand("Usage", options, () => handleUsage(options));
+		});
+}
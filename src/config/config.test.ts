@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigError } from "../utils/errors";
+import {
+	type ConfigLayer,
+	defaultConfig,
+	mergeConfigLayers,
+	parseConfigValue,
+} from "./config";
+
+const layer = (
+	name: ConfigLayer["name"],
+	config: ConfigLayer["config"],
+): ConfigLayer => ({ name, source: name, config });
+
+describe("parseConfigValue", () => {
+	test("converts text to the type the key expects", () => {
+		expect(parseConfigValue("baseBranch", "develop")).toBe("develop");
+		expect(parseConfigValue("maxDiffTokens", "8000")).toBe(8000);
+		expect(parseConfigValue("draft", "true")).toBe(true);
+		expect(parseConfigValue("issues.fetch", "false")).toBe(false);
+	});
+
+	test("accepts JSON arrays and comma-separated lists", () => {
+		expect(parseConfigValue("labels", '["bug","ui"]')).toEqual(["bug", "ui"]);
+		expect(parseConfigValue("exclude", "docs/**, *.snap")).toEqual([
+			"docs/**",
+			"*.snap",
+		]);
+	});
+
+	test("rejects unknown keys and values that do not fit", () => {
+		expect(() => parseConfigValue("colour", "red")).toThrow(ConfigError);
+		expect(() => parseConfigValue("issues.unknown", "x")).toThrow(ConfigError);
+		expect(() => parseConfigValue("maxDiffTokens", "-5")).toThrow(
+			"Invalid value for 'maxDiffTokens'",
+		);
+	});
+});
+
+describe("mergeConfigLayers", () => {
+	test("lets later layers win and records where each key came from", () => {
+		const defaults = layer("default", defaultConfig);
+		const repo = layer("repo", { baseBranch: "develop", draft: true });
+		const env = layer("env", { draft: false });
+		const { config, origins } = mergeConfigLayers([defaults, repo, env]);
+		expect(config.baseBranch).toBe("develop");
+		expect(config.draft).toBe(false);
+		expect(config.maxDiffTokens).toBe(defaultConfig.maxDiffTokens ?? 0);
+		expect(origins.get("baseBranch")).toBe(repo);
+		expect(origins.get("draft")).toBe(env);
+		expect(origins.get("language")).toBe(defaults);
+	});
+
+	test("merges sections key by key", () => {
+		const global = layer("global", {
+			issues: { jiraUrl: "https://acme.atlassian.net", fetch: true },
+		});
+		const repo = layer("repo", { issues: { fetch: false } });
+		const { config, origins } = mergeConfigLayers([global, repo]);
+		expect(config.issues).toEqual({
+			jiraUrl: "https://acme.atlassian.net",
+			fetch: false,
+		});
+		expect(origins.get("issues.jiraUrl")).toBe(global);
+		expect(origins.get("issues.fetch")).toBe(repo);
+	});
+
+	test("drops a model set below a later provider switch", () => {
+		const global = layer("global", { model: "gpt-4.1" });
+		const repo = layer("repo", { provider: "anthropic" });
+		const { config } = mergeConfigLayers([
+			layer("default", defaultConfig),
+			global,
+			repo,
+		]);
+		expect(config.model).toBe("claude-3-5-haiku-latest");
+
+		const both = layer("repo", { provider: "anthropic", model: "claude-x" });
+		expect(mergeConfigLayers([global, both]).config.model).toBe("claude-x");
+	});
+});
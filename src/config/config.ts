@@ -1,6 +1,31 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
 import { cosmiconfig } from "cosmiconfig";
 import { z } from "zod";
+import { CONVENTION_NAMES } from "../core/commit-convention";
+import { FORGE_NAMES } from "../core/forge";
+import { getRepoRoot } from "../core/git";
+import {
+	PROVIDER_NAMES,
+	type ProviderName,
+	getDefaultModel,
+} from "../core/provider";
+import { type RetrySettings, resolveRetrySettings } from "../core/retry";
 import { theme } from "../ui/theme";
+import { ConfigError } from "../utils/errors";
+
+// A string is shorthand for { instructions }; templates may use {{placeholders}}
+const PromptTemplateSchema = z.union([
+	z.string(),
+	z
+		.object({
+			instructions: z.string().optional(),
+			system: z.string().optional(),
+			user: z.string().optional(),
+		})
+		.strict(),
+]);
 
 // Define the schema for the configuration file
 // Optional fields allow users to only specify what they want to override
@@ -10,56 +35,546 @@ const ConfigFileSchema = z
 		model: z.string().optional(),
 		skipConfirmations: z.boolean().optional(), // Map to --yes flag
 		language: z.string().optional(), // Add language option
+		provider: z.enum(PROVIDER_NAMES).optional(), // AI provider to call
+		baseURL: z.string().url().optional(), // Custom endpoint (Ollama, proxies, OpenAI-compatible servers)
+		fallbackModels: z.array(z.string()).optional(), // Tried in order when the model is rate limited or not found
+		retry: z
+			.object({
+				maxRetries: z.number().int().nonnegative().optional(), // Retries per model on rate limits, server errors and timeouts
+				initialDelayMs: z.number().int().nonnegative().optional(), // First backoff, doubled per retry
+				maxDelayMs: z.number().int().nonnegative().optional(), // Longest backoff; a longer Retry-After is not waited for
+				timeoutSeconds: z.number().positive().optional(), // Limit for a single request
+			})
+			.strict()
+			.optional(),
+		maxDiffTokens: z.number().int().positive().optional(), // Diff budget before summarizing
+		exclude: z.array(z.string()).optional(), // Gitignore-style paths hidden from the AI
+		forge: z.enum(["auto", ...FORGE_NAMES]).optional(), // Where PRs/MRs are opened
+		forgeApiUrl: z.string().url().optional(), // REST API base for self-hosted GitLab/Bitbucket
+		draft: z.boolean().optional(), // Open PRs as drafts
+		reviewers: z.array(z.string()).optional(), // Requested PR reviewers (users or org/team)
+		assignees: z.array(z.string()).optional(), // PR assignees (@me allowed)
+		labels: z.array(z.string()).optional(), // Labels added to every PR
+		milestone: z.string().optional(), // Milestone name for PRs
+		suggestLabels: z.boolean().optional(), // Let the AI pick labels from `gh label list`
+		issues: z
+			.object({
+				pattern: z.string().optional(), // Regex for issue references; group 1 is the ID
+				jiraUrl: z.string().url().optional(), // Jira-style tracker for ticket keys
+				fetch: z.boolean().optional(), // Add issue titles/bodies to the prompt
+				link: z.boolean().optional(), // Append "Closes #123" / ticket links
+				closeKeyword: z.string().optional(), // e.g., "Fixes" instead of "Closes"
+			})
+			.strict()
+			.optional(),
+		prompt: z
+			.object({
+				pr: PromptTemplateSchema.optional(), // Guidelines or template overrides for PRs
+				commit: PromptTemplateSchema.optional(), // Guidelines or template overrides for commits
+			})
+			.strict()
+			.optional(),
+		secrets: z
+			.object({
+				mode: z.enum(["redact", "block", "off"]).optional(), // What to do when the diff contains secrets
+				patterns: z.array(z.string()).optional(), // Extra regexes; group 1 (or the match) is redacted
+				files: z.array(z.string()).optional(), // Gitignore-style globs whose diff is withheld
+				entropy: z.boolean().optional(), // Redact random-looking strings
+			})
+			.strict()
+			.optional(),
+		cache: z
+			.object({
+				enabled: z.boolean().optional(), // Reuse AI responses for identical requests
+				ttlHours: z.number().positive().optional(), // How long responses are reused
+				maxSizeMb: z.number().positive().optional(), // Oldest responses are removed beyond this
+			})
+			.strict()
+			.optional(),
+		prices: z
+			.record(
+				z
+					.object({
+						input: z.number().nonnegative(), // USD per million prompt tokens
+						output: z.number().nonnegative(), // USD per million completion tokens
+					})
+					.strict(),
+			)
+			.optional(), // Model prices for cost estimates, added to the built-in table
+		commitConvention: z
+			.union([
+				z.enum(CONVENTION_NAMES),
+				z
+					.object({
+						pattern: z.string(), // Custom regex the commit title must match
+						description: z.string().optional(),
+					})
+					.strict(),
+			])
+			.optional(),
 	})
 	.strict(); // Use strict to prevent unknown properties
 
 export type AppConfig = z.infer<typeof ConfigFileSchema>;
 
 // Define default configuration values (make this partial, required applied later)
-export const defaultConfig: Partial<AppConfig> = {
+export const defaultConfig: AppConfig = {
 	baseBranch: "main",
 	model: "gpt-4.1-mini",
 	skipConfirmations: false,
 	language: "english", // Default language is English
+	provider: "openai",
+	fallbackModels: [],
+	retry: {}, // Defaults are applied by resolveRetrySettings
+	maxDiffTokens: 16000,
+	exclude: [],
+	commitConvention: "auto", // commitlint config if present, else Conventional Commits
+	forge: "auto", // Detected from the origin remote
+	draft: false,
+	reviewers: [],
+	assignees: [],
+	labels: [],
+	milestone: "",
+	suggestLabels: false,
+	issues: {}, // Defaults are applied by resolveIssueSettings
+	prompt: {}, // Built-in prompts unless .gitlift/ or the config customizes them
+	secrets: {}, // Defaults are applied by resolveSecretsSettings
+	cache: {}, // Defaults are applied by resolveCacheSettings
+	prices: {}, // Added to the built-in price table by resolvePrices
 };
 
 /**
- * Loads configuration from a configuration file using cosmiconfig.
- * Searches for files like .prairc, .prairc.json, etc.
- * Merges found config with defaults.
- * @returns {Promise<Required<AppConfig>>} The loaded and merged configuration (ensuring all fields are present).
+ * Where a configuration value can come from, lowest precedence first. Command-line flags
+ * override all of them.
  */
-export async function loadConfig(): Promise<Required<AppConfig>> {
-	const explorer = cosmiconfig("gitlift"); // Module name for searching
-	let loadedConfig: AppConfig = {};
+export const CONFIG_LAYER_NAMES = ["default", "global", "repo", "env"] as const;
+
+export type ConfigLayerName = (typeof CONFIG_LAYER_NAMES)[number];
+
+/**
+ * The values one configuration source provides.
+ */
+export interface ConfigLayer {
+	name: ConfigLayerName;
+	/** The file path, or a description for the built-in defaults and environment variables. */
+	source: string;
+	config: AppConfig;
+}
+
+// Sections whose keys are merged across layers instead of replaced as a whole
+const MERGED_SECTIONS = new Set([
+	"retry",
+	"issues",
+	"prompt",
+	"secrets",
+	"cache",
+	"prices",
+]);
+
+const ENV_PREFIX = "GITLIFT_";
+
+/**
+ * Path of the global configuration file written by `init --global`.
+ * @returns {string} - `~/.gitliftrc.json`.
+ */
+export function getGlobalConfigPath(): string {
+	return join(homedir(), ".gitliftrc.json");
+}
+
+/**
+ * Lists the configuration keys, including section keys (e.g., "issues.jiraUrl").
+ * @returns {string[]} - Every settable key.
+ */
+export function getConfigKeys(): string[] {
+	const keys: string[] = [];
+	for (const [key, schema] of Object.entries(ConfigFileSchema.shape)) {
+		keys.push(key);
+		const inner = schema.unwrap();
+		if (MERGED_SECTIONS.has(key) && inner instanceof z.ZodObject) {
+			for (const sub of Object.keys(inner.shape)) keys.push(`${key}.${sub}`);
+		}
+	}
+	return keys;
+}
+
+function getKeySchema(key: string): z.ZodTypeAny | undefined {
+	const [top = "", sub] = key.split(".");
+	const schema = (ConfigFileSchema.shape as Record<string, z.ZodTypeAny>)[top];
+	if (!schema || sub === undefined) return schema;
+	const inner = (schema as z.ZodOptional<z.ZodTypeAny>).unwrap();
+	if (!MERGED_SECTIONS.has(top) || !(inner instanceof z.ZodObject)) {
+		return undefined;
+	}
+	return (inner.shape as Record<string, z.ZodTypeAny>)[sub];
+}
 
+/**
+ * Converts a value given as text (on the command line or in an environment variable) to the
+ * type the key expects. Text is tried as a string, then as JSON, then as a comma-separated list.
+ * @param {string} key - The configuration key (e.g., "maxDiffTokens", "issues.fetch").
+ * @param {string} raw - The text value.
+ * @returns {unknown} - The parsed value.
+ * @throws {ConfigError} If the key is unknown or the value does not fit it.
+ */
+export function parseConfigValue(key: string, raw: string): unknown {
+	const schema = getKeySchema(key);
+	if (!schema) {
+		throw new ConfigError(
+			`Unknown configuration key '${key}'. Known keys: ${getConfigKeys().join(", ")}.`,
+		);
+	}
+	const candidates: unknown[] = [raw];
 	try {
-		const result = await explorer.search(); // Search starting from cwd
-
-		if (result && !result.isEmpty) {
-			console.log(theme.dim(`Loaded configuration from: ${result.filepath}`));
-			// Validate the loaded config against the schema
-			loadedConfig = ConfigFileSchema.parse(result.config);
-		} else {
-			// No config file found or it's empty
-			console.log(theme.dim("No configuration file found, using defaults."));
+		candidates.push(JSON.parse(raw));
+	} catch {
+		// Not JSON; the string and list forms are still tried
+	}
+	candidates.push(
+		raw
+			.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean),
+	);
+	let firstError: z.ZodError | undefined;
+	for (const candidate of candidates) {
+		const result = schema.safeParse(candidate);
+		if (result.success) return result.data;
+		firstError ??= result.error;
+	}
+	throw new ConfigError(
+		`Invalid value for '${key}': ${firstError?.issues[0]?.message ?? raw}`,
+	);
+}
+
+/**
+ * Reads a value from a config object by key (e.g., "issues.jiraUrl").
+ * @param {AppConfig} config - The configuration.
+ * @param {string} key - The key.
+ * @returns {unknown} - The value, or undefined if unset.
+ */
+export function getConfigValue(config: AppConfig, key: string): unknown {
+	const [top = "", sub] = key.split(".");
+	const value = (config as Record<string, unknown>)[top];
+	if (sub === undefined) return value;
+	return (value as Record<string, unknown> | undefined)?.[sub];
+}
+
+/**
+ * Converts a configuration key to its environment variable (`baseBranch` → `GITLIFT_BASE_BRANCH`,
+ * `issues.jiraUrl` → `GITLIFT_ISSUES__JIRA_URL`).
+ * @param {string} key - The configuration key.
+ * @returns {string} - The environment variable name.
+ */
+export function configKeyToEnvName(key: string): string {
+	return `${ENV_PREFIX}${key
+		.split(".")
+		.map((part) => part.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase())
+		.join("__")}`;
+}
+
+function loadEnvLayer(env: NodeJS.ProcessEnv): ConfigLayer {
+	let config: AppConfig = {};
+	for (const key of getConfigKeys()) {
+		const name = configKeyToEnvName(key);
+		const raw = env[name];
+		if (raw === undefined) continue;
+		try {
+			config = updateConfigValue(config, key, parseConfigValue(key, raw));
+		} catch (error: unknown) {
+			console.warn(
+				theme.warning(
+					`Ignoring ${name}: ${error instanceof Error ? error.message : error}`,
+				),
+			);
 		}
+	}
+	return {
+		name: "env",
+		source: `${ENV_PREFIX}* environment variables`,
+		config,
+	};
+}
+
+function parseConfigFile(contents: unknown, filepath: string): AppConfig {
+	try {
+		return ConfigFileSchema.parse(contents);
 	} catch (error: unknown) {
-		console.error(theme.error("Error loading or parsing configuration file."));
+		console.error(
+			theme.error(`Error loading or parsing configuration file ${filepath}.`),
+		);
 		if (error instanceof z.ZodError) {
 			console.error(theme.error("Invalid configuration format:"), error.errors);
-		} else if (error instanceof Error) {
-			console.error(theme.error(error.message));
 		}
 		console.warn(
 			theme.warning(
-				"Falling back to default configuration values for potentially invalid fields.",
+				"Ignoring this file; the other configuration layers still apply.",
 			),
 		);
-		// Keep whatever partial config was loaded, defaults will fill the rest
+		return {};
+	}
+}
+
+/**
+ * Finds the repository's configuration file, searching from the working directory up to the
+ * repository root (or just the working directory outside a repository).
+ * @returns {Promise<string | null>} - The path of the file, or null if there is none.
+ */
+export async function findRepoConfigFile(): Promise<string | null> {
+	const explorer = cosmiconfig("gitlift", { searchStrategy: "none" });
+	const repoRoot = await getRepoRoot();
+	let dir = process.cwd();
+	while (true) {
+		const result = await explorer.search(dir).catch(() => null);
+		// The global file is its own layer, even when the search reaches the home directory
+		if (result && result.filepath !== getGlobalConfigPath()) {
+			return result.filepath;
+		}
+		const parent = dirname(dir);
+		if (!repoRoot || dir === repoRoot || parent === dir) return null;
+		dir = parent;
+	}
+}
+
+/**
+ * Reads every configuration layer: built-in defaults, the global file (`~/.gitliftrc.json`),
+ * the repository's config file and `GITLIFT_*` environment variables. Invalid files are
+ * reported and skipped.
+ * @param {NodeJS.ProcessEnv} [env=process.env] - The environment to read overrides from.
+ * @returns {Promise<ConfigLayer[]>} - The layers, lowest precedence first (missing files are left out).
+ */
+export async function loadConfigLayers(
+	env: NodeJS.ProcessEnv = process.env,
+): Promise<ConfigLayer[]> {
+	const explorer = cosmiconfig("gitlift");
+	const layers: ConfigLayer[] = [
+		{ name: "default", source: "built-in defaults", config: defaultConfig },
+	];
+
+	const globalPath = getGlobalConfigPath();
+	const globalResult = await explorer.load(globalPath).catch(() => null);
+	if (globalResult && !globalResult.isEmpty) {
+		layers.push({
+			name: "global",
+			source: globalPath,
+			config: parseConfigFile(globalResult.config, globalPath),
+		});
 	}
 
-	// Merge defaults with loaded config (loaded values override defaults)
-	// Ensure all required fields are present after merge
-	return { ...defaultConfig, ...loadedConfig } as Required<AppConfig>;
+	const repoPath = await findRepoConfigFile();
+	const repoResult = repoPath
+		? await explorer.load(repoPath).catch((error: unknown) => {
+				console.error(
+					theme.error(
+						`Error loading configuration file ${repoPath}: ${error instanceof Error ? error.message : error}`,
+					),
+				);
+				return null;
+			})
+		: null;
+	if (repoPath && repoResult && !repoResult.isEmpty) {
+		layers.push({
+			name: "repo",
+			source: repoPath,
+			config: parseConfigFile(repoResult.config, repoPath),
+		});
+	}
+
+	const envLayer = loadEnvLayer(env);
+	if (Object.keys(envLayer.config).length > 0) layers.push(envLayer);
+	return layers;
+}
+
+/**
+ * Merges configuration layers. Later layers override earlier ones key by key; the `issues`,
+ * `prompt`, `secrets`, `cache` and `prices` sections are merged key by key as well.
+ * @param {ConfigLayer[]} layers - The layers, lowest precedence first.
+ * @returns {{ config: Required<AppConfig>; origins: Map<string, ConfigLayer> }} - The effective configuration, and the layer each key (and section key) came from.
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): {
+	config: Required<AppConfig>;
+	origins: Map<string, ConfigLayer>;
+} {
+	const merged: Record<string, unknown> = {};
+	const origins = new Map<string, ConfigLayer>();
+	for (const layer of layers) {
+		for (const [key, value] of Object.entries(layer.config)) {
+			if (value === undefined) continue;
+			if (MERGED_SECTIONS.has(key) && typeof value === "object") {
+				merged[key] = {
+					...(merged[key] as Record<string, unknown> | undefined),
+					...value,
+				};
+				for (const sub of Object.keys(value)) {
+					origins.set(`${key}.${sub}`, layer);
+				}
+			} else {
+				merged[key] = value;
+			}
+			origins.set(key, layer);
+		}
+	}
+
+	const config = merged as Required<AppConfig>;
+	// A provider switch without a model in the same (or a later) layer should not keep another provider's model
+	const providerLayer = origins.get("provider");
+	const modelLayer = origins.get("model");
+	if (
+		providerLayer &&
+		modelLayer &&
+		layers.indexOf(modelLayer) < layers.indexOf(providerLayer)
+	) {
+		config.model = getDefaultModel(config.provider);
+		origins.set("model", providerLayer);
+	}
+	return { config, origins };
+}
+
+/**
+ * Loads the effective configuration: defaults < global file < repository file < `GITLIFT_*`
+ * environment variables. Command-line flags are applied on top by each command.
+ * @returns {Promise<Required<AppConfig>>} The merged configuration (ensuring all fields are present).
+ */
+export async function loadConfig(): Promise<Required<AppConfig>> {
+	const layers = await loadConfigLayers();
+	const files = layers.filter(
+		(layer) => layer.name === "global" || layer.name === "repo",
+	);
+	if (files.length > 0) {
+		for (const layer of files) {
+			console.log(theme.dim(`Loaded configuration from: ${layer.source}`));
+		}
+	} else {
+		console.log(theme.dim("No configuration file found, using defaults."));
+	}
+	return mergeConfigLayers(layers).config;
+}
+
+/**
+ * The provider, endpoint, models and request policy a command generates with.
+ */
+export interface AiSettings {
+	provider: ProviderName;
+	baseURL?: string;
+	modelName: string;
+	fallbackModels: string[];
+	retry: RetrySettings;
+}
+
+/**
+ * Resolves the provider, endpoint and model for a command, letting CLI flags override the config.
+ * When `--provider` switches away from the configured provider, the configured model, fallback models
+ * and base URL are dropped in favour of that provider's defaults since they most likely belong to the other one.
+ * @param {Required<AppConfig>} config - The loaded configuration.
+ * @param {{ provider?: ProviderName; model?: string }} overrides - Values passed on the command line.
+ * @returns {AiSettings} - The effective AI settings.
+ */
+export function resolveAiSettings(
+	config: Required<AppConfig>,
+	overrides: { provider?: ProviderName; model?: string },
+): AiSettings {
+	const provider = overrides.provider ?? config.provider;
+	const sameProvider = provider === config.provider;
+	const modelName =
+		overrides.model ??
+		(sameProvider ? config.model : getDefaultModel(provider));
+	return {
+		provider,
+		baseURL: sameProvider ? config.baseURL : undefined,
+		modelName,
+		fallbackModels: sameProvider
+			? config.fallbackModels.filter((model) => model !== modelName)
+			: [],
+		retry: resolveRetrySettings(config.retry),
+	};
+}
+
+/**
+ * Picks the file `gitlift config set/unset` edits: the global file, or the repository's config
+ * file (a new `.gitliftrc.json` at the repository root if there is none).
+ * @param {boolean} global - Edit the global file instead of the repository's.
+ * @returns {Promise<string>} - The path of the file to edit.
+ * @throws {ConfigError} If the repository's config file is not JSON (e.g., YAML or JavaScript).
+ */
+export async function resolveEditableConfigFile(
+	global: boolean,
+): Promise<string> {
+	if (global) return getGlobalConfigPath();
+	const existing = await findRepoConfigFile();
+	if (!existing) {
+		return join((await getRepoRoot()) ?? process.cwd(), ".gitliftrc.json");
+	}
+	if (!/(\.json|\.gitliftrc)$/.test(existing)) {
+		throw new ConfigError(
+			`Only JSON configuration files can be edited; update ${existing} by hand.`,
+		);
+	}
+	return existing;
+}
+
+/**
+ * Reads a JSON configuration file for editing.
+ * @param {string} path - The file path.
+ * @returns {Promise<AppConfig>} - The values set in the file (empty if it does not exist).
+ * @throws {ConfigError} If the file is not valid JSON or fails validation.
+ */
+export async function readConfigFile(path: string): Promise<AppConfig> {
+	let contents: string;
+	try {
+		contents = await readFile(path, "utf8");
+	} catch {
+		return {};
+	}
+	try {
+		return contents.trim() ? ConfigFileSchema.parse(JSON.parse(contents)) : {};
+	} catch (error: unknown) {
+		throw new ConfigError(
+			`Could not read ${path}: ${error instanceof z.ZodError ? error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") : error instanceof Error ? error.message : error}`,
+			{ cause: error },
+		);
+	}
+}
+
+/**
+ * Sets or removes a key in a configuration object and validates the result.
+ * @param {AppConfig} config - The values of one configuration file.
+ * @param {string} key - The key (e.g., "model", "issues.jiraUrl").
+ * @param {unknown} value - The new value, or undefined to remove the key.
+ * @returns {AppConfig} - The updated configuration.
+ * @throws {ConfigError} If the result is not a valid configuration.
+ */
+export function updateConfigValue(
+	config: AppConfig,
+	key: string,
+	value: unknown,
+): AppConfig {
+	const updated = structuredClone(config) as Record<string, unknown>;
+	const [top = "", sub] = key.split(".");
+	if (sub === undefined) {
+		updated[top] = value;
+	} else {
+		const section = {
+			...(updated[top] as Record<string, unknown> | undefined),
+			[sub]: value,
+		};
+		if (value === undefined) delete section[sub];
+		updated[top] = Object.keys(section).length > 0 ? section : undefined;
+	}
+	if (updated[top] === undefined) delete updated[top];
+
+	const result = ConfigFileSchema.safeParse(updated);
+	if (!result.success) {
+		throw new ConfigError(
+			`Invalid value for '${key}': ${result.error.issues[0]?.message}`,
+		);
+	}
+	return result.data;
+}
+
+/**
+ * Writes a configuration file as formatted JSON.
+ * @param {string} path - The file path.
+ * @param {AppConfig} config - The values to write.
+ */
+export async function writeConfigFile(path: string, config: AppConfig) {
+	await writeFile(path, `${JSON.stringify(config, null, 2)}\n`);
 }
@@ -1,9 +1,62 @@
-import { openai } from "@ai-sdk/openai";
-import { generateObject } from "ai";
-import ora from "ora";
+import {
+	type CoreMessage,
+	type LanguageModel,
+	type LanguageModelUsage,
+	generateObject,
+	streamObject,
+} from "ai";
+import ora, { type Ora } from "ora";
 import { z } from "zod";
+import { createDraftPreview } from "../ui/stream-ui";
 import { theme } from "../ui/theme";
-import { parseAiApiError } from "../utils/errors";
+import { UserCancelledError, parseAiApiError } from "../utils/errors";
+import {
+	type CacheSettings,
+	getCacheKey,
+	readCachedResponse,
+	writeCachedResponse,
+} from "./cache";
+import { CHANGELOG_CATEGORIES, type ReleaseNotes } from "./changelog";
+import {
+	type CommitConvention,
+	validateCommitTitle,
+} from "./commit-convention";
+import {
+	type DiffBudgetOptions,
+	type PreparedDiff,
+	budgetDiff,
+	estimateTokens,
+	formatOmittedFiles,
+} from "./diff";
+import { getRepoRoot } from "./git";
+import {
+	type PromptTemplates,
+	applyPromptTemplates,
+	withInstructions,
+} from "./prompt";
+import {
+	type ProviderOptions,
+	assertProviderCredentials,
+	getLanguageModel,
+} from "./provider";
+import {
+	type RetrySettings,
+	classifyAiError,
+	resolveRetrySettings,
+	withRetries,
+} from "./retry";
+import {
+	type CodeReview,
+	REVIEW_CATEGORIES,
+	REVIEW_SEVERITIES,
+} from "./review";
+import type { PlannedCommit } from "./split";
+import {
+	type PriceTable,
+	appendUsageRecord,
+	estimateCost,
+	findModelPrice,
+} from "./usage";
 
 /**
  * Schema for the expected AI response (PR title and body).
@@ -28,7 +81,7 @@ export const CommitMessageSchema = z.object({
 	title: z
 		.string()
 		.describe(
-			"A concise and informative commit title following conventional commit standards (e.g., 'feat: add new feature', 'fix: resolve issue'). Max 72 chars.",
+			"A concise and informative single-line commit title following the commit convention described in the instructions.",
 		),
 	body: z
 		.string()
@@ -38,99 +91,1096 @@ export const CommitMessageSchema = z.object({
 });
 
 /**
- * Generates PR title and body using OpenAI based on git diff and commit summaries.
- * @param {string} diff - The git diff string.
- * @param {string} [commits] - The commit summaries string.
- * @param {string} [modelName='gpt-4.1-mini'] - The OpenAI model name to use.
- * @param {string} [language='english'] - The language to generate the PR content in.
- * @returns {Promise<z.infer<typeof PrContentSchema>>} - The generated title and body.
- * @throws {Error} If API key is missing or AI generation fails.
+ * Schema for several alternative PR titles and bodies generated in one call (`--candidates`).
  */
-export async function generatePrContent(
+export const PrContentCandidatesSchema = z.object({
+	candidates: z
+		.array(PrContentSchema)
+		.describe(
+			"Distinct alternatives, each with a different emphasis, structure or wording.",
+		),
+});
+
+/**
+ * Schema for several alternative commit messages generated in one call (`--candidates`).
+ */
+export const CommitMessageCandidatesSchema = z.object({
+	candidates: z
+		.array(CommitMessageSchema)
+		.describe(
+			"Distinct alternatives, each with a different emphasis or wording.",
+		),
+});
+
+/**
+ * Schema for a plan splitting staged changes into several commits.
+ */
+export const CommitPlanSchema = z.object({
+	commits: z
+		.array(
+			z.object({
+				title: CommitMessageSchema.shape.title,
+				body: CommitMessageSchema.shape.body,
+				hunks: z
+					.array(z.string())
+					.describe(
+						"IDs of the hunks (e.g., 'h1') that belong to this commit, copied exactly from the hunk list.",
+					),
+			}),
+		)
+		.describe(
+			"The commits in the order they should be made. Every hunk belongs to exactly one commit.",
+		),
+});
+
+/**
+ * Schema for the expected AI response of a code review.
+ */
+export const CodeReviewSchema = z.object({
+	summary: z
+		.string()
+		.describe(
+			"Two or three sentences on the overall quality and risk of the changes.",
+		),
+	findings: z
+		.array(
+			z.object({
+				file: z.string().describe("The path of the file, as in the diff."),
+				startLine: z
+					.number()
+					.int()
+					.describe("First affected line, numbered as in the new file."),
+				endLine: z
+					.number()
+					.int()
+					.describe("Last affected line (same as startLine for one line)."),
+				severity: z
+					.enum(REVIEW_SEVERITIES)
+					.describe(
+						"critical: will break or is exploitable; major: likely bug or serious problem; minor: worth fixing; info: optional improvement.",
+					),
+				category: z.enum(REVIEW_CATEGORIES),
+				title: z.string().describe("A one-line description of the issue."),
+				explanation: z
+					.string()
+					.describe("Why this is a problem, referring to the code."),
+				suggestion: z
+					.string()
+					.describe("A concrete fix, with a short code snippet if helpful."),
+			}),
+		)
+		.describe("Issues in the changed code. Empty if there are none."),
+});
+
+/**
+ * Schema for labels suggested for a pull request.
+ */
+export const PrLabelsSchema = z.object({
+	labels: z
+		.array(z.string())
+		.describe(
+			"Names of the repository labels that apply to the pull request, copied exactly from the provided list. Empty if none apply.",
+		),
+});
+
+/**
+ * Schema for release notes written from a range of commits.
+ */
+export const ReleaseNotesSchema = z.object({
+	summary: z
+		.string()
+		.describe(
+			"One or two sentences highlighting the most important changes of the release for its users.",
+		),
+	sections: z
+		.array(
+			z.object({
+				category: z
+					.enum(CHANGELOG_CATEGORIES)
+					.describe("The Keep a Changelog category."),
+				entries: z
+					.array(z.string())
+					.describe(
+						"Human-readable changelog entries, one per notable change, without a leading '- '. Reference pull requests (e.g., '#42') when the commits mention them.",
+					),
+			}),
+		)
+		.describe("Only the categories that have entries."),
+});
+
+// How many times the model is asked to fix a title that breaks the commit convention
+const MAX_CONVENTION_RETRIES = 1;
+
+// Part of every cache key; bump when the response schemas or the way prompts are used change,
+// so responses cached by an older version are not reused
+const PROMPT_VERSION = 1;
+
+/**
+ * Schema for the per-file summaries produced when a diff is too large for a single prompt.
+ */
+export const DiffSummarySchema = z.object({
+	files: z
+		.array(
+			z.object({
+				path: z.string().describe("The path of the changed file."),
+				summary: z
+					.string()
+					.describe(
+						"One to three sentences describing what changed in this file and why it matters.",
+					),
+			}),
+		)
+		.describe("One entry per file present in the diff."),
+});
+
+/**
+ * Token counts reported by the provider, summed over every AI call of a command.
+ */
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	/** Estimated cost in USD, or null if a model's price is unknown or usage is not tracked. */
+	cost: number | null;
+	/** The models that answered, in order of first use; includes any fallback model that was used. */
+	models: string[];
+}
+
+/**
+ * Where a command's AI calls are logged and how they are priced.
+ */
+export interface UsageTracking {
+	/** The command name recorded in the usage log (e.g., "generate pr"). */
+	command: string;
+	/** The effective price table (see `resolvePrices`). */
+	prices: PriceTable;
+}
+
+/**
+ * Options shared by all AI generation functions.
+ */
+export interface GenerationOptions extends ProviderOptions {
+	/** The model name understood by the selected provider. */
+	modelName: string;
+	/** Models of the same provider tried in order when `modelName` is rate limited or not found. */
+	fallbackModels?: string[];
+	/** Retry and timeout policy for each request (see `resolveRetrySettings`). */
+	retry?: RetrySettings;
+	/** The language to generate the content in. */
+	language: string;
+	/** When set, the token usage of each AI call is added to it. */
+	usage?: TokenUsage;
+	/** Details of the issues the change refers to (see `formatIssuesForPrompt`). */
+	issueContext?: string;
+	/** The branch the change is on, for `{{branch}}` in custom prompts. */
+	branch?: string;
+	/** Project guidelines and template overrides (see `loadPromptTemplates`). */
+	prompt?: PromptTemplates;
+	/** When set and enabled, responses to identical requests are reused (see `resolveCacheSettings`). */
+	cache?: CacheSettings;
+	/** Render titles and bodies in the terminal as they are generated; only for interactive runs (see `canPreviewStream`). */
+	stream?: boolean;
+}
+
+/**
+ * A previous result the user wants reworked, sent back to the model with their instructions.
+ */
+export interface Revision {
+	previous: { title: string; body: string };
+	/** What to change (e.g., "shorter"); without it the model writes a different version. */
+	feedback?: string;
+}
+
+/**
+ * What `callModel` passes to each AI SDK call.
+ */
+interface ModelCallSettings {
+	model: LanguageModel;
+	abortSignal: AbortSignal;
+	maxRetries: number;
+}
+
+// Kept beside the counters rather than in them, so JSON results only show the numbers
+const usageTracking = new WeakMap<TokenUsage, UsageTracking>();
+// The model that answered the latest call counted in each usage
+const answeringModels = new WeakMap<TokenUsage, string>();
+
+/**
+ * Creates an empty usage counter to pass as `GenerationOptions.usage`.
+ * @param {UsageTracking} [tracking] - When given, each call is priced and appended to the usage log.
+ * @returns {TokenUsage} - Zeroed token counts.
+ */
+export function createTokenUsage(tracking?: UsageTracking): TokenUsage {
+	const usage = {
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+		cost: tracking ? 0 : null,
+		models: [],
+	};
+	if (tracking) usageTracking.set(usage, tracking);
+	return usage;
+}
+
+/**
+ * The model that produced a command's output: the one that answered its latest AI call, which
+ * differs from the configured model when a fallback model was used.
+ * @param {TokenUsage} usage - The command's usage counter.
+ * @param {string} configuredModel - The configured model, for runs answered from the cache.
+ * @returns {string} - The model name.
+ */
+export function getAnsweringModel(
+	usage: TokenUsage,
+	configuredModel: string,
+): string {
+	return answeringModels.get(usage) ?? configuredModel;
+}
+
+async function recordUsage(
+	options: GenerationOptions,
+	usage: LanguageModelUsage,
+	modelName: string,
+) {
+	if (!options.usage) return;
+	if (!options.usage.models.includes(modelName)) {
+		options.usage.models.push(modelName);
+	}
+	answeringModels.set(options.usage, modelName);
+	// Providers that do not report usage (e.g., some OpenAI-compatible servers) yield NaN
+	const promptTokens = usage.promptTokens || 0;
+	const completionTokens = usage.completionTokens || 0;
+	options.usage.promptTokens += promptTokens;
+	options.usage.completionTokens += completionTokens;
+	options.usage.totalTokens += usage.totalTokens || 0;
+
+	const tracking = usageTracking.get(options.usage);
+	if (!tracking) return;
+	const cost = estimateCost(
+		findModelPrice(options.provider, modelName, tracking.prices),
+		promptTokens,
+		completionTokens,
+	);
+	options.usage.cost =
+		cost === null || options.usage.cost === null
+			? null
+			: options.usage.cost + cost;
+	await appendUsageRecord({
+		timestamp: new Date().toISOString(),
+		command: tracking.command,
+		repo: await getRepoRoot(),
+		provider: options.provider,
+		model: modelName,
+		promptTokens,
+		completionTokens,
+		cost,
+	});
+}
+
+/**
+ * Makes one AI call under the retry policy, moving on to the next fallback model when a model is
+ * rate limited (after its retries) or not found. Retries and model switches are shown on the
+ * spinner, and the usage is recorded for the model that answered.
+ * @param {GenerationOptions} options - Model, fallback and retry settings.
+ * @param {Ora} spinner - The spinner of the calling step.
+ * @param {(settings: ModelCallSettings) => Promise<R>} call - Makes the request with the given model and settings.
+ * @returns {Promise<R & { modelName: string }>} - The first successful result and the model that produced it.
+ * @throws {Error} The error of the last model tried.
+ */
+async function callModel<R extends { usage: LanguageModelUsage }>(
+	options: GenerationOptions,
+	spinner: Ora,
+	call: (settings: ModelCallSettings) => Promise<R>,
+): Promise<R & { modelName: string }> {
+	const models = [options.modelName, ...(options.fallbackModels ?? [])];
+	const retry = options.retry ?? resolveRetrySettings();
+	const text = spinner.text;
+	for (let index = 0; ; index++) {
+		const modelName = models[index] ?? options.modelName;
+		const heading = text.replaceAll(
+			theme.info(options.modelName),
+			theme.info(modelName),
+		);
+		if (index > 0) spinner.start(heading);
+		try {
+			const result = await withRetries(
+				(abortSignal) => {
+					spinner.text = heading;
+					return call({
+						model: getLanguageModel(modelName, options),
+						abortSignal,
+						// Retries are handled by withRetries, which honors Retry-After
+						maxRetries: 0,
+					});
+				},
+				retry,
+				({ attempt, delayMs, kind }) => {
+					const reason = kind === "timeout" ? "timed out" : `failed (${kind})`;
+					spinner.start(
+						`⏳ ${modelName} ${reason}, retrying in ${(delayMs / 1000).toFixed(1)}s (retry ${attempt}/${retry.maxRetries})...`,
+					);
+				},
+			);
+			await recordUsage(options, result.usage, modelName);
+			return { ...result, modelName };
+		} catch (error: unknown) {
+			const next = models[index + 1];
+			const kind = classifyAiError(error);
+			if (!next || (kind !== "rate-limit" && kind !== "model-not-found")) {
+				throw error;
+			}
+			spinner.warn(
+				theme.warning(
+					`${modelName} is ${kind === "rate-limit" ? "rate limited" : "not available"}, falling back to ${next}.`,
+				),
+			);
+		}
+	}
+}
+
+/**
+ * Returns the cached response to an identical request, or generates and caches a new one.
+ * The key covers the provider, endpoint, model, prompt version and the full prompts, which
+ * include the diff, commits, language and any prompt customization. Answers from a fallback
+ * model are not cached, since the key names the configured model.
+ */
+async function generateCachedObject<T>(
+	options: GenerationOptions,
+	request: { kind: string; system: string; messages: CoreMessage[] },
+	schema: z.ZodType<T>,
+	generate: () => Promise<{ object: T; modelName: string }>,
+): Promise<{ object: T; cached: boolean }> {
+	const { cache } = options;
+	if (!cache?.enabled)
+		return { object: (await generate()).object, cached: false };
+
+	const key = getCacheKey({
+		version: PROMPT_VERSION,
+		provider: options.provider,
+		baseURL: options.baseURL,
+		model: options.modelName,
+		...request,
+	});
+	const entry = await readCachedResponse(key, cache);
+	const hit = entry ? schema.safeParse(entry.object) : null;
+	if (hit?.success) return { object: hit.data, cached: true };
+
+	const { object, modelName } = await generate();
+	if (modelName === options.modelName) {
+		await writeCachedResponse(
+			key,
+			{ createdAt: Date.now(), model: modelName, object },
+			cache,
+		);
+	}
+	return { object, cached: false };
+}
+
+function isCancellation(error: unknown): boolean {
+	return error instanceof UserCancelledError;
+}
+
+/**
+ * Generates a title and body with `streamObject`, redrawing them below the spinner text as they arrive.
+ * Ctrl+C aborts the request instead of exiting the process.
+ * @throws {UserCancelledError} If the user pressed Ctrl+C.
+ */
+async function streamDraftObject<T extends { title: string; body: string }>(
+	request: ModelCallSettings & {
+		schema: z.ZodType<T>;
+		system: string;
+		messages: CoreMessage[];
+	},
+	spinner: Ora,
+): Promise<{ object: T; usage: LanguageModelUsage }> {
+	const controller = new AbortController();
+	const cancel = () => controller.abort();
+	process.on("SIGINT", cancel);
+	spinner.stop();
+	const preview = createDraftPreview(spinner.text);
+	try {
+		const result = streamObject({
+			...request,
+			abortSignal: request.abortSignal
+				? AbortSignal.any([request.abortSignal, controller.signal])
+				: controller.signal,
+			// Errors are read from the stream below
+			onError: () => {},
+		});
+		let usage: LanguageModelUsage | null = null;
+		for await (const part of result.fullStream) {
+			if (part.type === "object") preview.update(part.object);
+			else if (part.type === "finish") usage = part.usage;
+			else if (part.type === "error") throw part.error;
+		}
+		if (controller.signal.aborted) throw controller.signal.reason;
+		if (!usage) {
+			throw new Error("The response ended before generation finished.");
+		}
+		return { object: await result.object, usage };
+	} catch (error: unknown) {
+		if (controller.signal.aborted) {
+			throw new UserCancelledError("Generation cancelled.");
+		}
+		throw error;
+	} finally {
+		process.off("SIGINT", cancel);
+		preview.clear();
+	}
+}
+
+function buildRevisionMessages(
+	revision: Revision,
+	subject: string,
+): CoreMessage[] {
+	const request = revision.feedback?.trim()
+		? `Please revise the ${subject} above following these instructions:\n${revision.feedback.trim()}`
+		: `Please write a different version of the ${subject} above, with fresh wording.`;
+	return [
+		{ role: "assistant", content: JSON.stringify(revision.previous) },
+		{ role: "user", content: request },
+	];
+}
+
+/**
+ * Fits a diff into the token budget before it is sent to the model.
+ * Excluded paths and low-value files (lockfiles, generated files, binaries) are always dropped. If the remaining diff
+ * is still over budget, each chunk is summarized separately (map) so the final generation can work
+ * from the summaries instead of the raw diff (reduce).
+ * @param {string} diff - The raw git diff string.
+ * @param {DiffBudgetOptions} budget - The token budget and exclusion rules.
+ * @param {GenerationOptions} options - Model and provider settings used for summarization.
+ * @returns {Promise<PreparedDiff>} - The diff or summaries to prompt with, and what was omitted.
+ * @throws {Error} If provider credentials are missing or summarization fails.
+ */
+export async function prepareDiff(
 	diff: string,
-	commits?: string,
-	modelName = "gpt-4.1-mini",
-	language = "english",
-): Promise<z.infer<typeof PrContentSchema>> {
+	budget: DiffBudgetOptions,
+	options: GenerationOptions,
+): Promise<PreparedDiff> {
+	const budgeted = budgetDiff(diff, budget);
+	if (!budgeted.chunks) {
+		return {
+			content: budgeted.content,
+			summarized: false,
+			omitted: budgeted.omitted,
+			estimatedTokens: budgeted.estimatedTokens,
+		};
+	}
+
+	const { modelName } = options;
+	const { chunks } = budgeted;
 	const spinner = ora(
-		theme.info("🤖 Generating PR content with AI..."),
+		theme.info(
+			`📚 Diff is ~${budgeted.estimatedTokens} tokens (budget ${budget.maxDiffTokens}). Summarizing in ${chunks.length} chunk(s)...`,
+		),
 	).start();
 	try {
-		if (!process.env.OPENAI_API_KEY) {
-			throw new Error(
-				"OpenAI API key is missing. Set the OPENAI_API_KEY environment variable.",
+		assertProviderCredentials(options);
+
+		const summaries: string[] = [];
+		for (const [index, chunk] of chunks.entries()) {
+			spinner.text = `📚 Summarizing diff chunk ${index + 1}/${chunks.length} using ${theme.info(modelName)}...`;
+			const { object } = await callModel(options, spinner, (settings) =>
+				generateObject({
+					...settings,
+					schema: DiffSummarySchema,
+					system:
+						"You are an expert programmer summarizing one part of a large git diff. For every file in the diff, describe concisely what changed and why it matters. Be factual; do not speculate beyond what the diff shows.",
+					prompt: `Git Diff (part ${index + 1} of ${chunks.length}):\n\`\`\`diff\n${chunk}\n\`\`\``,
+				}),
 			);
+			for (const file of object.files) {
+				summaries.push(`${file.path}:\n${file.summary}`);
+			}
 		}
 
-		spinner.text = `🤖 Generating PR content using ${theme.info(modelName)} in ${theme.info(language)}...`;
-		const model = openai(modelName);
+		const content = summaries.join("\n\n");
+		spinner.succeed(
+			theme.success(`Summarized ${summaries.length} file(s) from the diff.`),
+		);
+		return {
+			content,
+			summarized: true,
+			omitted: budgeted.omitted,
+			estimatedTokens: estimateTokens(content),
+		};
+	} catch (error: unknown) {
+		spinner.fail(theme.error("Diff summarization failed."));
+		throw parseAiApiError(error, modelName, options.provider);
+	}
+}
 
-		// System prompt providing context and instructions to the AI
-		const systemPrompt = `You are an expert programmer assisting with drafting a GitHub Pull Request in ${language}. Based on the provided git diff (representing changes since the base branch) and commit summaries, generate a concise, informative title (max 70 chars) and a detailed body description for the PR. The title should summarize the main changes reflected in the commits and diff. The body should explain the purpose and context of the changes, referencing the commit summaries if helpful. Use markdown formatting for the body.`;
+/**
+ * Renders a prepared diff as the diff section of a user prompt.
+ * @param {PreparedDiff} diff - The prepared diff.
+ * @param {string} label - Heading used for a raw diff (e.g., "Git Diff").
+ * @returns {string} - The prompt section.
+ */
+function formatDiffForPrompt(diff: PreparedDiff, label: string): string {
+	let section = diff.summarized
+		? `Per-file Change Summaries (the full diff was too large to include):\n\`\`\`\n${diff.content}\n\`\`\``
+		: `${label}:\n\`\`\`diff\n${diff.content}\n\`\`\``;
+	if (diff.omitted.length > 0) {
+		section += `\n\nFiles that also changed but whose diff was omitted or truncated:\n${formatOmittedFiles(diff.omitted)}`;
+	}
+	return section;
+}
 
-		// User prompt providing the actual diff and commit data
-		const userPrompt = `Git Diff:\n\`\`\`diff\n${diff}\n\`\`\`\n\nCommit Summaries:\n\`\`\`\n${commits || "No commit summaries available."}\n\`\`\`\n\nPlease generate the PR title and body in ${language}.`;
+function formatIssueSection(issueContext?: string): string {
+	if (!issueContext) return "";
+	return `\n\nLinked Issues (use them to explain why the change was made; closing references are added automatically):\n${issueContext}`;
+}
 
-		const { object } = await generateObject({
-			model,
-			schema: PrContentSchema,
-			prompt: userPrompt,
-			system: systemPrompt,
-		});
-		spinner.succeed(theme.success("PR content generated."));
+/**
+ * Builds the system and user prompts for PR content, applying the repository's prompt customization.
+ */
+function buildPrPrompts(
+	diff: PreparedDiff,
+	commits: string | undefined,
+	options: GenerationOptions,
+	template?: string,
+): { systemPrompt: string; userPrompt: string } {
+	const { language, issueContext } = options;
+	const diffSection = formatDiffForPrompt(diff, "Git Diff");
+	const commitSummaries = commits || "No commit summaries available.";
+	// System prompt providing context and instructions to the AI
+	let systemPrompt = `You are an expert programmer assisting with drafting a GitHub Pull Request in ${language}. Based on the provided git diff (representing changes since the base branch) and commit summaries, generate a concise, informative title (max 70 chars) and a detailed body description for the PR. The title should summarize the main changes reflected in the commits and diff. The body should explain the purpose and context of the changes, referencing the commit summaries if helpful. Use markdown formatting for the body.`;
+	if (template) {
+		systemPrompt += `\n\nThe repository requires the PR body to follow its pull request template, provided below. Keep every heading in the same order and fill in each section with content derived from the changes. Keep checkboxes ("- [ ]") and static text intact, only ticking ("- [x]") the boxes the changes clearly satisfy. Replace HTML comment placeholders (<!-- ... -->) with the requested content, and write "N/A" for sections that do not apply. Do not add sections that are not in the template.\n\nPull Request Template:\n\`\`\`markdown\n${template}\n\`\`\``;
+	}
+
+	// User prompt providing the actual diff and commit data
+	const userPrompt = `${diffSection}\n\nCommit Summaries:\n\`\`\`\n${commitSummaries}\n\`\`\`${formatIssueSection(issueContext)}\n\nPlease generate the PR title and body in ${language}.`;
+
+	return applyPromptTemplates({ systemPrompt, userPrompt }, options.prompt, {
+		diff: diffSection,
+		commits: commitSummaries,
+		language,
+		branch: options.branch ?? "",
+		issues: issueContext ?? "",
+		template: template ?? "",
+	});
+}
+
+/**
+ * Builds the system and user prompts for a commit message, applying the repository's prompt customization.
+ */
+function buildCommitPrompts(
+	stagedDiff: PreparedDiff,
+	options: GenerationOptions,
+	convention: CommitConvention,
+): { systemPrompt: string; userPrompt: string } {
+	const { language, issueContext } = options;
+	const diffSection = formatDiffForPrompt(stagedDiff, "Staged Git Diff");
+	// System prompt providing context and instructions to the AI for commit messages
+	const systemPrompt = `You are an expert programmer assisting with writing a Git commit message in ${language}. Based on the provided staged git diff, generate a commit message with two parts:
+1. A 'title': A concise and informative summary. ${convention.instructions} The title should be a single line, at most ${convention.maxTitleLength} characters and not ending with a period.
+2. A 'body': A detailed description of the changes, presented as bullet points. Each bullet point should start with '- '. Explain the 'what' and 'why' of the changes. If the changes are simple enough that the title suffices, the body can be empty.
+
+The title should summarize the main purpose of the changes shown in the diff. The body should elaborate on these changes. Ensure the body consists of bullet points if it's not empty.`;
+
+	// User prompt providing the actual diff data
+	const userPrompt = `${diffSection}${formatIssueSection(issueContext)}\n\nPlease generate the commit title and body in ${language}.`;
+
+	return applyPromptTemplates({ systemPrompt, userPrompt }, options.prompt, {
+		diff: diffSection,
+		language,
+		branch: options.branch ?? "",
+		issues: issueContext ?? "",
+		convention: convention.instructions,
+		maxTitleLength: String(convention.maxTitleLength),
+	});
+}
+
+/**
+ * Generates PR title and body using the configured AI provider based on git diff and commit summaries.
+ * @param {PreparedDiff} diff - The budgeted git diff (see `prepareDiff`).
+ * @param {string | undefined} commits - The commit summaries string.
+ * @param {GenerationOptions} options - Model, language and provider settings.
+ * @param {string} [template] - Markdown PR template whose sections the body must fill in.
+ * @param {Revision} [revision] - A previous title and body to rework instead of starting over.
+ * @returns {Promise<z.infer<typeof PrContentSchema>>} - The generated title and body.
+ * @throws {Error} If provider credentials are missing or AI generation fails.
+ */
+export async function generatePrContent(
+	diff: PreparedDiff,
+	commits: string | undefined,
+	options: GenerationOptions,
+	template?: string,
+	revision?: Revision,
+): Promise<z.infer<typeof PrContentSchema>> {
+	const { modelName, language } = options;
+	const spinner = ora(
+		theme.info("🤖 Generating PR content with AI..."),
+	).start();
+	try {
+		assertProviderCredentials(options);
+
+		spinner.text = `🤖 Generating PR content using ${theme.info(modelName)} in ${theme.info(language)}...`;
+
+		const { systemPrompt, userPrompt } = buildPrPrompts(
+			diff,
+			commits,
+			options,
+			template,
+		);
+		const messages: CoreMessage[] = [{ role: "user", content: userPrompt }];
+		if (revision) {
+			spinner.text = `🤖 Revising PR content using ${theme.info(modelName)}...`;
+			messages.push(...buildRevisionMessages(revision, "PR title and body"));
+		}
+		// Revisions ask for something new, so they never reuse a cached response
+		const { object, cached } = await generateCachedObject(
+			revision ? { ...options, cache: undefined } : options,
+			{ kind: "pr", system: systemPrompt, messages },
+			PrContentSchema,
+			async () => {
+				const result = await callModel(options, spinner, (settings) => {
+					const request = {
+						...settings,
+						schema: PrContentSchema,
+						messages,
+						system: systemPrompt,
+					};
+					return options.stream
+						? streamDraftObject(request, spinner)
+						: generateObject(request);
+				});
+				return result;
+			},
+		);
+		spinner.succeed(
+			theme.success(
+				cached ? "PR content loaded from cache." : "PR content generated.",
+			),
+		);
 		return object;
 	} catch (error: unknown) {
+		if (isCancellation(error)) {
+			spinner.stop();
+			throw error;
+		}
 		spinner.fail(theme.error("AI generation failed."));
-		throw parseAiApiError(error, modelName);
+		throw parseAiApiError(error, modelName, options.provider);
 	}
 }
 
 /**
- * Generates a commit message using OpenAI based on staged git diff.
- * @param {string} stagedDiff - The git diff of staged changes.
- * @param {string} [modelName='gpt-4.1-mini'] - The OpenAI model name to use.
- * @param {string} [language='english'] - The language to generate the commit message in (influences tone and keyword choice if applicable).
- * @returns {Promise<z.infer<typeof CommitMessageSchema>>} - The generated commit message.
- * @throws {Error} If API key is missing or AI generation fails.
+ * Generates a commit message using the configured AI provider based on staged git diff.
+ * The title is validated against the commit convention and the model is asked to correct it if it does not comply.
+ * @param {PreparedDiff} stagedDiff - The budgeted git diff of staged changes (see `prepareDiff`).
+ * @param {GenerationOptions} options - Model, language and provider settings. The language influences tone and keyword choice if applicable.
+ * @param {CommitConvention} convention - The commit convention the title must follow.
+ * @param {Revision} [revision] - A previous title and body to rework instead of starting over.
+ * @returns {Promise<z.infer<typeof CommitMessageSchema>>} - The generated commit message (which may still violate the convention if retries were exhausted).
+ * @throws {Error} If provider credentials are missing or AI generation fails.
  */
 export async function generateCommitMessageContent(
-	stagedDiff: string,
-	modelName = "gpt-4.1-mini",
-	language = "english",
+	stagedDiff: PreparedDiff,
+	options: GenerationOptions,
+	convention: CommitConvention,
+	revision?: Revision,
 ): Promise<z.infer<typeof CommitMessageSchema>> {
+	const { modelName, language } = options;
 	const spinner = ora(
 		theme.info("🤖 Generating commit message with AI..."),
 	).start();
 	try {
-		if (!process.env.OPENAI_API_KEY) {
-			throw new Error(
-				"OpenAI API key is missing. Set the OPENAI_API_KEY environment variable.",
-			);
-		}
+		assertProviderCredentials(options);
 
 		spinner.text = `🤖 Generating commit message using ${theme.info(modelName)}...`;
-		const model = openai(modelName);
 
-		// System prompt providing context and instructions to the AI for commit messages
-		const systemPrompt = `You are an expert programmer assisting with writing a Git commit message in ${language}. Based on the provided staged git diff, generate a commit message with two parts:
-1. A 'title': A concise and informative summary following conventional commit standards (e.g., 'feat: add new user authentication', 'fix: resolve issue with login button'). The title should be a single line, ideally under 72 characters and not ending with a period.
-2. A 'body': A detailed description of the changes, presented as bullet points. Each bullet point should start with '- '. Explain the 'what' and 'why' of the changes. If the changes are simple enough that the title suffices, the body can be empty.
+		const { systemPrompt, userPrompt } = buildCommitPrompts(
+			stagedDiff,
+			options,
+			convention,
+		);
+		const messages: CoreMessage[] = [{ role: "user", content: userPrompt }];
+		if (revision) {
+			spinner.text = `🤖 Revising commit message using ${theme.info(modelName)}...`;
+			messages.push(
+				...buildRevisionMessages(revision, "commit title and body"),
+			);
+		}
+		// Revisions ask for something new, so they never reuse a cached response
+		const { object, cached } = await generateCachedObject(
+			revision ? { ...options, cache: undefined } : options,
+			{ kind: "commit", system: systemPrompt, messages: [...messages] },
+			CommitMessageSchema,
+			async () => {
+				const generate = () =>
+					callModel(options, spinner, (settings) => {
+						const request = {
+							...settings,
+							schema: CommitMessageSchema,
+							messages,
+							system: systemPrompt,
+						};
+						return options.stream
+							? streamDraftObject(request, spinner)
+							: generateObject(request);
+					});
+				let result = await generate();
 
-The title should summarize the main purpose of the changes shown in the diff. The body should elaborate on these changes. Ensure the body consists of bullet points if it's not empty.`;
+				for (let attempt = 1; attempt <= MAX_CONVENTION_RETRIES; attempt++) {
+					const violations = validateCommitTitle(
+						result.object.title,
+						convention,
+					);
+					if (violations.length === 0) break;
 
-		// User prompt providing the actual diff data
-		const userPrompt = `Staged Git Diff:\n\`\`\`diff\n${stagedDiff}\n\`\`\`\n\nPlease generate the commit title and body in ${language}.`;
+					spinner.text = `🤖 Title breaks the '${convention.name}' convention, asking ${theme.info(modelName)} to fix it...`;
+					messages.push(
+						{ role: "assistant", content: JSON.stringify(result.object) },
+						{
+							role: "user",
+							content: `The title "${result.object.title}" does not follow the commit convention:\n${violations.map((v) => `- ${v}`).join("\n")}\n\nPlease regenerate the commit title and body so the title complies.`,
+						},
+					);
+					result = await generate();
+				}
+				return result;
+			},
+		);
 
-		const { object } = await generateObject({
-			model,
-			schema: CommitMessageSchema,
-			prompt: userPrompt,
-			system: systemPrompt,
-		});
-		spinner.succeed(theme.success("Commit message generated."));
+		spinner.succeed(
+			theme.success(
+				cached
+					? "Commit message loaded from cache."
+					: "Commit message generated.",
+			),
+		);
 		return object;
+	} catch (error: unknown) {
+		if (isCancellation(error)) {
+			spinner.stop();
+			throw error;
+		}
+		spinner.fail(theme.error("AI generation for commit message failed."));
+		throw parseAiApiError(error, modelName, options.provider);
+	}
+}
+
+function candidatesInstruction(count: number, subject: string): string {
+	return `\n\nInstead of a single ${subject}, write ${count} distinct alternatives in 'candidates'. Each alternative should lead with a different aspect of the change or use a different level of detail, so the user can pick the best emphasis. All other instructions apply to every alternative.`;
+}
+
+/**
+ * Generates several alternative PR titles and bodies in a single AI call.
+ * @param {PreparedDiff} diff - The budgeted git diff (see `prepareDiff`).
+ * @param {string | undefined} commits - The commit summaries string.
+ * @param {GenerationOptions} options - Model, language and provider settings.
+ * @param {number} count - How many alternatives to ask for.
+ * @param {string} [template] - Markdown PR template whose sections the body must fill in.
+ * @returns {Promise<z.infer<typeof PrContentSchema>[]>} - At least one and at most `count` alternatives.
+ * @throws {Error} If provider credentials are missing, AI generation fails or no alternative is returned.
+ */
+export async function generatePrContentCandidates(
+	diff: PreparedDiff,
+	commits: string | undefined,
+	options: GenerationOptions,
+	count: number,
+	template?: string,
+): Promise<z.infer<typeof PrContentSchema>[]> {
+	const { modelName, language } = options;
+	const spinner = ora(
+		theme.info(`🤖 Generating ${count} PR content candidates with AI...`),
+	).start();
+	try {
+		assertProviderCredentials(options);
+
+		spinner.text = `🤖 Generating ${count} PR content candidates using ${theme.info(modelName)}...`;
+		const { systemPrompt, userPrompt } = buildPrPrompts(
+			diff,
+			commits,
+			options,
+			template,
+		);
+
+		const system =
+			systemPrompt + candidatesInstruction(count, "title and body");
+		const { object, cached } = await generateCachedObject(
+			options,
+			{
+				kind: "pr-candidates",
+				system,
+				messages: [{ role: "user", content: userPrompt }],
+			},
+			PrContentCandidatesSchema,
+			async () => {
+				const result = await callModel(options, spinner, (settings) =>
+					generateObject({
+						...settings,
+						schema: PrContentCandidatesSchema,
+						system,
+						prompt: userPrompt,
+					}),
+				);
+				return result;
+			},
+		);
+		const candidates = object.candidates.slice(0, count);
+		if (candidates.length === 0) {
+			throw new Error("The model returned no PR content candidates.");
+		}
+		spinner.succeed(
+			theme.success(
+				`${cached ? "Loaded" : "Generated"} ${candidates.length} PR content candidate(s)${cached ? " from cache" : ""}.`,
+			),
+		);
+		return candidates;
+	} catch (error: unknown) {
+		spinner.fail(theme.error("AI generation failed."));
+		throw parseAiApiError(error, modelName, options.provider);
+	}
+}
+
+/**
+ * Generates several alternative commit messages in a single AI call. Titles are not corrected
+ * for convention violations; those are shown when the user picks a candidate.
+ * @param {PreparedDiff} stagedDiff - The budgeted git diff of staged changes (see `prepareDiff`).
+ * @param {GenerationOptions} options - Model, language and provider settings.
+ * @param {CommitConvention} convention - The commit convention the titles must follow.
+ * @param {number} count - How many alternatives to ask for.
+ * @returns {Promise<z.infer<typeof CommitMessageSchema>[]>} - At least one and at most `count` alternatives.
+ * @throws {Error} If provider credentials are missing, AI generation fails or no alternative is returned.
+ */
+export async function generateCommitMessageCandidates(
+	stagedDiff: PreparedDiff,
+	options: GenerationOptions,
+	convention: CommitConvention,
+	count: number,
+): Promise<z.infer<typeof CommitMessageSchema>[]> {
+	const { modelName, language } = options;
+	const spinner = ora(
+		theme.info(`🤖 Generating ${count} commit message candidates with AI...`),
+	).start();
+	try {
+		assertProviderCredentials(options);
+
+		spinner.text = `🤖 Generating ${count} commit message candidates using ${theme.info(modelName)}...`;
+		const { systemPrompt, userPrompt } = buildCommitPrompts(
+			stagedDiff,
+			options,
+			convention,
+		);
+
+		const system =
+			systemPrompt + candidatesInstruction(count, "commit message");
+		const { object, cached } = await generateCachedObject(
+			options,
+			{
+				kind: "commit-candidates",
+				system,
+				messages: [{ role: "user", content: userPrompt }],
+			},
+			CommitMessageCandidatesSchema,
+			async () => {
+				const result = await callModel(options, spinner, (settings) =>
+					generateObject({
+						...settings,
+						schema: CommitMessageCandidatesSchema,
+						system,
+						prompt: userPrompt,
+					}),
+				);
+				return result;
+			},
+		);
+		const candidates = object.candidates.slice(0, count);
+		if (candidates.length === 0) {
+			throw new Error("The model returned no commit message candidates.");
+		}
+		spinner.succeed(
+			theme.success(
+				`${cached ? "Loaded" : "Generated"} ${candidates.length} commit message candidate(s)${cached ? " from cache" : ""}.`,
+			),
+		);
+		return candidates;
 	} catch (error: unknown) {
 		spinner.fail(theme.error("AI generation for commit message failed."));
-		throw parseAiApiError(error, modelName);
+		throw parseAiApiError(error, modelName, options.provider);
+	}
+}
+
+/**
+ * Asks the AI to group staged hunks into several logical commits, each with its own message.
+ * @param {string} hunkListing - The staged hunks with their IDs (see `formatHunksForPrompt`).
+ * @param {GenerationOptions} options - Model, language and provider settings.
+ * @param {CommitConvention} convention - The commit convention the titles must follow.
+ * @returns {Promise<PlannedCommit[]>} - The proposed commits (see `normalizeCommitPlan` before applying them).
+ * @throws {Error} If provider credentials are missing or AI generation fails.
+ */
+export async function generateCommitPlan(
+	hunkListing: string,
+	options: GenerationOptions,
+	convention: CommitConvention,
+): Promise<PlannedCommit[]> {
+	const { modelName, language } = options;
+	const spinner = ora(
+		theme.info("🧩 Planning how to split the staged changes with AI..."),
+	).start();
+	try {
+		assertProviderCredentials(options);
+
+		spinner.text = `🧩 Planning commits using ${theme.info(modelName)}...`;
+
+		const { object } = await callModel(options, spinner, (settings) =>
+			generateObject({
+				...settings,
+				schema: CommitPlanSchema,
+				system: withInstructions(
+					`You are an expert programmer splitting a large set of staged changes into a series of small, logical Git commits, written in ${language}. Group hunks that belong to the same change (a feature, a fix, a refactoring, a dependency bump, documentation) into one commit, and order the commits so each one builds on the previous ones (e.g., a refactoring before the feature that uses it). Use as few commits as make sense; unrelated changes must not share a commit. For every commit write a 'title': ${convention.instructions} The title must be a single line, at most ${convention.maxTitleLength} characters and not ending with a period. Also write a 'body' of bullet points starting with '- ' explaining the 'what' and 'why', or an empty string if the title suffices.`,
+					options.prompt?.instructions,
+				),
+				prompt: `Staged Hunks (each headed by its ID, file and line counts):\n\`\`\`diff\n${hunkListing}\n\`\`\`\n\nPlease split these hunks into logical commits in ${language}. Assign every hunk ID to exactly one commit.`,
+			}),
+		);
+
+		spinner.succeed(
+			theme.success(`Planned ${object.commits.length} commit(s).`),
+		);
+		return object.commits;
+	} catch (error: unknown) {
+		spinner.fail(theme.error("AI planning of the commit split failed."));
+		throw parseAiApiError(error, modelName, options.provider);
+	}
+}
+
+/**
+ * Suggests labels for a pull request, choosing only among the repository's existing labels.
+ * @param {string} title - The PR title.
+ * @param {string} body - The PR body.
+ * @param {{ name: string; description: string }[]} availableLabels - The labels defined in the repository.
+ * @param {GenerationOptions} options - Model and provider settings.
+ * @returns {Promise<string[]>} - Suggested label names (always a subset of `availableLabels`).
+ * @throws {Error} If provider credentials are missing or AI generation fails.
+ */
+export async function suggestPrLabels(
+	title: string,
+	body: string,
+	availableLabels: { name: string; description: string }[],
+	options: GenerationOptions,
+): Promise<string[]> {
+	const { modelName } = options;
+	const spinner = ora(theme.info("🏷️ Suggesting labels with AI...")).start();
+	try {
+		assertProviderCredentials(options);
+
+		const labelList = availableLabels
+			.map((label) =>
+				label.description
+					? `- ${label.name}: ${label.description}`
+					: `- ${label.name}`,
+			)
+			.join("\n");
+		const { object } = await callModel(options, spinner, (settings) =>
+			generateObject({
+				...settings,
+				schema: PrLabelsSchema,
+				system:
+					"You are an expert programmer triaging a GitHub Pull Request. Pick the labels from the repository's label list that clearly apply to the pull request. Prefer a few precise labels over many loose ones, and never invent labels.",
+				prompt: `Pull Request Title: ${title}\n\nPull Request Body:\n${body}\n\nAvailable Labels:\n${labelList}`,
+			}),
+		);
+
+		const known = new Set(availableLabels.map((label) => label.name));
+		const labels = [...new Set(object.labels)].filter((label) =>
+			known.has(label),
+		);
+		spinner.succeed(
+			theme.success(
+				labels.length > 0
+					? `Suggested labels: ${labels.join(", ")}`
+					: "No labels suggested.",
+			),
+		);
+		return labels;
+	} catch (error: unknown) {
+		spinner.fail(theme.error("AI label suggestion failed."));
+		throw parseAiApiError(error, modelName, options.provider);
+	}
+}
+
+/**
+ * Writes release notes for a range of commits using the configured AI provider.
+ * @param {string} commitGroups - The grouped commit list (see `formatCommitGroups`).
+ * @param {{ from: string | null; to: string }} range - The release range, for context.
+ * @param {GenerationOptions} options - Model, language and provider settings.
+ * @returns {Promise<ReleaseNotes>} - The summary and categorized entries.
+ * @throws {Error} If provider credentials are missing or AI generation fails.
+ */
+export async function generateReleaseNotes(
+	commitGroups: string,
+	range: { from: string | null; to: string },
+	options: GenerationOptions,
+): Promise<ReleaseNotes> {
+	const { modelName, language } = options;
+	const spinner = ora(
+		theme.info("📰 Writing release notes with AI..."),
+	).start();
+	try {
+		assertProviderCredentials(options);
+
+		spinner.text = `📰 Writing release notes using ${theme.info(modelName)} in ${theme.info(language)}...`;
+
+		const { object } = await callModel(options, spinner, (settings) =>
+			generateObject({
+				...settings,
+				schema: ReleaseNotesSchema,
+				system: `You are an expert programmer writing release notes in ${language} for the users of a project. Based on the grouped commit list, write a short summary and changelog entries sorted into the Keep a Changelog categories (${CHANGELOG_CATEGORIES.join(", ")}). Describe changes from the user's point of view, merge commits that belong to the same change into one entry, and leave out purely internal changes (refactoring, tests, CI, chores) unless they affect users. Mention breaking changes explicitly.`,
+				prompt: `Release range: ${range.from ? `${range.from}..${range.to}` : `up to ${range.to}`}\n\nCommits:\n${commitGroups}\n\nPlease write the release notes in ${language}.`,
+			}),
+		);
+
+		spinner.succeed(theme.success("Release notes written."));
+		return object;
+	} catch (error: unknown) {
+		spinner.fail(theme.error("AI generation for release notes failed."));
+		throw parseAiApiError(error, modelName, options.provider);
+	}
+}
+
+/**
+ * Reviews a diff with the configured AI provider and returns structured findings.
+ * @param {string} annotatedDiff - The diff with new-file line numbers (see `annotateDiffLineNumbers`).
+ * @param {string | undefined} commits - Commit summaries for context, if reviewing a branch.
+ * @param {GenerationOptions} options - Model, language and provider settings.
+ * @returns {Promise<CodeReview>} - The summary and findings.
+ * @throws {Error} If provider credentials are missing or AI generation fails.
+ */
+export async function generateCodeReview(
+	annotatedDiff: string,
+	commits: string | undefined,
+	options: GenerationOptions,
+): Promise<CodeReview> {
+	const { modelName, language } = options;
+	const spinner = ora(theme.info("🔎 Reviewing changes with AI...")).start();
+	try {
+		assertProviderCredentials(options);
+
+		spinner.text = `🔎 Reviewing changes using ${theme.info(modelName)}...`;
+
+		const commitSection = commits
+			? `\n\nCommit Summaries:\n\`\`\`\n${commits}\n\`\`\``
+			: "";
+		const { object } = await callModel(options, spinner, (settings) =>
+			generateObject({
+				...settings,
+				schema: CodeReviewSchema,
+				system: `You are a senior engineer reviewing a change before a human reviewer sees it. Write in ${language}. Report real problems in the added or modified code: bugs, security issues, performance problems, missing error handling, missing tests and maintainability concerns. Do not comment on formatting a formatter would fix, do not praise, and do not report issues in unchanged code. Each diff line is prefixed with its line number in the new file; use those numbers for startLine and endLine. Return no findings if the change looks good.`,
+				prompt: `Git Diff (with new-file line numbers):\n\`\`\`diff\n${annotatedDiff}\n\`\`\`${commitSection}\n\nPlease review the changes.`,
+			}),
+		);
+
+		spinner.succeed(
+			theme.success(
+				`Review finished with ${object.findings.length} finding(s).`,
+			),
+		);
+		return object;
+	} catch (error: unknown) {
+		spinner.fail(theme.error("AI review failed."));
+		throw parseAiApiError(error, modelName, options.provider);
 	}
 }
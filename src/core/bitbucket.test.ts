@@ -0,0 +1,159 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import type { Server } from "bun";
+import { ForgeError, PrerequisiteError } from "../utils/errors";
+import {
+	BITBUCKET_APP_PASSWORD_ENV,
+	BITBUCKET_TOKEN_ENV,
+	BITBUCKET_USERNAME_ENV,
+	createBitbucketForge,
+} from "./bitbucket";
+
+interface RecordedRequest {
+	method: string;
+	path: string;
+	body: Record<string, unknown> | null;
+	authorization: string | null;
+}
+
+// A local stand-in for the Bitbucket REST API, reached through forgeApiUrl
+let server: Server;
+let requests: RecordedRequest[];
+let routes: Record<string, (request: RecordedRequest) => unknown>;
+const repo = "/2.0/repositories/team/app";
+const pr = {
+	id: 12,
+	title: "feat: add export",
+	description: "Body",
+	links: { html: { href: "https://bitbucket.org/team/app/pull-requests/12" } },
+};
+
+function forge() {
+	return createBitbucketForge(
+		{ host: "bitbucket.org", path: "team/app" },
+		`${server.url.origin}/2.0`,
+	);
+}
+
+beforeAll(() => {
+	process.env[BITBUCKET_TOKEN_ENV] = "bb-test";
+	server = Bun.serve({
+		port: 0,
+		async fetch(req) {
+			const url = new URL(req.url);
+			const text = await req.text();
+			const request = {
+				method: req.method,
+				path: `${url.pathname}${decodeURIComponent(url.search)}`,
+				body: text ? JSON.parse(text) : null,
+				authorization: req.headers.get("Authorization"),
+			};
+			requests.push(request);
+			const route = routes[`${req.method} ${url.pathname}`];
+			return route
+				? Response.json(route(request))
+				: new Response('{"type":"error"}', { status: 404 });
+		},
+	});
+});
+
+afterAll(() => {
+	server.stop(true);
+	delete process.env[BITBUCKET_TOKEN_ENV];
+});
+
+beforeEach(() => {
+	requests = [];
+	routes = {};
+});
+
+describe("Bitbucket forge", () => {
+	test("authenticates with a token or a username and app password", async () => {
+		routes[`GET ${repo}`] = () => ({});
+		await forge().checkAuth();
+		expect(requests[0]?.authorization).toBe("Bearer bb-test");
+
+		delete process.env[BITBUCKET_TOKEN_ENV];
+		process.env[BITBUCKET_USERNAME_ENV] = "me";
+		process.env[BITBUCKET_APP_PASSWORD_ENV] = "secret";
+		try {
+			await forge().checkAuth();
+			expect(requests[1]?.authorization).toBe(
+				`Basic ${Buffer.from("me:secret").toString("base64")}`,
+			);
+			delete process.env[BITBUCKET_USERNAME_ENV];
+			await expect(forge().checkAuth()).rejects.toBeInstanceOf(
+				PrerequisiteError,
+			);
+		} finally {
+			delete process.env[BITBUCKET_APP_PASSWORD_ENV];
+			process.env[BITBUCKET_TOKEN_ENV] = "bb-test";
+		}
+
+		routes = {};
+		await expect(forge().checkAuth()).rejects.toBeInstanceOf(ForgeError);
+	});
+
+	test("finds the open PR of a branch", async () => {
+		routes[`GET ${repo}/pullrequests`] = (request) => ({
+			values: request.path.includes('source.branch.name="feat/export"')
+				? [pr]
+				: [],
+		});
+		expect(await forge().findOpenRequest("feat/export")).toEqual({
+			number: 12,
+			url: pr.links.html.href,
+			title: pr.title,
+			body: "Body",
+		});
+		expect(await forge().findOpenRequest("main")).toBeNull();
+	});
+
+	test("creates a PR with reviewers by account ID or UUID", async () => {
+		routes[`POST ${repo}/pullrequests`] = () => pr;
+		const url = await forge().createRequest("t", "b", "feat/export", {
+			draft: true,
+			base: "main",
+			reviewers: ["557058:abc", "{1234-uuid}"],
+		});
+		expect(url).toBe(pr.links.html.href);
+		expect(requests[0]?.body).toEqual({
+			title: "t",
+			description: "b",
+			draft: true,
+			source: { branch: { name: "feat/export" } },
+			destination: { branch: { name: "main" } },
+			reviewers: [{ account_id: "557058:abc" }, { uuid: "{1234-uuid}" }],
+		});
+	});
+
+	test("wraps failed requests in a ForgeError", async () => {
+		await expect(
+			forge().updateRequest(
+				{ number: 12, url: "", title: "", body: "" },
+				"t",
+				"b",
+				{},
+			),
+		).rejects.toBeInstanceOf(ForgeError);
+	});
+
+	test("posts the summary and each finding as comments", async () => {
+		routes[`POST ${repo}/pullrequests/12/comments`] = () => ({});
+		await forge().postReview(
+			{ number: 12, url: pr.links.html.href, title: "", body: "" },
+			"Summary",
+			[{ path: "a.ts", line: 3, body: "Inline" }],
+		);
+		expect(requests.map((request) => request.body)).toEqual([
+			{ content: { raw: "Summary" } },
+			{ content: { raw: "Inline" }, inline: { path: "a.ts", to: 3 } },
+		]);
+	});
+});
@@ -0,0 +1,268 @@
+import ora from "ora";
+import { theme } from "../ui/theme";
+import { ForgeError, PrerequisiteError } from "../utils/errors";
+import {
+	type ExistingPr,
+	type Forge,
+	type PrMetadata,
+	type RemoteInfo,
+	type ReviewComment,
+	openUrl,
+	requestJson,
+} from "./forge";
+
+export const BITBUCKET_TOKEN_ENV = "BITBUCKET_TOKEN";
+export const BITBUCKET_USERNAME_ENV = "BITBUCKET_USERNAME";
+export const BITBUCKET_APP_PASSWORD_ENV = "BITBUCKET_APP_PASSWORD";
+
+interface BitbucketPullRequest {
+	id: number;
+	title: string;
+	description: string | null;
+	links: { html: { href: string } };
+}
+
+/**
+ * Builds the Authorization header from an access token or a username + app password.
+ * @returns {string | null} - The header value, or null if no credentials are configured.
+ */
+function getAuthorizationHeader(): string | null {
+	const token = process.env[BITBUCKET_TOKEN_ENV];
+	if (token) return `Bearer ${token}`;
+	const username = process.env[BITBUCKET_USERNAME_ENV];
+	const appPassword = process.env[BITBUCKET_APP_PASSWORD_ENV];
+	if (username && appPassword) {
+		return `Basic ${Buffer.from(`${username}:${appPassword}`).toString("base64")}`;
+	}
+	return null;
+}
+
+/**
+ * Creates a Bitbucket Cloud forge that talks to the REST API (2.0).
+ * Bitbucket has no labels, assignees or milestones, so those are ignored with a warning.
+ * Reviewers must be given as account IDs or `{uuid}` values.
+ * @param {RemoteInfo} remote - Host and `workspace/repository` path from the `origin` remote.
+ * @param {string} [apiUrl] - API base URL; defaults to `https://api.bitbucket.org/2.0`.
+ * @returns {Forge} - The Bitbucket forge.
+ */
+export function createBitbucketForge(
+	remote: RemoteInfo,
+	apiUrl?: string,
+): Forge {
+	const baseUrl = (apiUrl ?? "https://api.bitbucket.org/2.0").replace(
+		/\/$/,
+		"",
+	);
+	const repoUrl = `${baseUrl}/repositories/${remote.path}`;
+
+	function api<T>(url: string, init: RequestInit = {}): Promise<T> {
+		return requestJson<T>(url, {
+			...init,
+			headers: { Authorization: getAuthorizationHeader() ?? "" },
+		});
+	}
+
+	function toReviewers(reviewers: string[] = []) {
+		return reviewers.map((id) =>
+			id.startsWith("{") ? { uuid: id } : { account_id: id },
+		);
+	}
+
+	function warnUnsupported(metadata: PrMetadata) {
+		const unsupported = [
+			metadata.labels?.length ? "labels" : null,
+			metadata.assignees?.length ? "assignees" : null,
+			metadata.milestone ? "milestones" : null,
+		].filter(Boolean);
+		if (unsupported.length > 0) {
+			console.warn(
+				theme.warning(
+					`Bitbucket does not support ${unsupported.join(", ")} on pull requests; ignoring them.`,
+				),
+			);
+		}
+	}
+
+	function toExistingPr(pr: BitbucketPullRequest): ExistingPr {
+		return {
+			number: pr.id,
+			url: pr.links.html.href,
+			title: pr.title,
+			body: pr.description ?? "",
+		};
+	}
+
+	return {
+		name: "bitbucket",
+		label: "Bitbucket",
+		requestName: "PR",
+
+		async checkAuth() {
+			if (!getAuthorizationHeader()) {
+				throw new PrerequisiteError(
+					`Bitbucket credentials are not set. Export ${BITBUCKET_TOKEN_ENV} (repository or workspace access token), or ${BITBUCKET_USERNAME_ENV} and ${BITBUCKET_APP_PASSWORD_ENV}.`,
+				);
+			}
+			try {
+				await api(repoUrl);
+			} catch (error: unknown) {
+				throw new ForgeError(
+					`Cannot access Bitbucket repository '${remote.path}': ${error instanceof Error ? error.message : error}`,
+					{ cause: error },
+				);
+			}
+		},
+
+		async findOpenRequest(branchName) {
+			const spinner = ora(
+				theme.info(`Checking for an open PR from '${branchName}'...`),
+			).start();
+			try {
+				const query = `source.branch.name="${branchName}" AND state="OPEN"`;
+				const { values } = await api<{ values: BitbucketPullRequest[] }>(
+					`${repoUrl}/pullrequests?q=${encodeURIComponent(query)}`,
+				);
+				const [pr] = values;
+				if (!pr) {
+					spinner.succeed(theme.success("No open PR found for this branch."));
+					return null;
+				}
+				spinner.succeed(
+					theme.success(
+						`Found open PR #${pr.id}: ${theme.info(pr.links.html.href)}`,
+					),
+				);
+				return toExistingPr(pr);
+			} catch (error: unknown) {
+				spinner.fail(theme.error("Failed to look up existing PRs."));
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		async createRequest(title, body, branchName, metadata) {
+			warnUnsupported(metadata);
+			const spinner = ora(theme.info("Creating Bitbucket PR...")).start();
+			try {
+				const pr = await api<BitbucketPullRequest>(`${repoUrl}/pullrequests`, {
+					method: "POST",
+					body: JSON.stringify({
+						title,
+						description: body,
+						draft: metadata.draft ?? false,
+						source: { branch: { name: branchName } },
+						...(metadata.base
+							? { destination: { branch: { name: metadata.base } } }
+							: {}),
+						reviewers: toReviewers(metadata.reviewers),
+					}),
+				});
+				spinner.succeed(
+					theme.success(
+						`PR created successfully: ${theme.info(pr.links.html.href)}`,
+					),
+				);
+				return pr.links.html.href;
+			} catch (error: unknown) {
+				spinner.fail(theme.error("Failed to create Bitbucket PR."));
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		async updateRequest(existing, title, body, metadata) {
+			warnUnsupported(metadata);
+			const spinner = ora(
+				theme.info(`Updating PR #${existing.number}...`),
+			).start();
+			try {
+				const pr = await api<BitbucketPullRequest>(
+					`${repoUrl}/pullrequests/${existing.number}`,
+					{
+						method: "PUT",
+						body: JSON.stringify({
+							title,
+							description: body,
+							...(metadata.base
+								? { destination: { branch: { name: metadata.base } } }
+								: {}),
+							...(metadata.reviewers?.length
+								? { reviewers: toReviewers(metadata.reviewers) }
+								: {}),
+						}),
+					},
+				);
+				spinner.succeed(
+					theme.success(
+						`PR updated successfully: ${theme.info(pr.links.html.href)}`,
+					),
+				);
+				return pr.links.html.href;
+			} catch (error: unknown) {
+				spinner.fail(theme.error(`Failed to update PR #${existing.number}.`));
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		async listLabels() {
+			// Bitbucket pull requests have no labels to choose from
+			return [];
+		},
+
+		async getIssue(number) {
+			const issue = await api<{
+				title: string;
+				content: { raw: string | null } | null;
+				links: { html: { href: string } };
+			}>(`${repoUrl}/issues/${number}`);
+			return {
+				title: issue.title,
+				body: issue.content?.raw ?? "",
+				url: issue.links.html.href,
+			};
+		},
+
+		async postReview(pr, body, comments: ReviewComment[]) {
+			const spinner = ora(
+				theme.info(`Posting review to PR #${pr.number}...`),
+			).start();
+			const commentsUrl = `${repoUrl}/pullrequests/${pr.number}/comments`;
+			try {
+				// Bitbucket has no review object; the summary and each finding are separate comments
+				await api(commentsUrl, {
+					method: "POST",
+					body: JSON.stringify({ content: { raw: body } }),
+				});
+				for (const comment of comments) {
+					await api(commentsUrl, {
+						method: "POST",
+						body: JSON.stringify({
+							content: { raw: comment.body },
+							inline: { path: comment.path, to: comment.line },
+						}),
+					});
+				}
+				spinner.succeed(
+					theme.success(
+						`Review posted with ${comments.length} inline comment(s): ${theme.info(pr.url)}`,
+					),
+				);
+			} catch (error: unknown) {
+				spinner.fail(theme.error(`Failed to post review to PR #${pr.number}.`));
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		openInBrowser: openUrl,
+	};
+}
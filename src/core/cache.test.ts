@@ -0,0 +1,120 @@
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	clearCache,
+	getCacheDirectory,
+	getCacheKey,
+	getCacheStats,
+	pruneCache,
+	readCachedResponse,
+	resolveCacheSettings,
+	writeCachedResponse,
+} from "./cache";
+
+const HOUR_MS = 60 * 60 * 1000;
+const settings = resolveCacheSettings();
+const CACHE_HOME_ENV = "XDG_CACHE_HOME";
+const previousCacheHome = process.env[CACHE_HOME_ENV];
+let cacheHome: string;
+
+beforeAll(async () => {
+	cacheHome = await mkdtemp(join(tmpdir(), "gitlift-cache-"));
+	process.env[CACHE_HOME_ENV] = cacheHome;
+});
+
+afterEach(async () => {
+	await clearCache();
+});
+
+afterAll(async () => {
+	if (previousCacheHome === undefined) delete process.env[CACHE_HOME_ENV];
+	else process.env[CACHE_HOME_ENV] = previousCacheHome;
+	await rm(cacheHome, { recursive: true, force: true });
+});
+
+async function writeAged(key: string, ageHours: number, size = 10) {
+	const createdAt = Date.now() - ageHours * HOUR_MS;
+	await writeCachedResponse(
+		key,
+		{ createdAt, model: "m", object: "x".repeat(size) },
+		settings,
+	);
+	const time = new Date(createdAt);
+	await utimes(join(getCacheDirectory(), `${key}.json`), time, time);
+}
+
+describe("getCacheKey", () => {
+	test("is stable for equal requests and changes with any part", () => {
+		const request = { model: "gpt-4.1", system: "s", messages: ["diff"] };
+		expect(getCacheKey({ ...request })).toBe(getCacheKey(request));
+		expect(getCacheKey({ ...request, model: "gpt-4o" })).not.toBe(
+			getCacheKey(request),
+		);
+		expect(getCacheKey(request)).toMatch(/^[0-9a-f]{64}$/);
+	});
+});
+
+describe("readCachedResponse", () => {
+	test("returns a stored response under the XDG cache directory", async () => {
+		const entry = { createdAt: Date.now(), model: "m", object: { a: 1 } };
+		await writeCachedResponse("k", entry, settings);
+		expect(getCacheDirectory()).toBe(join(cacheHome, "gitlift", "responses"));
+		expect(await readCachedResponse("k", settings)).toEqual(entry);
+		expect(await readCachedResponse("missing", settings)).toBeNull();
+	});
+
+	test("treats expired and corrupt entries as misses and removes them", async () => {
+		await writeAged("old", 2);
+		const shortLived = resolveCacheSettings({ ttlHours: 1 });
+		expect(await readCachedResponse("old", shortLived)).toBeNull();
+		expect((await getCacheStats(settings)).entries).toBe(0);
+
+		await writeFile(join(getCacheDirectory(), "bad.json"), "{");
+		expect(await readCachedResponse("bad", settings)).toBeNull();
+		expect((await getCacheStats(settings)).entries).toBe(0);
+	});
+});
+
+describe("pruneCache", () => {
+	test("removes expired responses", async () => {
+		await writeAged("old", 3);
+		await writeAged("new", 0);
+		expect(await pruneCache(resolveCacheSettings({ ttlHours: 1 }))).toBe(1);
+		expect(await readCachedResponse("new", settings)).not.toBeNull();
+	});
+
+	test("removes the oldest responses until the cache fits its size limit", async () => {
+		await writeAged("oldest", 3, 400);
+		await writeAged("older", 2, 400);
+		await writeAged("newest", 1, 400);
+		// Room for two of the ~450-byte entries
+		const small = resolveCacheSettings({ maxSizeMb: 1000 / 1024 / 1024 });
+		expect(await pruneCache(small)).toBe(1);
+		expect(await readCachedResponse("oldest", settings)).toBeNull();
+		expect(await readCachedResponse("older", settings)).not.toBeNull();
+		expect(await readCachedResponse("newest", settings)).not.toBeNull();
+	});
+});
+
+describe("getCacheStats and clearCache", () => {
+	test("report and remove every entry", async () => {
+		await writeAged("a", 2);
+		await writeAged("b", 0);
+		const stats = await getCacheStats(resolveCacheSettings({ ttlHours: 1 }));
+		expect(stats.entries).toBe(2);
+		expect(stats.expired).toBe(1);
+		expect(stats.size).toBeGreaterThan(0);
+		expect(stats.oldest?.getTime()).toBeLessThan(stats.newest?.getTime() ?? 0);
+		expect(await clearCache()).toBe(2);
+		expect((await getCacheStats(settings)).entries).toBe(0);
+	});
+});
@@ -0,0 +1,213 @@
+import { createHash } from "node:crypto";
+import {
+	mkdir,
+	readFile,
+	readdir,
+	rm,
+	stat,
+	unlink,
+	writeFile,
+} from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * The `cache` section of the config file.
+ */
+export interface CacheConfig {
+	/** Reuse AI responses for identical requests. */
+	enabled?: boolean;
+	/** How long a response is reused, in hours. */
+	ttlHours?: number;
+	/** Size limit of the cache directory, in megabytes; the oldest responses are removed first. */
+	maxSizeMb?: number;
+}
+
+export type CacheSettings = Required<CacheConfig>;
+
+/**
+ * A response stored on disk.
+ */
+export interface CacheEntry<T = unknown> {
+	/** When the response was generated (milliseconds since the epoch). */
+	createdAt: number;
+	model: string;
+	object: T;
+}
+
+/**
+ * What `gitlift cache stats` reports.
+ */
+export interface CacheStats {
+	directory: string;
+	entries: number;
+	/** Total size in bytes. */
+	size: number;
+	expired: number;
+	oldest: Date | null;
+	newest: Date | null;
+}
+
+const DEFAULT_CACHE_CONFIG: CacheSettings = {
+	enabled: true,
+	ttlHours: 24 * 7,
+	maxSizeMb: 50,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface CacheFile {
+	path: string;
+	size: number;
+	modified: number;
+}
+
+/**
+ * Fills in the defaults of the `cache` config section.
+ * @param {CacheConfig} [config] - The configured section, if any.
+ * @returns {CacheSettings} - The effective settings.
+ */
+export function resolveCacheSettings(config: CacheConfig = {}): CacheSettings {
+	return { ...DEFAULT_CACHE_CONFIG, ...config };
+}
+
+/**
+ * Directory of the response cache: `$XDG_CACHE_HOME/gitlift/responses`, or `~/.cache/gitlift/responses`.
+ * @returns {string} - The directory path.
+ */
+export function getCacheDirectory(): string {
+	const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+	return join(base, "gitlift", "responses");
+}
+
+/**
+ * Hashes everything that determines a response into a cache key.
+ * @param {unknown} request - The request parts (model, prompts, prompt version, ...), serialized as JSON.
+ * @returns {string} - A hex SHA-256 digest.
+ */
+export function getCacheKey(request: unknown): string {
+	return createHash("sha256").update(JSON.stringify(request)).digest("hex");
+}
+
+function getEntryPath(key: string): string {
+	return join(getCacheDirectory(), `${key}.json`);
+}
+
+function isExpired(createdAt: number, settings: CacheSettings): boolean {
+	return Date.now() - createdAt > settings.ttlHours * HOUR_MS;
+}
+
+async function listCacheFiles(): Promise<CacheFile[]> {
+	const directory = getCacheDirectory();
+	let names: string[];
+	try {
+		names = await readdir(directory);
+	} catch {
+		return [];
+	}
+	const files: CacheFile[] = [];
+	for (const name of names.filter((n) => n.endsWith(".json"))) {
+		const path = join(directory, name);
+		const info = await stat(path).catch(() => null);
+		if (info) files.push({ path, size: info.size, modified: info.mtimeMs });
+	}
+	return files;
+}
+
+/**
+ * Reads a cached response. Expired and unreadable entries count as misses and are removed.
+ * @param {string} key - The cache key (see `getCacheKey`).
+ * @param {CacheSettings} settings - The effective cache settings.
+ * @returns {Promise<CacheEntry | null>} - The entry, or null on a miss.
+ */
+export async function readCachedResponse(
+	key: string,
+	settings: CacheSettings,
+): Promise<CacheEntry | null> {
+	const path = getEntryPath(key);
+	try {
+		const entry = JSON.parse(await readFile(path, "utf8")) as CacheEntry;
+		if (
+			typeof entry.createdAt === "number" &&
+			!isExpired(entry.createdAt, settings)
+		) {
+			return entry;
+		}
+	} catch {
+		// No entry for this key (or a corrupt one, removed below)
+	}
+	await unlink(path).catch(() => {});
+	return null;
+}
+
+/**
+ * Stores a response and keeps the cache within its size limit. Failures are ignored, since the
+ * cache only saves time and money.
+ * @param {string} key - The cache key (see `getCacheKey`).
+ * @param {CacheEntry} entry - The response to store.
+ * @param {CacheSettings} settings - The effective cache settings.
+ */
+export async function writeCachedResponse(
+	key: string,
+	entry: CacheEntry,
+	settings: CacheSettings,
+) {
+	try {
+		await mkdir(getCacheDirectory(), { recursive: true });
+		await writeFile(getEntryPath(key), JSON.stringify(entry));
+		await pruneCache(settings);
+	} catch {
+		// A read-only or full disk must not fail the generation
+	}
+}
+
+/**
+ * Removes expired responses, then the oldest ones until the cache fits its size limit.
+ * @param {CacheSettings} settings - The effective cache settings.
+ * @returns {Promise<number>} - How many responses were removed.
+ */
+export async function pruneCache(settings: CacheSettings): Promise<number> {
+	const files = (await listCacheFiles()).sort(
+		(a, b) => a.modified - b.modified,
+	);
+	const maxSize = settings.maxSizeMb * 1024 * 1024;
+	let size = files.reduce((total, file) => total + file.size, 0);
+	let removed = 0;
+	for (const file of files) {
+		if (size <= maxSize && !isExpired(file.modified, settings)) continue;
+		await unlink(file.path).catch(() => {});
+		size -= file.size;
+		removed++;
+	}
+	return removed;
+}
+
+/**
+ * Deletes every cached response.
+ * @returns {Promise<number>} - How many responses were removed.
+ */
+export async function clearCache(): Promise<number> {
+	const files = await listCacheFiles();
+	await rm(getCacheDirectory(), { recursive: true, force: true });
+	return files.length;
+}
+
+/**
+ * Summarizes the contents of the cache directory.
+ * @param {CacheSettings} settings - The effective cache settings (for counting expired entries).
+ * @returns {Promise<CacheStats>} - Entry count, size and age range.
+ */
+export async function getCacheStats(
+	settings: CacheSettings,
+): Promise<CacheStats> {
+	const files = await listCacheFiles();
+	const times = files.map((file) => file.modified);
+	return {
+		directory: getCacheDirectory(),
+		entries: files.length,
+		size: files.reduce((total, file) => total + file.size, 0),
+		expired: files.filter((file) => isExpired(file.modified, settings)).length,
+		oldest: times.length > 0 ? new Date(Math.min(...times)) : null,
+		newest: times.length > 0 ? new Date(Math.max(...times)) : null,
+	};
+}
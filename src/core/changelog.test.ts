@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CommandError } from "../utils/errors";
+import {
+	type ChangelogCommit,
+	groupCommits,
+	prependToChangelog,
+} from "./changelog";
+
+const commit = (
+	subject: string,
+	overrides: Partial<ChangelogCommit> = {},
+): ChangelogCommit => ({
+	hash: subject,
+	subject,
+	body: "",
+	files: [],
+	pullRequest: null,
+	...overrides,
+});
+
+const names = (groups: { name: string; commits: ChangelogCommit[] }[]) =>
+	groups.map((group) => [group.name, group.commits.map((c) => c.subject)]);
+
+describe("groupCommits", () => {
+	test("groups by type with breaking changes first and unknown types last", () => {
+		const commits = [
+			commit("chore: bump deps"),
+			commit("Tidy up"),
+			commit("fix(api): handle 404"),
+			commit("feat!: drop v1 endpoints"),
+			commit("feat: add export", { body: "BREAKING CHANGE: new format" }),
+			commit("feat: add import"),
+		];
+		expect(names(groupCommits(commits, "type"))).toEqual([
+			["Breaking Changes", ["feat!: drop v1 endpoints", "feat: add export"]],
+			["Features", ["feat: add import"]],
+			["Bug Fixes", ["fix(api): handle 404"]],
+			["Chores", ["chore: bump deps"]],
+			["Other Changes", ["Tidy up"]],
+		]);
+	});
+
+	test("groups by pull request, taking merge titles from the body", () => {
+		const commits = [
+			commit("Merge pull request #42 from acme/export", {
+				body: "Add CSV export",
+				pullRequest: "#42",
+			}),
+			commit("fix: typo"),
+			commit("feat: import (#43)", { pullRequest: "#43" }),
+		];
+		expect(names(groupCommits(commits, "pr")).map(([name]) => name)).toEqual([
+			"#42 Add CSV export",
+			"Direct commits",
+			"#43 feat: import (#43)",
+		]);
+	});
+
+	test("groups by top-level directory, listing a commit under each", () => {
+		const commits = [
+			commit("a", { files: ["src/a.ts", "docs/a.md", "src/b.ts"] }),
+			commit("b", { files: ["README.md"] }),
+			commit("c"),
+		];
+		expect(names(groupCommits(commits, "path"))).toEqual([
+			["src", ["a"]],
+			["docs", ["a"]],
+			["(root)", ["b", "c"]],
+		]);
+	});
+});
+
+describe("prependToChangelog", () => {
+	let dir: string;
+	let path: string;
+	const entry = "## [1.1.0] - 2026-10-19\n\n### Added\n\n- Export";
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "gitlift-changelog-"));
+		path = join(dir, "CHANGELOG.md");
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	test("creates the file with the Keep a Changelog header", async () => {
+		await prependToChangelog(path, entry);
+		const content = await readFile(path, "utf8");
+		expect(content).toStartWith("# Changelog\n");
+		expect(content).toEndWith(`\n${entry}\n`);
+	});
+
+	test("inserts below Unreleased and above the newest release", async () => {
+		await writeFile(
+			path,
+			"# Changelog\n\n## [Unreleased]\n\n- Pending\n\n## [1.0.0] - 2026-01-01\n\n- First\n",
+		);
+		await prependToChangelog(path, entry);
+		expect(await readFile(path, "utf8")).toBe(
+			`# Changelog\n\n## [Unreleased]\n\n- Pending\n\n${entry}\n\n## [1.0.0] - 2026-01-01\n\n- First\n`,
+		);
+	});
+
+	test("refuses a version that already has an entry", async () => {
+		await writeFile(path, "# Changelog\n\n## [1.1.0] - 2026-10-01\n");
+		await expect(prependToChangelog(path, entry)).rejects.toBeInstanceOf(
+			CommandError,
+		);
+	});
+});
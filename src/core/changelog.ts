@@ -0,0 +1,358 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { $ } from "bun";
+import ora from "ora";
+import { theme } from "../ui/theme";
+import { CommandError, ExitCode, GitError } from "../utils/errors";
+import { parseConventionalTitle } from "./commit-convention";
+import { estimateTokens } from "./diff";
+
+/**
+ * Ways commits can be grouped before the AI writes release notes from them.
+ */
+export const CHANGELOG_GROUPINGS = ["type", "pr", "path"] as const;
+
+export type ChangelogGrouping = (typeof CHANGELOG_GROUPINGS)[number];
+
+/**
+ * Section headings defined by Keep a Changelog (https://keepachangelog.com).
+ */
+export const CHANGELOG_CATEGORIES = [
+	"Added",
+	"Changed",
+	"Deprecated",
+	"Removed",
+	"Fixed",
+	"Security",
+] as const;
+
+export type ChangelogCategory = (typeof CHANGELOG_CATEGORIES)[number];
+
+/**
+ * Release notes written by the AI, sorted into Keep a Changelog categories.
+ */
+export interface ReleaseNotes {
+	summary: string;
+	sections: { category: ChangelogCategory; entries: string[] }[];
+}
+
+/**
+ * A commit in the release range.
+ */
+export interface ChangelogCommit {
+	hash: string;
+	subject: string;
+	body: string;
+	files: string[];
+	/** The pull/merge request the commit came from (e.g., "#42" or "!7"), when known. */
+	pullRequest: string | null;
+}
+
+/**
+ * Commits sharing a type, pull request or top-level path.
+ */
+export interface CommitGroup {
+	name: string;
+	commits: ChangelogCommit[];
+}
+
+const TYPE_HEADINGS: Record<string, string> = {
+	feat: "Features",
+	fix: "Bug Fixes",
+	perf: "Performance",
+	refactor: "Refactoring",
+	revert: "Reverts",
+	docs: "Documentation",
+	style: "Style",
+	test: "Tests",
+	build: "Build System",
+	ci: "Continuous Integration",
+	chore: "Chores",
+};
+
+const BREAKING_HEADING = "Breaking Changes";
+const OTHER_HEADING = "Other Changes";
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).
+`;
+
+/**
+ * Finds the most recent tag before a ref, to use as the start of the release range.
+ * @param {string} ref - The end of the range; its own tag is skipped.
+ * @returns {Promise<string | null>} - The previous tag, or null if there is none.
+ */
+export async function getPreviousTag(ref: string): Promise<string | null> {
+	const result = await $`git describe --tags --abbrev=0 ${`${ref}^`}`
+		.nothrow()
+		.quiet();
+	if (result.exitCode !== 0) return null;
+	return result.stdout.toString().trim() || null;
+}
+
+/**
+ * Checks whether a ref names an existing tag.
+ * @param {string} ref - The ref to check.
+ * @returns {Promise<boolean>} - True if `refs/tags/<ref>` exists.
+ */
+export async function isTag(ref: string): Promise<boolean> {
+	const result = await $`git rev-parse --verify --quiet ${`refs/tags/${ref}`}`
+		.nothrow()
+		.quiet();
+	return result.exitCode === 0;
+}
+
+function findPullRequest(subject: string, body: string): string | null {
+	// GitHub merge commits, squash merges ("title (#42)") and GitLab merge commits
+	const merged = subject.match(/^Merge pull request #(\d+)/);
+	if (merged) return `#${merged[1]}`;
+	const squashed = subject.match(/\(#(\d+)\)$/);
+	if (squashed) return `#${squashed[1]}`;
+	const gitlab = body.match(/See merge request [^\s!]+!(\d+)/);
+	if (gitlab) return `!${gitlab[1]}`;
+	return null;
+}
+
+/**
+ * Lists the commits between two refs with their changed files.
+ * For `pr` grouping only first-parent commits are read, so each merged pull request appears once
+ * as its merge commit; otherwise merge commits are skipped.
+ * @param {string | null} from - The start of the range (exclusive), or null for the whole history.
+ * @param {string} to - The end of the range (inclusive).
+ * @param {boolean} [firstParent=false] - Follow only the first parent of merge commits.
+ * @returns {Promise<ChangelogCommit[]>} - The commits, newest first.
+ * @throws {GitError} If a ref does not exist.
+ */
+export async function getCommitsInRange(
+	from: string | null,
+	to: string,
+	firstParent = false,
+): Promise<ChangelogCommit[]> {
+	const spinner = ora(
+		`Reading commits ${from ? `${from}..${to}` : `up to ${to}`}...`,
+	).start();
+	const range = from ? `${from}..${to}` : to;
+	const mode = firstParent ? "--first-parent" : "--no-merges";
+	const result =
+		await $`git log ${range} ${mode} --name-only --pretty=format:%x1e%H%x1f%s%x1f%b%x1f`
+			.nothrow()
+			.quiet();
+	if (result.exitCode !== 0) {
+		spinner.fail(theme.error("Failed to read the commit range."));
+		throw new GitError(
+			`Could not read commits for '${range}': ${result.stderr.toString().trim()}`,
+		);
+	}
+
+	const commits: ChangelogCommit[] = [];
+	for (const record of result.stdout.toString().split("\x1e")) {
+		const [hash, subject = "", body = "", files = ""] = record.split("\x1f");
+		if (!hash?.trim()) continue;
+		commits.push({
+			hash: hash.trim(),
+			subject: subject.trim(),
+			body: body.trim(),
+			files: files.split("\n").filter((file) => file.trim()),
+			pullRequest: findPullRequest(subject.trim(), body),
+		});
+	}
+	spinner.succeed(theme.success(`Found ${commits.length} commit(s).`));
+	return commits;
+}
+
+function addToGroup(
+	groups: Map<string, CommitGroup>,
+	name: string,
+	commit: ChangelogCommit,
+) {
+	const group = groups.get(name) ?? { name, commits: [] };
+	group.commits.push(commit);
+	groups.set(name, group);
+}
+
+/**
+ * Groups commits by Conventional Commits type, by pull request, or by top-level directory.
+ * @param {ChangelogCommit[]} commits - The commits in the release range.
+ * @param {ChangelogGrouping} by - How to group them.
+ * @returns {CommitGroup[]} - Non-empty groups; type groups follow a fixed order with breaking changes first.
+ */
+export function groupCommits(
+	commits: ChangelogCommit[],
+	by: ChangelogGrouping,
+): CommitGroup[] {
+	const groups = new Map<string, CommitGroup>();
+
+	for (const commit of commits) {
+		if (by === "type") {
+			const parsed = parseConventionalTitle(commit.subject);
+			if (parsed?.breaking || /^BREAKING[ -]CHANGE:/m.test(commit.body)) {
+				addToGroup(groups, BREAKING_HEADING, commit);
+			} else {
+				addToGroup(
+					groups,
+					(parsed && TYPE_HEADINGS[parsed.type]) ?? OTHER_HEADING,
+					commit,
+				);
+			}
+		} else if (by === "pr") {
+			if (commit.pullRequest) {
+				// Merge commits carry the PR title in the body
+				const title = commit.subject.startsWith("Merge pull request")
+					? commit.body.split("\n")[0] || commit.subject
+					: commit.subject;
+				addToGroup(groups, `${commit.pullRequest} ${title}`, commit);
+			} else {
+				addToGroup(groups, "Direct commits", commit);
+			}
+		} else {
+			const directories = new Set(
+				commit.files.map((file) =>
+					file.includes("/") ? file.slice(0, file.indexOf("/")) : "(root)",
+				),
+			);
+			for (const directory of directories.size > 0 ? directories : ["(root)"]) {
+				addToGroup(groups, directory, commit);
+			}
+		}
+	}
+
+	if (by !== "type") return [...groups.values()];
+	const order = [
+		BREAKING_HEADING,
+		...Object.values(TYPE_HEADINGS),
+		OTHER_HEADING,
+	];
+	return [...groups.values()].sort(
+		(a, b) => order.indexOf(a.name) - order.indexOf(b.name),
+	);
+}
+
+/**
+ * Renders commit groups for the release notes prompt. Commit bodies are left out if
+ * the list would exceed the token budget, and trailing commits are dropped as a last resort.
+ * @param {CommitGroup[]} groups - The grouped commits.
+ * @param {number} maxTokens - The token budget (the `maxDiffTokens` setting).
+ * @returns {string} - The prompt section.
+ */
+export function formatCommitGroups(
+	groups: CommitGroup[],
+	maxTokens: number,
+): string {
+	const render = (withBodies: boolean) =>
+		groups
+			.map((group) => {
+				const lines = group.commits.map((commit) => {
+					const line = `- ${commit.hash.slice(0, 7)} ${commit.subject}`;
+					if (!withBodies || !commit.body) return line;
+					return `${line}\n${commit.body.replace(/^/gm, "  ")}`;
+				});
+				return `### ${group.name}\n${lines.join("\n")}`;
+			})
+			.join("\n\n");
+
+	const full = render(true);
+	if (estimateTokens(full) <= maxTokens) return full;
+
+	const subjects = render(false);
+	if (estimateTokens(subjects) <= maxTokens) return subjects;
+
+	const lines = subjects.split("\n");
+	const kept: string[] = [];
+	for (const line of lines) {
+		if (estimateTokens([...kept, line].join("\n")) > maxTokens) break;
+		kept.push(line);
+	}
+	return `${kept.join("\n")}\n\n(${lines.length - kept.length} more lines omitted to fit the token budget)`;
+}
+
+function renderSections(notes: ReleaseNotes): string {
+	return CHANGELOG_CATEGORIES.flatMap((category) => {
+		const entries = notes.sections
+			.filter((section) => section.category === category)
+			.flatMap((section) => section.entries);
+		if (entries.length === 0) return [];
+		return [`### ${category}\n\n${entries.map((e) => `- ${e}`).join("\n")}`];
+	}).join("\n\n");
+}
+
+/**
+ * Renders release notes as a Keep a Changelog version entry.
+ * @param {ReleaseNotes} notes - The AI-written notes.
+ * @param {string} version - The version heading (e.g., "1.2.0" or "Unreleased").
+ * @param {string} date - The release date (YYYY-MM-DD); omitted for "Unreleased".
+ * @returns {string} - The Markdown entry, starting with its `## [version]` heading.
+ */
+export function renderChangelogEntry(
+	notes: ReleaseNotes,
+	version: string,
+	date: string,
+): string {
+	const heading =
+		version === "Unreleased"
+			? "## [Unreleased]"
+			: `## [${version.replace(/^v(?=\d)/, "")}] - ${date}`;
+	return [heading, notes.summary.trim(), renderSections(notes)]
+		.filter(Boolean)
+		.join("\n\n");
+}
+
+/**
+ * Renders release notes as a GitHub release body.
+ * @param {ReleaseNotes} notes - The AI-written notes.
+ * @param {string | null} from - The previous tag, for the "Full Changelog" line.
+ * @param {string} to - The released ref.
+ * @returns {string} - The Markdown body.
+ */
+export function renderReleaseBody(
+	notes: ReleaseNotes,
+	from: string | null,
+	to: string,
+): string {
+	return [
+		notes.summary.trim(),
+		renderSections(notes),
+		from ? `**Full Changelog**: \`${from}...${to}\`` : "",
+	]
+		.filter(Boolean)
+		.join("\n\n");
+}
+
+/**
+ * Adds a version entry to a changelog file, above the newest released version and below
+ * any `[Unreleased]` section. Creates the file with the Keep a Changelog header if needed.
+ * @param {string} path - The changelog file (usually CHANGELOG.md).
+ * @param {string} entry - The entry from `renderChangelogEntry`.
+ * @throws {CommandError} If the file already has an entry with the same heading.
+ */
+export async function prependToChangelog(path: string, entry: string) {
+	let existing: string;
+	try {
+		existing = await readFile(path, "utf8");
+	} catch {
+		await writeFile(path, `${CHANGELOG_HEADER}\n${entry}\n`);
+		return;
+	}
+
+	const heading = entry.split("\n")[0] ?? "";
+	const versionHeading = heading.replace(/ - .*$/, "");
+	const lines = existing.split("\n");
+	if (lines.some((line) => line.replace(/ - .*$/, "") === versionHeading)) {
+		throw new CommandError(
+			`${path} already has a '${versionHeading}' entry.`,
+			ExitCode.Usage,
+		);
+	}
+
+	const index = lines.findIndex(
+		(line) => line.startsWith("## ") && !/^## \[?Unreleased\]?/i.test(line),
+	);
+	if (index === -1) {
+		await writeFile(path, `${existing.trimEnd()}\n\n${entry}\n`);
+		return;
+	}
+	const before = lines.slice(0, index).join("\n").trimEnd();
+	const after = lines.slice(index).join("\n");
+	await writeFile(path, `${before}\n\n${entry}\n\n${after}`);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigError } from "../utils/errors";
+import { getCommitConvention, validateCommitTitle } from "./commit-convention";
+
+describe("validateCommitTitle", () => {
+	const conventional = getCommitConvention("conventional");
+
+	test("accepts a conventional title", () => {
+		expect(
+			validateCommitTitle("feat(login): add remember me", conventional),
+		).toEqual([]);
+		expect(validateCommitTitle("fix!: drop node 16", conventional)).toEqual([]);
+	});
+
+	test("reports an empty title on its own", () => {
+		expect(validateCommitTitle("  ", conventional)).toEqual([
+			"Title is empty.",
+		]);
+	});
+
+	test("reports length, trailing period and format", () => {
+		expect(validateCommitTitle(`Add ${"x".repeat(80)}.`, conventional)).toEqual(
+			[
+				"Title is 85 characters long (max 72).",
+				"Title must not end with a period.",
+				"Title does not follow the 'conventional' convention.",
+			],
+		);
+	});
+
+	test("rejects unknown types and scopes", () => {
+		expect(validateCommitTitle("feature: add x", conventional)).toEqual([
+			`Type 'feature' is not allowed (allowed: ${conventional.types?.join(", ")}).`,
+		]);
+		const scoped = { ...conventional, scopes: ["api", "ui"] };
+		expect(validateCommitTitle("fix(db): retry", scoped)).toEqual([
+			"Scope 'db' is not allowed (allowed: api, ui).",
+		]);
+	});
+
+	test("checks custom patterns and rejects invalid ones", () => {
+		const custom = getCommitConvention({ pattern: "^[A-Z]+-\\d+ " });
+		expect(validateCommitTitle("ENG-1 Add export", custom)).toEqual([]);
+		expect(validateCommitTitle("Add export", custom)).toEqual([
+			"Title does not follow the 'custom' convention.",
+		]);
+		expect(() => getCommitConvention({ pattern: "(" })).toThrow(ConfigError);
+	});
+});
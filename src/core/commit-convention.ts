@@ -0,0 +1,318 @@
+import { dirname } from "node:path";
+import { type CosmiconfigResult, cosmiconfig } from "cosmiconfig";
+import { theme } from "../ui/theme";
+import { ConfigError } from "../utils/errors";
+import { getRepoRoot } from "./git";
+
+/**
+ * Built-in commit convention profiles. `auto` uses the repository's commitlint
+ * config when one exists and falls back to `conventional` otherwise.
+ */
+export const CONVENTION_NAMES = [
+	"auto",
+	"conventional",
+	"angular",
+	"gitmoji",
+	"none",
+] as const;
+
+export type ConventionName = (typeof CONVENTION_NAMES)[number];
+
+/**
+ * A user-defined convention: commit titles must match `pattern`.
+ */
+export interface CustomConventionSetting {
+	pattern: string;
+	description?: string;
+}
+
+export type CommitConventionSetting = ConventionName | CustomConventionSetting;
+
+/**
+ * The rules a commit title is generated against and validated with.
+ */
+export interface CommitConvention {
+	/** Human-readable profile name, shown in messages. */
+	name: string;
+	/** Instructions for the model describing the expected title format. */
+	instructions: string;
+	/** Titles must match this pattern, when set. */
+	pattern?: RegExp;
+	/** Allowed commit types (first capture group of `pattern`), when restricted. */
+	types?: string[];
+	/** Allowed scopes (second capture group of `pattern`), when restricted. */
+	scopes?: string[];
+	maxTitleLength: number;
+}
+
+const CONVENTIONAL_TYPES = [
+	"feat",
+	"fix",
+	"docs",
+	"style",
+	"refactor",
+	"perf",
+	"test",
+	"build",
+	"ci",
+	"chore",
+	"revert",
+];
+
+const ANGULAR_TYPES = [
+	"build",
+	"ci",
+	"docs",
+	"feat",
+	"fix",
+	"perf",
+	"refactor",
+	"test",
+];
+
+// "type(scope)!: subject" with the type and scope captured for validation
+const CONVENTIONAL_PATTERN = /^(\w+)(?:\(([^()]+)\))?!?: \S.*$/;
+
+const DEFAULT_MAX_TITLE_LENGTH = 72;
+
+/**
+ * The parts of a Conventional Commits title.
+ */
+export interface ConventionalTitle {
+	type: string;
+	scope?: string;
+	breaking: boolean;
+	subject: string;
+}
+
+/**
+ * Splits a `type(scope)!: subject` title into its parts.
+ * @param {string} title - The commit title.
+ * @returns {ConventionalTitle | null} - The parsed title, or null if it does not follow the format.
+ */
+export function parseConventionalTitle(
+	title: string,
+): ConventionalTitle | null {
+	const match = title.match(/^(\w+)(?:\(([^()]+)\))?(!?): (\S.*)$/);
+	if (!match?.[1] || !match[4]) return null;
+	return {
+		type: match[1].toLowerCase(),
+		scope: match[2],
+		breaking: match[3] === "!",
+		subject: match[4],
+	};
+}
+
+function conventionalProfile(
+	name: string,
+	types: string[],
+	scopes?: string[],
+	maxTitleLength = DEFAULT_MAX_TITLE_LENGTH,
+): CommitConvention {
+	const scopeHint = scopes?.length
+		? ` The scope, if used, must be one of: ${scopes.join(", ")}.`
+		: "";
+	return {
+		name,
+		instructions: `The title must follow the Conventional Commits format 'type(optional-scope): subject' (e.g., 'feat: add new user authentication', 'fix(login): resolve issue with login button'). The type must be one of: ${types.join(", ")}.${scopeHint} Use an imperative, lower-case subject.`,
+		pattern: CONVENTIONAL_PATTERN,
+		types,
+		scopes,
+		maxTitleLength,
+	};
+}
+
+function compileCustomPattern(pattern: string): RegExp {
+	try {
+		return new RegExp(pattern, "u");
+	} catch (error: unknown) {
+		throw new ConfigError(
+			`Invalid commitConvention.pattern in config: ${error instanceof Error ? error.message : error}`,
+			{ cause: error },
+		);
+	}
+}
+
+/**
+ * Builds the convention for a built-in profile or a custom pattern.
+ * `auto` is treated as `conventional`; use `resolveCommitConvention` to honor commitlint configs.
+ * @param {CommitConventionSetting} setting - The `commitConvention` config value.
+ * @returns {CommitConvention} - The resolved convention.
+ * @throws {ConfigError} If the custom pattern is not a valid regular expression.
+ */
+export function getCommitConvention(
+	setting: CommitConventionSetting,
+): CommitConvention {
+	if (typeof setting === "object") {
+		return {
+			name: "custom",
+			instructions: `The title must match the regular expression /${setting.pattern}/.${setting.description ? ` ${setting.description}` : ""}`,
+			pattern: compileCustomPattern(setting.pattern),
+			maxTitleLength: DEFAULT_MAX_TITLE_LENGTH,
+		};
+	}
+
+	switch (setting) {
+		case "auto":
+		case "conventional":
+			return conventionalProfile("conventional", CONVENTIONAL_TYPES);
+		case "angular":
+			return {
+				...conventionalProfile("angular", ANGULAR_TYPES),
+				instructions: `The title must follow the Angular commit format 'type(scope): subject' (e.g., 'feat(router): add lazy route guards'). The type must be one of: ${ANGULAR_TYPES.join(", ")}. Include a scope naming the affected package or area when possible. Use an imperative, lower-case subject without a trailing period.`,
+			};
+		case "gitmoji":
+			return {
+				name: "gitmoji",
+				instructions:
+					"The title must start with a single gitmoji that matches the intent of the change, either as an emoji or as its shortcode (e.g., '✨ add user authentication', ':bug: fix login button'), followed by a space and an imperative subject.",
+				pattern: /^(?:\p{Extended_Pictographic}️?|:[a-z0-9_+-]+:) \S.*$/u,
+				maxTitleLength: DEFAULT_MAX_TITLE_LENGTH,
+			};
+		case "none":
+			return {
+				name: "none",
+				instructions:
+					"The title should be a plain, imperative summary of the change (e.g., 'Add user authentication').",
+				maxTitleLength: DEFAULT_MAX_TITLE_LENGTH,
+			};
+	}
+}
+
+type CommitlintRule = [number, string?, unknown?];
+
+function getEnabledRuleValue(
+	rules: Record<string, CommitlintRule | undefined>,
+	name: string,
+): unknown {
+	const rule = rules[name];
+	if (!Array.isArray(rule) || rule[0] === 0 || rule[1] === "never") {
+		return undefined;
+	}
+	return rule[2];
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return (
+		Array.isArray(value) && value.every((item) => typeof item === "string")
+	);
+}
+
+async function findCommitlintConfig(): Promise<CosmiconfigResult> {
+	const explorer = cosmiconfig("commitlint", { searchStrategy: "none" });
+	const repoRoot = await getRepoRoot();
+	let dir = process.cwd();
+	while (true) {
+		const result = await explorer.search(dir);
+		if (result) return result;
+		const parent = dirname(dir);
+		if (!repoRoot || dir === repoRoot || parent === dir) return null;
+		dir = parent;
+	}
+}
+
+/**
+ * Looks for a commitlint configuration (`commitlint.config.*`, `.commitlintrc*` or a
+ * `commitlint` key in package.json) and derives a convention from its rules.
+ * Only `type-enum`, `scope-enum` and `header-max-length` are read; shared configs in
+ * `extends` are not resolved, so the Conventional Commits types are assumed when absent.
+ * The search starts in the working directory and goes up to the repository root, so running
+ * from a subdirectory still finds the root config.
+ * @returns {Promise<CommitConvention | null>} - The derived convention, or null if none was found.
+ */
+export async function detectCommitlintConvention(): Promise<CommitConvention | null> {
+	try {
+		const result = await findCommitlintConfig();
+		if (!result || result.isEmpty) return null;
+
+		const rules = (result.config?.rules ?? {}) as Record<
+			string,
+			CommitlintRule | undefined
+		>;
+		const types = getEnabledRuleValue(rules, "type-enum");
+		const scopes = getEnabledRuleValue(rules, "scope-enum");
+		const maxLength = getEnabledRuleValue(rules, "header-max-length");
+
+		console.log(
+			theme.dim(`Using commit rules from commitlint: ${result.filepath}`),
+		);
+		return conventionalProfile(
+			"commitlint",
+			isStringArray(types) && types.length > 0 ? types : CONVENTIONAL_TYPES,
+			isStringArray(scopes) && scopes.length > 0 ? scopes : undefined,
+			typeof maxLength === "number" ? maxLength : DEFAULT_MAX_TITLE_LENGTH,
+		);
+	} catch (error: unknown) {
+		console.warn(
+			theme.warning(
+				`Could not read commitlint configuration: ${error instanceof Error ? error.message : error}`,
+			),
+		);
+		return null;
+	}
+}
+
+/**
+ * Resolves the `commitConvention` setting, detecting commitlint configs for `auto`.
+ * @param {CommitConventionSetting} setting - The `commitConvention` config value.
+ * @returns {Promise<CommitConvention>} - The convention to generate and validate with.
+ */
+export async function resolveCommitConvention(
+	setting: CommitConventionSetting,
+): Promise<CommitConvention> {
+	if (setting === "auto") {
+		return (await detectCommitlintConvention()) ?? getCommitConvention("auto");
+	}
+	return getCommitConvention(setting);
+}
+
+/**
+ * Checks a commit title against a convention.
+ * @param {string} title - The commit title (first line of the message).
+ * @param {CommitConvention} convention - The convention to enforce.
+ * @returns {string[]} - Human-readable violations; empty when the title is valid.
+ */
+export function validateCommitTitle(
+	title: string,
+	convention: CommitConvention,
+): string[] {
+	const violations: string[] = [];
+
+	if (!title.trim()) {
+		return ["Title is empty."];
+	}
+	if (title.includes("\n")) {
+		violations.push("Title must be a single line.");
+	}
+	if (title.length > convention.maxTitleLength) {
+		violations.push(
+			`Title is ${title.length} characters long (max ${convention.maxTitleLength}).`,
+		);
+	}
+	if (title.trimEnd().endsWith(".")) {
+		violations.push("Title must not end with a period.");
+	}
+
+	if (convention.pattern) {
+		const match = title.match(convention.pattern);
+		if (!match) {
+			violations.push(
+				`Title does not follow the '${convention.name}' convention.`,
+			);
+		} else {
+			const [, type, scope] = match;
+			if (convention.types && type && !convention.types.includes(type)) {
+				violations.push(
+					`Type '${type}' is not allowed (allowed: ${convention.types.join(", ")}).`,
+				);
+			}
+			if (convention.scopes && scope && !convention.scopes.includes(scope)) {
+				violations.push(
+					`Scope '${scope}' is not allowed (allowed: ${convention.scopes.join(", ")}).`,
+				);
+			}
+		}
+	}
+
+	return violations;
+}
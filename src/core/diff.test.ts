@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { budgetDiff, estimateTokens, parseDiff } from "./diff";
+
+function fileDiff(path: string, body: string): string {
+	return `diff --git a/${path} b/${path}\nindex 1111111..2222222 100644\n--- a/${path}\n+++ b/${path}\n@@ -1 +1 @@\n-old\n+${body}\n`;
+}
+
+describe("parseDiff", () => {
+	test("splits files and counts changed lines", () => {
+		const files = parseDiff(fileDiff("a.ts", "x") + fileDiff("dir/b.ts", "y"));
+		expect(
+			files.map((file) => [file.path, file.additions, file.deletions]),
+		).toEqual([
+			["a.ts", 1, 1],
+			["dir/b.ts", 1, 1],
+		]);
+	});
+
+	test("reads the new path from the +++ line, unquoting C-style paths", () => {
+		const [quoted, spaced] = parseDiff(
+			'diff --git "a/caf\\303\\251.env" "b/caf\\303\\251.env"\nindex 1..2 100644\n--- "a/caf\\303\\251.env"\n+++ "b/caf\\303\\251.env"\n@@ -1 +1 @@\n-a\n+b\n' +
+				"diff --git a/x b/y.txt b/x b/y.txt\nindex 1..2 100644\n--- a/x b/y.txt\t\n+++ b/x b/y.txt\t\n@@ -1 +1 @@\n-a\n+b\n",
+		);
+		expect(quoted?.path).toBe("café.env");
+		expect(spaced?.path).toBe("x b/y.txt");
+	});
+
+	test("takes the path of deleted, renamed and binary files from the other headers", () => {
+		const files = parseDiff(
+			"diff --git a/gone.ts b/gone.ts\ndeleted file mode 100644\n--- a/gone.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-a\n" +
+				"diff --git a/old.ts b/new.ts\nsimilarity index 100%\nrename from old.ts\nrename to new.ts\n" +
+				"diff --git a/x b/y.png b/x b/y.png\nindex 1..2 100644\nBinary files a/x b/y.png and b/x b/y.png differ\n",
+		);
+		expect(files.map((file) => file.path)).toEqual([
+			"gone.ts",
+			"new.ts",
+			"x b/y.png",
+		]);
+	});
+
+	test("counts hunk lines that start with +++ or ---", () => {
+		const [file] = parseDiff(fileDiff("loop.c", "++i;"));
+		expect([file?.additions, file?.deletions]).toEqual([1, 1]);
+	});
+
+	test("detects binary files", () => {
+		const [file] = parseDiff(
+			"diff --git a/logo.png b/logo.png\nindex 1..2 100644\nBinary files a/logo.png and b/logo.png differ\n",
+		);
+		expect(file?.binary).toBe(true);
+	});
+});
+
+describe("budgetDiff", () => {
+	test("keeps a diff that fits the budget as it is", () => {
+		const diff = fileDiff("a.ts", "x");
+		const result = budgetDiff(diff, { maxDiffTokens: 1000 });
+		expect(result).toEqual({
+			content: diff,
+			chunks: null,
+			omitted: [],
+			estimatedTokens: estimateTokens(diff),
+		});
+	});
+
+	test("omits excluded files, lockfiles and generated files", () => {
+		const diff =
+			fileDiff("src/a.ts", "x") +
+			fileDiff("bun.lock", "x") +
+			fileDiff("dist/app.min.js", "x") +
+			fileDiff("docs/big.md", "x");
+		const result = budgetDiff(diff, {
+			maxDiffTokens: 1000,
+			isExcluded: (path) => path.startsWith("docs/"),
+		});
+		expect(result.content).toBe(fileDiff("src/a.ts", "x"));
+		expect(result.omitted.map((file) => [file.path, file.reason])).toEqual([
+			["bun.lock", "lockfile"],
+			["dist/app.min.js", "generated"],
+			["docs/big.md", "excluded"],
+		]);
+	});
+
+	test("groups an oversized diff into chunks that fit the budget", () => {
+		const files = ["a", "b", "c"].map((name) =>
+			fileDiff(`${name}.ts`, name.repeat(100)),
+		);
+		const maxDiffTokens = estimateTokens(files[0] ?? "") + 5;
+		const result = budgetDiff(files.join(""), { maxDiffTokens });
+		expect(result.chunks).toEqual(files);
+		for (const chunk of result.chunks ?? []) {
+			expect(estimateTokens(chunk)).toBeLessThanOrEqual(maxDiffTokens);
+		}
+		expect(result.omitted).toEqual([]);
+	});
+
+	test("truncates files larger than a whole chunk", () => {
+		const huge = fileDiff("huge.ts", "z".repeat(2000));
+		const result = budgetDiff(huge + fileDiff("small.ts", "x"), {
+			maxDiffTokens: 100,
+		});
+		expect(result.chunks?.[0]).toContain("[... diff truncated ...]");
+		expect(result.omitted).toEqual([
+			{ path: "huge.ts", reason: "truncated", additions: 1, deletions: 1 },
+		]);
+	});
+});
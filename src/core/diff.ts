@@ -0,0 +1,271 @@
+/**
+ * A single file section of a unified `git diff` output.
+ */
+export interface DiffFile {
+	path: string;
+	content: string;
+	additions: number;
+	deletions: number;
+	binary: boolean;
+}
+
+export type OmissionReason =
+	| "excluded"
+	| "lockfile"
+	| "generated"
+	| "binary"
+	| "truncated";
+
+/**
+ * A file that changed but whose diff was left out of (or cut short in) the prompt.
+ */
+export interface OmittedFile {
+	path: string;
+	reason: OmissionReason;
+	additions: number;
+	deletions: number;
+}
+
+/**
+ * The diff as it will be sent to the model, plus a report of what was left out.
+ */
+export interface PreparedDiff {
+	/** Raw diff text, or per-file summaries when `summarized` is true. */
+	content: string;
+	summarized: boolean;
+	omitted: OmittedFile[];
+	estimatedTokens: number;
+}
+
+/**
+ * Controls which parts of a diff reach the prompt.
+ */
+export interface DiffBudgetOptions {
+	/** The token budget for the diff portion of a prompt. */
+	maxDiffTokens: number;
+	/** Returns true for paths excluded via `.gitliftignore` or the `exclude` config. */
+	isExcluded?: (path: string) => boolean;
+}
+
+/**
+ * Result of fitting a diff into a token budget.
+ */
+export interface BudgetedDiff {
+	/** The diff of all kept files, joined back together. */
+	content: string;
+	/** Diff chunks that each fit the budget; only set when `content` does not. */
+	chunks: string[] | null;
+	omitted: OmittedFile[];
+	estimatedTokens: number;
+}
+
+const LOCKFILE_PATTERN =
+	/(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|Cargo\.lock|Gemfile\.lock|poetry\.lock|uv\.lock|Pipfile\.lock|composer\.lock|go\.sum|flake\.lock)$/;
+
+const GENERATED_PATTERNS = [
+	/\.min\.(js|css)$/,
+	/\.map$/,
+	/\.snap$/,
+	/(^|\/)__snapshots__\//,
+	/\.generated\.[^/]+$/,
+	/\.pb\.go$/,
+	/_pb2\.py$/,
+];
+
+// Rough average for English text and code; good enough to stay under context limits
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the number of tokens a piece of text will use in a prompt.
+ * @param {string} text - The text to measure.
+ * @returns {number} - The estimated token count.
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+const C_ESCAPES: Record<string, number> = {
+	a: 7,
+	b: 8,
+	t: 9,
+	n: 10,
+	v: 11,
+	f: 12,
+	r: 13,
+	'"': 34,
+	"\\": 92,
+};
+
+/**
+ * Undoes the C-style quoting Git applies to paths with special or non-ASCII characters
+ * (`"caf\303\251.txt"` with `core.quotePath`). Unquoted paths are returned as they are.
+ */
+function unquoteGitPath(path: string): string {
+	if (!/^".*"$/.test(path)) return path;
+	const bytes: number[] = [];
+	const inner = path.slice(1, -1);
+	for (let index = 0; index < inner.length; index++) {
+		const char = inner[index] ?? "";
+		if (char !== "\\") {
+			bytes.push(...Buffer.from(char));
+			continue;
+		}
+		const octal = inner.slice(index + 1, index + 4);
+		if (/^[0-3][0-7]{2}$/.test(octal)) {
+			bytes.push(Number.parseInt(octal, 8));
+			index += 3;
+		} else {
+			const escaped = inner[index + 1] ?? "";
+			bytes.push(C_ESCAPES[escaped] ?? escaped.charCodeAt(0));
+			index++;
+		}
+	}
+	return Buffer.from(bytes).toString("utf8");
+}
+
+/**
+ * Finds the path a file section of a diff produces: the `+++ b/` line, `--- a/` for deleted files,
+ * `rename to`/`copy to`, or the `diff --git` header for sections without them (binary files and
+ * mode changes), where both paths are the same.
+ */
+function getDiffPath(lines: string[]): string {
+	let oldPath: string | null = null;
+	for (const line of lines) {
+		if (line.startsWith("@@")) break;
+		// Git appends a tab to ---/+++ paths that contain spaces
+		const marker = line.match(/^(\+\+\+|---|rename to|copy to) (.+?)\t?$/);
+		if (!marker?.[2]) continue;
+		const path = unquoteGitPath(marker[2]);
+		if (marker[1] === "rename to" || marker[1] === "copy to") return path;
+		if (marker[1] === "---") {
+			oldPath = path.replace(/^a\//, "");
+		} else if (path !== "/dev/null") {
+			return path.replace(/^b\//, "");
+		}
+	}
+	if (oldPath && oldPath !== "/dev/null") return oldPath;
+
+	const paths = (lines[0] ?? "").replace(/^diff --git /, "");
+	const quoted = paths.match(/"((?:[^"\\]|\\.)*)"$/);
+	if (quoted) return unquoteGitPath(quoted[0]).replace(/^b\//, "");
+	// "a/<path> b/<path>": the halves are equal, even when the path contains " b/"
+	const half = (paths.length - 1) / 2;
+	if (paths.slice(2, half) === paths.slice(half + 3))
+		return paths.slice(half + 3);
+	return paths.match(/ b\/(.+)$/)?.[1] ?? paths.trim();
+}
+
+/**
+ * Splits a unified `git diff` output into per-file sections.
+ * @param {string} diff - The raw diff string.
+ * @returns {DiffFile[]} - One entry per changed file, in diff order.
+ */
+export function parseDiff(diff: string): DiffFile[] {
+	const sections = diff.split(/^(?=diff --git )/m).filter((s) => s.trim());
+	return sections.map((content) => {
+		const lines = content.split("\n");
+		const path = getDiffPath(lines);
+		let additions = 0;
+		let deletions = 0;
+		// Lines before the first hunk are headers, even the ones starting with +++ or ---
+		let inHunk = false;
+		for (const line of lines) {
+			if (line.startsWith("@@")) inHunk = true;
+			else if (!inHunk) continue;
+			else if (line.startsWith("+")) additions++;
+			else if (line.startsWith("-")) deletions++;
+		}
+		const binary = /^(Binary files .* differ|GIT binary patch)$/m.test(content);
+		return { path, content, additions, deletions, binary };
+	});
+}
+
+/**
+ * Decides whether a file's diff is worth sending to the model.
+ * @param {DiffFile} file - The parsed file diff.
+ * @returns {OmissionReason | null} - Why the file should be omitted, or null to keep it.
+ */
+export function classifyLowValueFile(file: DiffFile): OmissionReason | null {
+	if (file.binary) return "binary";
+	if (LOCKFILE_PATTERN.test(file.path)) return "lockfile";
+	if (GENERATED_PATTERNS.some((pattern) => pattern.test(file.path))) {
+		return "generated";
+	}
+	return null;
+}
+
+/**
+ * Drops excluded and low-value files from a diff and, if the rest still exceeds the budget,
+ * groups it into chunks that each fit the budget for a map-reduce pass.
+ * Files larger than a whole chunk are truncated and reported as such.
+ * @param {string} diff - The raw diff string.
+ * @param {DiffBudgetOptions} options - The token budget and exclusion rules.
+ * @returns {BudgetedDiff} - The kept diff, optional chunks, and the omission report.
+ */
+export function budgetDiff(
+	diff: string,
+	options: DiffBudgetOptions,
+): BudgetedDiff {
+	const { maxDiffTokens: maxTokens, isExcluded } = options;
+	const omitted: OmittedFile[] = [];
+	const kept: DiffFile[] = [];
+
+	for (const file of parseDiff(diff)) {
+		const reason = isExcluded?.(file.path)
+			? "excluded"
+			: classifyLowValueFile(file);
+		if (reason) {
+			omitted.push({
+				path: file.path,
+				reason,
+				additions: file.additions,
+				deletions: file.deletions,
+			});
+		} else {
+			kept.push(file);
+		}
+	}
+
+	const content = kept.map((file) => file.content).join("");
+	const estimatedTokens = estimateTokens(content);
+	if (estimatedTokens <= maxTokens) {
+		return { content, chunks: null, omitted, estimatedTokens };
+	}
+
+	const chunks: string[] = [];
+	let current = "";
+	for (const file of kept) {
+		let fileContent = file.content;
+		if (estimateTokens(fileContent) > maxTokens) {
+			fileContent = `${fileContent.slice(0, maxTokens * CHARS_PER_TOKEN)}\n[... diff truncated ...]\n`;
+			omitted.push({
+				path: file.path,
+				reason: "truncated",
+				additions: file.additions,
+				deletions: file.deletions,
+			});
+		}
+		if (current && estimateTokens(current + fileContent) > maxTokens) {
+			chunks.push(current);
+			current = "";
+		}
+		current += fileContent;
+	}
+	if (current) chunks.push(current);
+
+	return { content, chunks, omitted, estimatedTokens };
+}
+
+/**
+ * Formats the omission report as a list for prompts and terminal output.
+ * @param {OmittedFile[]} omitted - The omitted files.
+ * @returns {string} - One line per file, or an empty string if nothing was omitted.
+ */
+export function formatOmittedFiles(omitted: OmittedFile[]): string {
+	return omitted
+		.map(
+			(file) =>
+				`- ${file.path} (${file.reason}, +${file.additions}/-${file.deletions})`,
+		)
+		.join("\n");
+}
@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { ForgeError } from "../utils/errors";
+import { parseRemoteUrl, requestJson } from "./forge";
+
+describe("parseRemoteUrl", () => {
+	test("parses scp-like SSH remotes", () => {
+		expect(parseRemoteUrl("git@github.com:acme/app.git")).toEqual({
+			host: "github.com",
+			path: "acme/app",
+		});
+	});
+
+	test("parses ssh:// remotes with a port", () => {
+		expect(
+			parseRemoteUrl("ssh://git@gitlab.example.com:2222/group/sub/project.git"),
+		).toEqual({ host: "gitlab.example.com", path: "group/sub/project" });
+	});
+
+	test("parses HTTPS remotes with or without the .git suffix", () => {
+		expect(parseRemoteUrl("https://bitbucket.org/team/repo.git\n")).toEqual({
+			host: "bitbucket.org",
+			path: "team/repo",
+		});
+		expect(parseRemoteUrl("https://user@gitlab.com/group/project/")).toEqual({
+			host: "gitlab.com",
+			path: "group/project",
+		});
+	});
+
+	test("returns null for URLs without a repository", () => {
+		expect(parseRemoteUrl("")).toBeNull();
+		expect(parseRemoteUrl("/srv/git/app.git")).toBeNull();
+		expect(parseRemoteUrl("https://github.com/")).toBeNull();
+	});
+});
+
+describe("requestJson", () => {
+	let server: Server;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			fetch(req) {
+				const { pathname } = new URL(req.url);
+				if (pathname === "/ok") return Response.json({ id: 1 });
+				if (pathname === "/empty") return new Response("");
+				if (pathname === "/login") {
+					return new Response("<html>Sign in</html>", {
+						headers: { "Content-Type": "text/html" },
+					});
+				}
+				return new Response("boom", { status: 502 });
+			},
+		});
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	test("parses JSON responses", async () => {
+		expect(
+			await requestJson<{ id: number }>(`${server.url.origin}/ok`, {}),
+		).toEqual({ id: 1 });
+		expect(await requestJson(`${server.url.origin}/empty`, {})).toBeNull();
+	});
+
+	test("reports failed statuses, non-JSON bodies and network failures as ForgeErrors", async () => {
+		const failures = [
+			[`${server.url.origin}/fail`, "failed with 502: boom"],
+			[`${server.url.origin}/login`, "not JSON: <html>Sign in</html>"],
+			["http://127.0.0.1:1/api", "GET http://127.0.0.1:1/api failed"],
+		] as const;
+		for (const [url, message] of failures) {
+			const request = requestJson(url, {});
+			await expect(request).rejects.toBeInstanceOf(ForgeError);
+			await expect(request).rejects.toThrow(message);
+		}
+	});
+});
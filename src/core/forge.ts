@@ -0,0 +1,285 @@
+import { $ } from "bun";
+import inquirer from "inquirer";
+import ora from "ora";
+import { theme } from "../ui/theme";
+import { ForgeError } from "../utils/errors";
+import { createBitbucketForge } from "./bitbucket";
+import { githubForge } from "./github";
+import { createGitLabForge } from "./gitlab";
+
+/**
+ * Code hosting platforms GitLift can open pull/merge requests on.
+ */
+export const FORGE_NAMES = ["github", "gitlab", "bitbucket"] as const;
+
+export type ForgeName = (typeof FORGE_NAMES)[number];
+
+/**
+ * An open pull/merge request for a branch.
+ */
+export interface ExistingPr {
+	number: number;
+	url: string;
+	title: string;
+	body: string;
+}
+
+/**
+ * Metadata applied when creating or updating a pull/merge request.
+ */
+export interface PrMetadata {
+	base?: string;
+	draft?: boolean;
+	reviewers?: string[];
+	assignees?: string[];
+	labels?: string[];
+	milestone?: string;
+}
+
+/**
+ * A repository label.
+ */
+export interface RepoLabel {
+	name: string;
+	description: string;
+}
+
+/**
+ * An inline review comment on lines of the new version of a file.
+ */
+export interface ReviewComment {
+	path: string;
+	/** The (last) line the comment applies to. */
+	line: number;
+	/** The first line, for comments spanning several lines. */
+	startLine?: number;
+	body: string;
+}
+
+/**
+ * An issue in the platform's issue tracker.
+ */
+export interface ForgeIssue {
+	title: string;
+	body: string;
+	url: string;
+}
+
+/**
+ * Operations GitLift needs from a code hosting platform.
+ */
+export interface Forge {
+	name: ForgeName;
+	/** Platform name shown to the user (e.g., "GitLab"). */
+	label: string;
+	/** What the platform calls a pull request ("PR" or "MR"). */
+	requestName: string;
+	/** Throws with setup instructions if the platform cannot be used. */
+	checkAuth(): Promise<void>;
+	findOpenRequest(branchName: string): Promise<ExistingPr | null>;
+	createRequest(
+		title: string,
+		body: string,
+		branchName: string,
+		metadata: PrMetadata,
+	): Promise<string>;
+	updateRequest(
+		pr: ExistingPr,
+		title: string,
+		body: string,
+		metadata: PrMetadata,
+	): Promise<string>;
+	listLabels(): Promise<RepoLabel[]>;
+	/** Fetches an issue by number; throws if it does not exist or cannot be read. */
+	getIssue(number: number): Promise<ForgeIssue>;
+	/** Posts a review: a summary comment plus inline comments on changed lines. */
+	postReview(
+		pr: ExistingPr,
+		body: string,
+		comments: ReviewComment[],
+	): Promise<void>;
+	openInBrowser(url: string): Promise<void>;
+}
+
+/**
+ * Host and repository path parsed from a Git remote URL.
+ */
+export interface RemoteInfo {
+	host: string;
+	/** Repository path without the `.git` suffix (e.g., "group/subgroup/project"). */
+	path: string;
+}
+
+/**
+ * Parses SSH (`git@host:path`, `ssh://git@host:port/path`) and HTTP(S) remote URLs.
+ * @param {string} url - The remote URL.
+ * @returns {RemoteInfo | null} - The host and repository path, or null if the URL is not recognized.
+ */
+export function parseRemoteUrl(url: string): RemoteInfo | null {
+	const trimmed = url.trim();
+	const scpLike = trimmed.match(/^[\w.-]+@([^:/]+):(.+?)(?:\.git)?\/?$/);
+	if (scpLike?.[1] && scpLike[2]) {
+		return { host: scpLike[1], path: scpLike[2] };
+	}
+	try {
+		const parsed = new URL(trimmed);
+		const path = parsed.pathname
+			.replace(/^\/+|\/+$/g, "")
+			.replace(/\.git$/, "");
+		return parsed.hostname && path ? { host: parsed.hostname, path } : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Guesses the forge from a remote host name.
+ * @param {string} host - The remote host.
+ * @returns {ForgeName | null} - The detected forge, or null for unknown (e.g., self-hosted) hosts.
+ */
+export function detectForgeFromHost(host: string): ForgeName | null {
+	if (host.includes("github")) return "github";
+	if (host.includes("gitlab")) return "gitlab";
+	if (host.includes("bitbucket")) return "bitbucket";
+	return null;
+}
+
+/**
+ * Selects the forge for the current repository.
+ * @param {ForgeName | "auto"} setting - The `forge` config value; `auto` detects it from the `origin` remote.
+ * @param {string} [apiUrl] - REST API base URL override (self-hosted instances or a local stand-in).
+ * @returns {Promise<Forge>} - The forge implementation.
+ * @throws {ForgeError} If a REST-based forge is selected but the `origin` remote cannot be parsed.
+ */
+export async function resolveForge(
+	setting: ForgeName | "auto",
+	apiUrl?: string,
+): Promise<Forge> {
+	const remoteUrl = (
+		await $`git remote get-url origin`.nothrow().quiet().text()
+	).trim();
+	const remote = parseRemoteUrl(remoteUrl);
+	// Unknown hosts keep the historical behaviour (GitHub via gh, which also covers GHES)
+	const name =
+		setting === "auto"
+			? ((remote && detectForgeFromHost(remote.host)) ?? "github")
+			: setting;
+
+	if (name === "github") return githubForge;
+	if (!remote) {
+		throw new ForgeError(
+			`Cannot use ${name}: the 'origin' remote URL ('${remoteUrl}') could not be parsed.`,
+		);
+	}
+	return name === "gitlab"
+		? createGitLabForge(remote, apiUrl)
+		: createBitbucketForge(remote, apiUrl);
+}
+
+/**
+ * Minimal JSON-over-HTTP helper shared by the REST-based forges.
+ * @param {string} url - The request URL.
+ * @param {RequestInit} init - Fetch options (method, headers, body).
+ * @returns {Promise<T>} - The parsed JSON response.
+ * @throws {ForgeError} With the status and response text for non-2xx responses, and for network
+ * failures or responses that are not JSON (e.g., a proxy's HTML error page).
+ */
+export async function requestJson<T>(
+	url: string,
+	init: RequestInit,
+): Promise<T> {
+	const request = `${init.method ?? "GET"} ${url}`;
+	let response: Response;
+	let text: string;
+	try {
+		response = await fetch(url, {
+			...init,
+			headers: {
+				Accept: "application/json",
+				...(init.body ? { "Content-Type": "application/json" } : {}),
+				...init.headers,
+			},
+		});
+		text = await response.text();
+	} catch (error: unknown) {
+		throw new ForgeError(
+			`${request} failed: ${error instanceof Error ? error.message : error}`,
+			{
+				hint: "Check your network connection and the forgeApiUrl setting.",
+				cause: error,
+			},
+		);
+	}
+	if (!response.ok) {
+		throw new ForgeError(
+			`${request} failed with ${response.status}: ${text.slice(0, 300)}`,
+		);
+	}
+	try {
+		return (text ? JSON.parse(text) : null) as T;
+	} catch (error: unknown) {
+		throw new ForgeError(
+			`${request} returned a response that is not JSON: ${text.slice(0, 300)}`,
+			{
+				hint: "Check the forgeApiUrl setting and any proxy in between.",
+				cause: error,
+			},
+		);
+	}
+}
+
+/**
+ * Opens a URL with the operating system's default handler.
+ * @param {string} url - The URL to open.
+ */
+export async function openUrl(url: string) {
+	const opener =
+		process.platform === "darwin"
+			? "open"
+			: process.platform === "win32"
+				? "explorer"
+				: "xdg-open";
+	await $`${opener} ${url}`.quiet();
+}
+
+/**
+ * Asks the user if they want to open the created PR/MR and opens it in the browser.
+ * Skips the prompt if skipConfirm is true.
+ * @param {string} prUrl - The URL of the pull/merge request.
+ * @param {Forge} forge - The forge hosting the request.
+ * @param {boolean} [skipConfirm=false] - If true, skips the confirmation prompt.
+ */
+export async function askAndOpenPr(
+	prUrl: string,
+	forge: Forge,
+	skipConfirm = false,
+) {
+	let openPr = true; // Assume yes if skipping confirm
+	if (!skipConfirm) {
+		const answers = await inquirer.prompt([
+			{
+				type: "confirm",
+				name: "openPr",
+				message: `Open ${forge.requestName} ${theme.info(prUrl)} in browser?`,
+				default: true,
+			},
+		]);
+		openPr = answers.openPr;
+	}
+
+	if (openPr) {
+		const spinner = ora(
+			theme.info(`Opening ${forge.requestName} in browser...`),
+		).start();
+		try {
+			await forge.openInBrowser(prUrl);
+			spinner.succeed(theme.success(`${forge.requestName} opened in browser.`));
+		} catch (browseError: unknown) {
+			spinner.fail(
+				theme.error(`Failed to open ${forge.requestName} in browser.`),
+			);
+			console.error(theme.error("Error details:"), browseError);
+			console.warn(theme.warning(`Please open the URL manually: ${prUrl}`));
+		}
+	}
+}
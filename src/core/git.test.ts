@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { $ } from "bun";
+import { findRemoteBranchContaining } from "./git";
+
+describe("findRemoteBranchContaining", () => {
+	const cwd = process.cwd();
+	let root: string;
+
+	beforeAll(async () => {
+		root = await mkdtemp(join(tmpdir(), "gitlift-git-"));
+		const origin = join(root, "origin");
+		const clone = join(root, "clone");
+		await $`git init -q -b main ${origin}`.quiet();
+		await $`git -c user.email=t@t -c user.name=t commit -q --allow-empty -m init`
+			.cwd(origin)
+			.quiet();
+		await $`git clone -q ${origin} ${clone}`.quiet();
+		// A branch without an upstream, on top of origin/main
+		await $`git checkout -q --no-track -b topic origin/main`.cwd(clone).quiet();
+		await writeFile(join(clone, "a.txt"), "a\n");
+		await $`git add a.txt && git -c user.email=t@t -c user.name=t commit -qm local`
+			.cwd(clone)
+			.quiet();
+		process.chdir(clone);
+	});
+
+	afterAll(async () => {
+		process.chdir(cwd);
+		await rm(root, { recursive: true, force: true });
+	});
+
+	test("finds pushed commits on any remote branch, without an upstream", async () => {
+		expect(await findRemoteBranchContaining("HEAD~1")).toBe("origin/main");
+	});
+
+	test("returns null for unpushed commits", async () => {
+		expect(await findRemoteBranchContaining("HEAD")).toBeNull();
+	});
+});
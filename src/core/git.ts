@@ -1,7 +1,26 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { $ } from "bun";
 import inquirer from "inquirer";
 import ora from "ora";
 import { theme } from "../ui/theme";
+import {
+	CommandError,
+	ExitCode,
+	GitError,
+	UserCancelledError,
+} from "../utils/errors";
+
+/**
+ * Returns the absolute path of the repository root.
+ * @returns {Promise<string | null>} - The repository root, or null when not inside a Git repository.
+ */
+export async function getRepoRoot(): Promise<string | null> {
+	const result = await $`git rev-parse --show-toplevel`.nothrow().quiet();
+	if (result.exitCode !== 0) return null;
+	return result.stdout.toString().trim() || null;
+}
 
 /**
  * Fetches Git information including current branch, diff, and commits against a base branch.
@@ -9,7 +28,7 @@ import { theme } from "../ui/theme";
  * @param {string} [baseBranch='main'] - The base branch to compare against.
  * @param {boolean} [skipConfirm=false] - If true, skips confirmation prompts.
  * @returns {Promise<{currentBranch: string, diff: string, commits: string}>} - Git information.
- * @throws {Error} If no commits are found ahead of the base branch.
+ * @throws {CommandError} If the base branch does not exist, no commits are ahead of it, or the user cancels.
  */
 export async function getGitInfo(baseBranch = "main", skipConfirm = false) {
 	const spinner = ora(
@@ -24,8 +43,9 @@ export async function getGitInfo(baseBranch = "main", skipConfirm = false) {
 			const remoteBranchExists =
 				await $`git ls-remote --heads origin ${baseBranch}`.text();
 			if (!remoteBranchExists.trim()) {
-				throw new Error(
+				throw new CommandError(
 					`Base branch '${baseBranch}' not found locally or on remote 'origin'.`,
+					ExitCode.Usage,
 				);
 			}
 			// If remote exists but not local, we might need to fetch/track it, but for diffing it might be okay if commits exist
@@ -61,8 +81,7 @@ export async function getGitInfo(baseBranch = "main", skipConfirm = false) {
 				},
 			]);
 			if (!proceed) {
-				console.log(theme.warning("Operation cancelled by user."));
-				process.exit(0);
+				throw new UserCancelledError("Operation cancelled by user.");
 			}
 			spinner.start();
 		}
@@ -73,8 +92,9 @@ export async function getGitInfo(baseBranch = "main", skipConfirm = false) {
 		const commitCount = Number.parseInt(commitCountOutput.trim(), 10);
 
 		if (commitCount === 0) {
-			throw new Error(
+			throw new CommandError(
 				`No commits found on branch '${currentBranch}' ahead of '${baseBranch}'. Nothing to create a PR for.`,
+				ExitCode.NothingToDo,
 			);
 		}
 		spinner.succeed(
@@ -98,10 +118,17 @@ export async function getGitInfo(baseBranch = "main", skipConfirm = false) {
 		spinner.succeed(theme.success("Fetched diff and commit logs."));
 		return { currentBranch, diff: diffOutput, commits };
 	} catch (error: unknown) {
+		if (error instanceof UserCancelledError) {
+			spinner.stop();
+			throw error;
+		}
 		spinner.fail(theme.error("Failed to get Git information."));
-		if (error instanceof Error) throw error;
-		throw new Error(
-			"Git Error: An unknown error occurred while fetching Git info.",
+		if (error instanceof CommandError) throw error;
+		throw new GitError(
+			error instanceof Error
+				? error.message
+				: "An unknown error occurred while fetching Git info.",
+			{ cause: error },
 		);
 	}
 }
@@ -111,7 +138,8 @@ export async function getGitInfo(baseBranch = "main", skipConfirm = false) {
  * Prompts the user to push if needed, unless skipConfirm is true.
  * @param {string} branchName - The name of the branch to check.
  * @param {boolean} [skipConfirm=false] - If true, skips confirmation prompts.
- * @throws {Error} If the push fails or checking status fails.
+ * @throws {GitError} If the push fails or checking status fails.
+ * @throws {UserCancelledError} If the user declines to push.
  */
 export async function ensureBranchIsPushed(
 	branchName: string,
@@ -176,25 +204,27 @@ export async function ensureBranchIsPushed(
 				const pushCommand = setUpstream
 					? $`git push --set-upstream origin ${branchName}`
 					: $`git push`;
-				const pushResult = await pushCommand.nothrow();
+				// Quiet keeps stdout free for --json results
+				const pushResult = await pushCommand.nothrow().quiet();
 
 				if (pushResult.exitCode !== 0) {
 					spinner.fail(theme.error("Git push failed."));
 					console.error(theme.dim(pushResult.stderr.toString()));
-					throw new Error(
+					throw new GitError(
 						`Failed to push branch to remote. Command: 'git push${setUpstream ? ` --set-upstream origin ${branchName}` : ""}'`,
 					);
 				}
 				spinner.succeed(theme.success("Branch pushed successfully."));
+				const pushOutput = pushResult.stdout.toString().trim();
+				if (pushOutput) console.log(theme.dim(pushOutput));
 			} else if (!skipConfirm) {
-				// Only log cancellation if prompt was shown
-				console.log(
-					theme.warning("Push cancelled by user. Aborting PR creation."),
+				throw new UserCancelledError(
+					"Push cancelled by user. Aborting PR creation.",
 				);
-				process.exit(0);
 			}
 		}
 	} catch (error: unknown) {
+		if (error instanceof CommandError) throw error;
 		spinner.fail(theme.error("Failed to check git status or push branch."));
 		type ShellError = { stderr?: { toString: () => string }; message?: string };
 		let message = "Unknown error checking git status/push.";
@@ -204,16 +234,14 @@ export async function ensureBranchIsPushed(
 			message = stderr ?? msg ?? message;
 		}
 		console.error(theme.error("Error details:"), theme.dim(message));
-		throw new Error(
-			"Git Error: Error during git status check or push operation.",
-		);
+		throw new GitError("Error during git status check or push operation.");
 	}
 }
 
 /**
  * Gets the diff of currently staged changes.
  * @returns {Promise<string>} - The staged diff string.
- * @throws {Error} If `git diff --staged` fails.
+ * @throws {GitError} If `git diff --staged` fails.
  */
 export async function getStagedDiff(): Promise<string> {
 	const spinner = ora("Checking for staged changes...").start();
@@ -227,9 +255,12 @@ export async function getStagedDiff(): Promise<string> {
 		return diffOutput.trim();
 	} catch (error: unknown) {
 		spinner.fail(theme.error("Failed to get staged diff."));
-		if (error instanceof Error) throw error;
-		throw new Error(
-			"Git Error: An unknown error occurred while fetching staged diff.",
+		if (error instanceof CommandError) throw error;
+		throw new GitError(
+			error instanceof Error
+				? error.message
+				: "An unknown error occurred while fetching staged diff.",
+			{ cause: error },
 		);
 	}
 }
@@ -237,7 +268,7 @@ export async function getStagedDiff(): Promise<string> {
 /**
  * Checks for unstaged changes (modified or untracked files).
  * @returns {Promise<{unstagedFiles: string[], untrackedFiles: string[]}>} - An object with arrays of unstaged and untracked file paths.
- * @throws {Error} If `git status --porcelain` fails.
+ * @throws {GitError} If `git status --porcelain` fails.
  */
 export async function getUnstagedChanges(): Promise<{
 	unstagedModifiedFiles: string[];
@@ -271,9 +302,12 @@ export async function getUnstagedChanges(): Promise<{
 		return { unstagedModifiedFiles, untrackedFiles };
 	} catch (error: unknown) {
 		spinner.fail(theme.error("Failed to check for unstaged files."));
-		if (error instanceof Error) throw error;
-		throw new Error(
-			"Git Error: An unknown error occurred while checking git status.",
+		if (error instanceof CommandError) throw error;
+		throw new GitError(
+			error instanceof Error
+				? error.message
+				: "An unknown error occurred while checking git status.",
+			{ cause: error },
 		);
 	}
 }
@@ -281,7 +315,7 @@ export async function getUnstagedChanges(): Promise<{
 /**
  * Stages all modified and new (untracked) files.
  * Corresponds to `git add .`
- * @throws {Error} If `git add .` fails.
+ * @throws {GitError} If `git add .` fails.
  */
 export async function stageAllTrackedAndUntrackedChanges(): Promise<void> {
 	const spinner = ora(
@@ -292,40 +326,185 @@ export async function stageAllTrackedAndUntrackedChanges(): Promise<void> {
 		if (addResult.exitCode !== 0) {
 			spinner.fail(theme.error("Failed to stage all files."));
 			console.error(theme.dim(addResult.stderr.toString()));
-			throw new Error("Git Error: `git add .` command failed.");
+			throw new GitError("`git add .` command failed.");
 		}
 		spinner.succeed(theme.success("All modified and new files staged."));
 	} catch (error: unknown) {
 		spinner.fail(theme.error("Failed to stage all files."));
-		if (error instanceof Error) throw error;
-		throw new Error("Git Error: An unknown error occurred during `git add .`.");
+		if (error instanceof CommandError) throw error;
+		throw new GitError(
+			error instanceof Error
+				? error.message
+				: "An unknown error occurred during `git add .`.",
+			{ cause: error },
+		);
 	}
 }
 
 /**
  * Performs a git commit with the given message.
  * @param {string} message - The commit message.
- * @throws {Error} If `git commit -m` fails.
+ * @throws {GitError} If `git commit -m` fails.
  */
 export async function gitCommit(message: string): Promise<void> {
 	const spinner = ora("Performing git commit...").start();
 	try {
 		// Using .nothrow() and checking exitCode for Bun.spawn issues with quotes in command
-		const commitResult = await $`git commit -m ${message}`.nothrow();
+		// Quiet keeps stdout free for --json results; the summary is logged below instead
+		const commitResult = await $`git commit -m ${message}`.nothrow().quiet();
 
 		if (commitResult.exitCode !== 0) {
 			spinner.fail(theme.error("Git commit failed."));
 			console.error(theme.dim(commitResult.stderr.toString()));
-			throw new Error(
-				`Git Error: 'git commit -m "${message}"' command failed.`,
-			);
+			throw new GitError(`'git commit -m "${message}"' command failed.`);
 		}
 		spinner.succeed(theme.success("Commit successful."));
+		console.log(theme.dim(commitResult.stdout.toString().trim()));
 	} catch (error: unknown) {
 		spinner.fail(theme.error("Git commit failed."));
-		if (error instanceof Error) throw error;
-		throw new Error(
-			"Git Error: An unknown error occurred during commit operation.",
+		if (error instanceof CommandError) throw error;
+		throw new GitError(
+			error instanceof Error
+				? error.message
+				: "An unknown error occurred during commit operation.",
+			{ cause: error },
 		);
 	}
 }
+
+/**
+ * Returns the hash of the commit HEAD points to.
+ * @returns {Promise<string>} - The full commit hash.
+ */
+export async function getHeadCommit(): Promise<string> {
+	return (await $`git rev-parse HEAD`.text()).trim();
+}
+
+/**
+ * Returns the name of the checked-out branch.
+ * @returns {Promise<string | null>} - The branch name, or null on a detached HEAD or outside a repository.
+ */
+export async function getCurrentBranch(): Promise<string | null> {
+	const result = await $`git symbolic-ref --quiet --short HEAD`
+		.nothrow()
+		.quiet();
+	if (result.exitCode !== 0) return null;
+	return result.stdout.toString().trim() || null;
+}
+
+/**
+ * Reads the full messages of the commits on the current branch that are not on the base branch.
+ * @param {string} baseBranch - The base branch.
+ * @returns {Promise<string[]>} - The commit messages, newest first (empty if git fails).
+ */
+export async function getCommitMessages(baseBranch: string): Promise<string[]> {
+	const result = await $`git log ${baseBranch}..HEAD --format=%B%x1e`
+		.nothrow()
+		.quiet();
+	if (result.exitCode !== 0) return [];
+	return result.stdout
+		.toString()
+		.split("\x1e")
+		.map((message) => message.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Produces a colored line diff between two texts using `git diff --no-index`.
+ * @param {string} before - The original text.
+ * @param {string} after - The new text.
+ * @returns {Promise<string>} - The diff hunks, or an empty string if the texts are identical.
+ */
+export async function diffTexts(
+	before: string,
+	after: string,
+): Promise<string> {
+	const dir = await mkdtemp(join(tmpdir(), "gitlift-"));
+	try {
+		const beforePath = join(dir, "before");
+		const afterPath = join(dir, "after");
+		await writeFile(beforePath, before.endsWith("\n") ? before : `${before}\n`);
+		await writeFile(afterPath, after.endsWith("\n") ? after : `${after}\n`);
+		// Exit code 1 just means the files differ
+		const result =
+			await $`git diff --no-index --color=always ${beforePath} ${afterPath}`
+				.nothrow()
+				.quiet();
+		// Drop the file header lines before the first hunk, which only show the temporary paths
+		const lines = result.stdout.toString().split("\n");
+		const firstHunk = lines.findIndex((line) => line.includes("@@ "));
+		return firstHunk === -1 ? "" : lines.slice(firstHunk).join("\n").trim();
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Gets the changes a commit introduced, as shown by `git show`.
+ * @param {string} ref - The commit to read (e.g., "HEAD").
+ * @returns {Promise<string>} - The commit's diff, without the commit header.
+ * @throws {GitError} If the commit does not exist.
+ */
+export async function getCommitDiff(ref: string): Promise<string> {
+	const result = await $`git show --format= --no-color --no-ext-diff ${ref}`
+		.nothrow()
+		.quiet();
+	if (result.exitCode !== 0) {
+		throw new GitError(
+			`Could not read commit '${ref}': ${result.stderr.toString().trim()}`,
+		);
+	}
+	return result.stdout.toString().trim();
+}
+
+/**
+ * Checks whether a commit is already on a remote branch, i.e. rewriting it would need a force
+ * push. Every remote-tracking branch counts, not just the upstream: a branch without one can
+ * still hold commits that are on `origin/main`.
+ * @param {string} ref - The commit to check.
+ * @returns {Promise<string | null>} - A remote branch containing the commit (the upstream if it does), or null if the commit is unpushed.
+ */
+export async function findRemoteBranchContaining(
+	ref: string,
+): Promise<string | null> {
+	const result =
+		await $`git for-each-ref --contains ${ref} --format=${"%(refname:short)"} refs/remotes`
+			.nothrow()
+			.quiet();
+	if (result.exitCode !== 0) return null;
+	// origin/HEAD (shortened to "origin") only points at another remote branch
+	const branches = result.stdout
+		.toString()
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.includes("/") && !line.endsWith("/HEAD"));
+	const upstream =
+		await $`git rev-parse --abbrev-ref --symbolic-full-name @{upstream}`
+			.nothrow()
+			.quiet();
+	const upstreamName = upstream.stdout.toString().trim();
+	if (upstream.exitCode === 0 && branches.includes(upstreamName)) {
+		return upstreamName;
+	}
+	return branches[0] ?? null;
+}
+
+/**
+ * Replaces the message of the HEAD commit, leaving staged changes out of it.
+ * @param {string} message - The new commit message.
+ * @throws {GitError} If `git commit --amend` fails.
+ */
+export async function gitAmendMessage(message: string): Promise<void> {
+	const spinner = ora("Amending the commit message...").start();
+	// --only without paths amends just the message, even if other changes are staged
+	const result = await $`git commit --amend --only -m ${message}`
+		.nothrow()
+		.quiet();
+	if (result.exitCode !== 0) {
+		spinner.fail(theme.error("Git commit --amend failed."));
+		console.error(theme.dim(result.stderr.toString()));
+		throw new GitError("'git commit --amend' command failed.");
+	}
+	spinner.succeed(theme.success("Commit message amended."));
+	console.log(theme.dim(result.stdout.toString().trim()));
+}
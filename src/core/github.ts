@@ -1,22 +1,67 @@
 import { $ } from "bun";
-import inquirer from "inquirer";
 import ora from "ora";
 import { theme } from "../ui/theme";
+import { ForgeError, PrerequisiteError } from "../utils/errors";
+import type {
+	ExistingPr,
+	Forge,
+	ForgeIssue,
+	PrMetadata,
+	RepoLabel,
+	ReviewComment,
+} from "./forge";
+
+/**
+ * Builds the repeated gh flags for list-type metadata (e.g. `--label a --label b`).
+ */
+function repeatFlag(flag: string, values: string[] = []): string[] {
+	return values.flatMap((value) => [flag, value]);
+}
+
+/**
+ * Extracts what went wrong from an error thrown by a `gh` command: its stderr if the shell
+ * captured any, otherwise the error message.
+ * @param {unknown} error - The caught error.
+ * @param {string} fallback - The description to use when the error has neither.
+ * @returns {string} - The description to show the user.
+ */
+function describeShellError(error: unknown, fallback: string): string {
+	if (typeof error !== "object" || error === null) return fallback;
+	const { stderr, message } = error as {
+		stderr?: { toString: () => string };
+		message?: string;
+	};
+	return stderr?.toString().trim() || message || fallback;
+}
 
 /**
  * Creates a GitHub Pull Request using the gh CLI.
  * @param {string} title - The title of the pull request.
  * @param {string} body - The body content of the pull request.
+ * @param {PrMetadata} [metadata={}] - Base branch, draft state, reviewers, assignees, labels and milestone.
  * @returns {Promise<string>} - The URL of the created pull request.
- * @throws {Error} If the gh command fails or the URL cannot be parsed.
+ * @throws {ForgeError} If the gh command fails or the URL cannot be parsed.
  */
 export async function createGitHubPr(
 	title: string,
 	body: string,
+	metadata: PrMetadata = {},
 ): Promise<string> {
-	const spinner = ora(theme.info("Creating GitHub PR...")).start();
+	const spinner = ora(
+		theme.info(`Creating ${metadata.draft ? "draft " : ""}GitHub PR...`),
+	).start();
 	try {
-		const prCommand = $`gh pr create --title ${title} --body ${body}`;
+		const args = [
+			...(metadata.base ? ["--base", metadata.base] : []),
+			...(metadata.draft ? ["--draft"] : []),
+			...repeatFlag("--reviewer", metadata.reviewers),
+			...repeatFlag("--assignee", metadata.assignees),
+			...repeatFlag("--label", metadata.labels),
+			...(metadata.milestone ? ["--milestone", metadata.milestone] : []),
+		];
+		// Quiet so the URL is not echoed to stdout, which is reserved for --json results
+		const prCommand =
+			$`gh pr create --title ${title} --body ${body} ${args}`.quiet();
 		const prResult = await prCommand;
 		const prUrl = prResult.stdout.toString().trim();
 
@@ -33,63 +78,267 @@ export async function createGitHubPr(
 		return prUrl;
 	} catch (error: unknown) {
 		spinner.fail(theme.error("Failed to create GitHub PR."));
-		type ShellError = { stderr?: { toString: () => string }; message?: string };
-		let message = "Unknown error creating GitHub PR.";
-		if (typeof error === "object" && error !== null) {
-			const stderr = (error as ShellError).stderr?.toString();
-			const msg = (error as ShellError).message;
-			message = stderr ?? msg ?? message;
-		}
-		console.error(theme.error("Error details:"), theme.dim(message));
+		console.error(
+			theme.error("Error details:"),
+			theme.dim(describeShellError(error, "Unknown error creating GitHub PR.")),
+		);
 		console.error(
 			theme.dim(
 				"Ensure your branch exists on the remote repository ('origin').",
 			),
 		);
-		throw new Error("GitHub CLI Error: gh pr create command failed.");
+		throw new ForgeError("gh pr create command failed.", { cause: error });
+	}
+}
+
+/**
+ * Looks for an open pull request whose head is the given branch.
+ * @param {string} branchName - The head branch to look up.
+ * @returns {Promise<ExistingPr | null>} - The open PR, or null if there is none.
+ * @throws {ForgeError} If the gh command fails.
+ */
+export async function findOpenPrForBranch(
+	branchName: string,
+): Promise<ExistingPr | null> {
+	const spinner = ora(
+		theme.info(`Checking for an open PR from '${branchName}'...`),
+	).start();
+	try {
+		const output =
+			await $`gh pr list --head ${branchName} --state open --json number,url,title,body --limit 1`.text();
+		const [pr] = JSON.parse(output || "[]") as ExistingPr[];
+		if (!pr) {
+			spinner.succeed(theme.success("No open PR found for this branch."));
+			return null;
+		}
+		spinner.succeed(
+			theme.success(`Found open PR #${pr.number}: ${theme.info(pr.url)}`),
+		);
+		return pr;
+	} catch (error: unknown) {
+		spinner.fail(theme.error("Failed to look up existing PRs."));
+		console.error(
+			theme.error("Error details:"),
+			theme.dim(describeShellError(error, "Unknown error listing GitHub PRs.")),
+		);
+		throw new ForgeError("gh pr list command failed.", { cause: error });
 	}
 }
 
 /**
- * Asks the user if they want to open the created PR and opens it in the browser.
- * Skips the prompt if skipConfirm is true.
+ * Updates the title and body of an existing GitHub Pull Request using the gh CLI.
+ * Reviewers, assignees and labels are added to the existing ones; the draft state is left as is.
+ * @param {ExistingPr} pr - The pull request to update.
+ * @param {string} title - The new title.
+ * @param {string} body - The new body content.
+ * @param {PrMetadata} [metadata={}] - Base branch, reviewers, assignees, labels and milestone.
+ * @returns {Promise<string>} - The URL of the updated pull request.
+ * @throws {ForgeError} If the gh command fails.
+ */
+export async function updateGitHubPr(
+	pr: ExistingPr,
+	title: string,
+	body: string,
+	metadata: PrMetadata = {},
+): Promise<string> {
+	const spinner = ora(theme.info(`Updating PR #${pr.number}...`)).start();
+	try {
+		const args = [
+			...(metadata.base ? ["--base", metadata.base] : []),
+			...repeatFlag("--add-reviewer", metadata.reviewers),
+			...repeatFlag("--add-assignee", metadata.assignees),
+			...repeatFlag("--add-label", metadata.labels),
+			...(metadata.milestone ? ["--milestone", metadata.milestone] : []),
+		];
+		await $`gh pr edit ${pr.number} --title ${title} --body ${body} ${args}`.quiet();
+		spinner.succeed(
+			theme.success(`PR updated successfully: ${theme.info(pr.url)}`),
+		);
+		return pr.url;
+	} catch (error: unknown) {
+		spinner.fail(theme.error(`Failed to update PR #${pr.number}.`));
+		console.error(
+			theme.error("Error details:"),
+			theme.dim(describeShellError(error, "Unknown error updating GitHub PR.")),
+		);
+		throw new ForgeError("gh pr edit command failed.", { cause: error });
+	}
+}
+
+/**
+ * Lists the labels defined in the current GitHub repository.
+ * @returns {Promise<RepoLabel[]>} - The repository labels.
+ * @throws {ForgeError} If the gh command fails.
+ */
+export async function listRepoLabels(): Promise<RepoLabel[]> {
+	const spinner = ora(theme.info("Fetching repository labels...")).start();
+	try {
+		const output =
+			await $`gh label list --json name,description --limit 200`.text();
+		const labels = JSON.parse(output || "[]") as RepoLabel[];
+		spinner.succeed(theme.success(`Found ${labels.length} label(s).`));
+		return labels;
+	} catch (error: unknown) {
+		spinner.fail(theme.error("Failed to fetch repository labels."));
+		throw new ForgeError("gh label list command failed.", { cause: error });
+	}
+}
+
+/**
+ * Fetches an issue of the current GitHub repository (`gh issue view`).
+ * @param {number} number - The issue number.
+ * @returns {Promise<ForgeIssue>} - The issue title, body and URL.
+ * @throws {ForgeError} If the issue does not exist or the gh command fails.
+ */
+export async function getGitHubIssue(number: number): Promise<ForgeIssue> {
+	const result = await $`gh issue view ${number} --json title,body,url`
+		.nothrow()
+		.quiet();
+	if (result.exitCode !== 0) {
+		throw new ForgeError(
+			`${result.stderr.toString().trim() || "gh issue view failed."}`,
+		);
+	}
+	return JSON.parse(result.stdout.toString()) as ForgeIssue;
+}
+
+/**
+ * Submits a pull request review with inline comments via the GitHub REST API (`gh api`).
+ * @param {ExistingPr} pr - The pull request to review.
+ * @param {string} body - The review summary.
+ * @param {ReviewComment[]} comments - Inline comments; their lines must be part of the PR diff.
+ * @throws {ForgeError} If the gh command fails.
+ */
+export async function postGitHubReview(
+	pr: ExistingPr,
+	body: string,
+	comments: ReviewComment[],
+) {
+	const spinner = ora(
+		theme.info(`Posting review to PR #${pr.number}...`),
+	).start();
+	try {
+		const payload = JSON.stringify({
+			event: "COMMENT",
+			body,
+			comments: comments.map((comment) => ({
+				path: comment.path,
+				line: comment.line,
+				side: "RIGHT",
+				...(comment.startLine
+					? { start_line: comment.startLine, start_side: "RIGHT" }
+					: {}),
+				body: comment.body,
+			})),
+		});
+		// gh fills in {owner}/{repo} from the current repository
+		const endpoint = `repos/{owner}/{repo}/pulls/${pr.number}/reviews`;
+		await $`gh api ${endpoint} --method POST --input - < ${Buffer.from(payload)}`.quiet();
+		spinner.succeed(
+			theme.success(
+				`Review posted with ${comments.length} inline comment(s): ${theme.info(pr.url)}`,
+			),
+		);
+	} catch (error: unknown) {
+		spinner.fail(theme.error(`Failed to post review to PR #${pr.number}.`));
+		console.error(
+			theme.error("Error details:"),
+			theme.dim(
+				describeShellError(error, "Unknown error posting GitHub review."),
+			),
+		);
+		throw new ForgeError("gh api review request failed.", { cause: error });
+	}
+}
+
+/**
+ * Publishes a GitHub release for an existing tag using the gh CLI.
+ * @param {string} tag - The tag to release.
+ * @param {string} notes - The release body (Markdown).
+ * @param {boolean} [draft=false] - Create the release as a draft.
+ * @returns {Promise<string>} - The URL of the created release.
+ * @throws {ForgeError} If the gh command fails.
+ */
+export async function createGitHubRelease(
+	tag: string,
+	notes: string,
+	draft = false,
+): Promise<string> {
+	const spinner = ora(
+		theme.info(`Creating ${draft ? "draft " : ""}GitHub release ${tag}...`),
+	).start();
+	try {
+		const args = draft ? ["--draft"] : [];
+		const output =
+			await $`gh release create ${tag} --verify-tag --title ${tag} --notes ${notes} ${args}`.text();
+		const releaseUrl = output.trim();
+		spinner.succeed(
+			theme.success(`Release created successfully: ${theme.info(releaseUrl)}`),
+		);
+		return releaseUrl;
+	} catch (error: unknown) {
+		spinner.fail(theme.error("Failed to create GitHub release."));
+		console.error(
+			theme.error("Error details:"),
+			theme.dim(
+				describeShellError(error, "Unknown error creating GitHub release."),
+			),
+		);
+		throw new ForgeError("gh release create command failed.", { cause: error });
+	}
+}
+
+/**
+ * Opens a pull request in the browser via `gh browse`.
  * @param {string} prUrl - The URL of the pull request.
- * @param {boolean} [skipConfirm=false] - If true, skips the confirmation prompt.
+ * @throws {ForgeError} If the PR number cannot be extracted or gh fails.
  */
-export async function askAndOpenPr(prUrl: string, skipConfirm = false) {
-	let openPr = true; // Assume yes if skipping confirm
-	if (!skipConfirm) {
-		const answers = await inquirer.prompt([
-			{
-				type: "confirm",
-				name: "openPr",
-				message: `Open PR ${theme.info(prUrl)} in browser?`,
-				default: true,
-			},
-		]);
-		openPr = answers.openPr;
+export async function openGitHubPrInBrowser(prUrl: string) {
+	const prNumber = prUrl.split("/").pop();
+	if (!prNumber || !/^\d+$/.test(prNumber)) {
+		throw new ForgeError(`Could not extract the PR number from ${prUrl}.`);
+	}
+	try {
+		await $`gh browse ${prNumber}`.quiet();
+	} catch (error: unknown) {
+		throw new ForgeError(`gh browse ${prNumber} failed.`, { cause: error });
 	}
+}
 
-	if (openPr) {
-		const spinner = ora(theme.info("Opening PR in browser...")).start();
-		const prNumber = prUrl.split("/").pop();
-		if (prNumber && /^\d+$/.test(prNumber)) {
-			try {
-				await $`gh browse ${prNumber}`.quiet();
-				spinner.succeed(theme.success("PR opened in browser."));
-			} catch (browseError: unknown) {
-				spinner.fail(
-					theme.error("GitHub CLI Error: Failed to open PR via gh browse."),
-				);
-				console.error(theme.error("Error details:"), browseError);
-				console.warn(theme.warning(`Please open the URL manually: ${prUrl}`));
-			}
-		} else {
-			spinner.warn(
-				theme.warning(
-					"Could not extract PR number from URL. Please open manually.",
-				),
-			);
-		}
+/**
+ * Checks that the GitHub CLI is installed and authenticated.
+ * @throws {PrerequisiteError} If gh is missing or not authenticated.
+ */
+export async function checkGitHubAuth() {
+	if (!Bun.which("gh")) {
+		throw new PrerequisiteError(
+			"GitHub CLI (gh) is not installed. Please install it (e.g., 'brew install gh') and authenticate with 'gh auth login'.",
+		);
+	}
+	try {
+		await $`gh auth status`.quiet();
+	} catch {
+		throw new PrerequisiteError(
+			"GitHub CLI is not authenticated. Please run 'gh auth login'.",
+		);
 	}
 }
+
+/**
+ * GitHub forge backed by the gh CLI.
+ */
+export const githubForge: Forge = {
+	name: "github",
+	label: "GitHub",
+	requestName: "PR",
+	checkAuth: checkGitHubAuth,
+	findOpenRequest: findOpenPrForBranch,
+	// gh pr create always uses the current branch as the head
+	createRequest: (title, body, _branchName, metadata) =>
+		createGitHubPr(title, body, metadata),
+	updateRequest: updateGitHubPr,
+	listLabels: listRepoLabels,
+	getIssue: getGitHubIssue,
+	postReview: postGitHubReview,
+	openInBrowser: openGitHubPrInBrowser,
+};
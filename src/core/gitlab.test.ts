@@ -0,0 +1,182 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import type { Server } from "bun";
+import { ConfigError, ForgeError, PrerequisiteError } from "../utils/errors";
+import { GITLAB_TOKEN_ENV, createGitLabForge } from "./gitlab";
+
+interface RecordedRequest {
+	method: string;
+	path: string;
+	body: Record<string, unknown> | null;
+	token: string | null;
+}
+
+// A local stand-in for the GitLab REST API, reached through forgeApiUrl
+let server: Server;
+let requests: RecordedRequest[];
+let routes: Record<string, (request: RecordedRequest) => unknown>;
+const project = "/api/v4/projects/group%2Fapp";
+const mr = {
+	iid: 7,
+	web_url: "https://gitlab.example.com/group/app/-/merge_requests/7",
+	title: "feat: add export",
+	description: null,
+};
+
+function forge() {
+	return createGitLabForge(
+		{ host: "gitlab.example.com", path: "group/app" },
+		`${server.url.origin}/api/v4/`,
+	);
+}
+
+beforeAll(() => {
+	process.env[GITLAB_TOKEN_ENV] = "glpat-test";
+	server = Bun.serve({
+		port: 0,
+		async fetch(req) {
+			const url = new URL(req.url);
+			const text = await req.text();
+			const request = {
+				method: req.method,
+				path: `${url.pathname}${url.search}`,
+				body: text ? JSON.parse(text) : null,
+				token: req.headers.get("PRIVATE-TOKEN"),
+			};
+			requests.push(request);
+			const route = routes[`${req.method} ${url.pathname}`];
+			return route
+				? Response.json(route(request))
+				: new Response('{"message":"404 Not Found"}', { status: 404 });
+		},
+	});
+});
+
+afterAll(() => {
+	server.stop(true);
+	delete process.env[GITLAB_TOKEN_ENV];
+});
+
+beforeEach(() => {
+	requests = [];
+	routes = {};
+});
+
+describe("GitLab forge", () => {
+	test("checks the token and access to the project", async () => {
+		routes[`GET ${project}`] = () => ({ id: 1 });
+		await forge().checkAuth();
+		expect(requests[0]?.token).toBe("glpat-test");
+
+		routes = {};
+		await expect(forge().checkAuth()).rejects.toBeInstanceOf(ForgeError);
+
+		delete process.env[GITLAB_TOKEN_ENV];
+		try {
+			await expect(forge().checkAuth()).rejects.toBeInstanceOf(
+				PrerequisiteError,
+			);
+		} finally {
+			process.env[GITLAB_TOKEN_ENV] = "glpat-test";
+		}
+	});
+
+	test("finds the open MR of a branch", async () => {
+		routes[`GET ${project}/merge_requests`] = (request) =>
+			request.path.includes("source_branch=feat%2Fexport") ? [mr] : [];
+		expect(await forge().findOpenRequest("feat/export")).toEqual({
+			number: 7,
+			url: mr.web_url,
+			title: mr.title,
+			body: "",
+		});
+		expect(await forge().findOpenRequest("main")).toBeNull();
+	});
+
+	test("creates a draft MR with reviewers, labels and a milestone resolved to IDs", async () => {
+		routes["GET /api/v4/users"] = (request) =>
+			request.path.endsWith("username=alice") ? [{ id: 42 }] : [];
+		routes[`GET ${project}/milestones`] = () => [{ id: 3 }];
+		routes[`POST ${project}/merge_requests`] = () => mr;
+
+		const url = await forge().createRequest(
+			"feat: add export",
+			"Body",
+			"feat/export",
+			{
+				draft: true,
+				reviewers: ["@alice"],
+				labels: ["ui", "csv"],
+				milestone: "v1.2",
+				base: "main",
+			},
+		);
+		expect(url).toBe(mr.web_url);
+		expect(requests.at(-1)?.body).toEqual({
+			source_branch: "feat/export",
+			title: "Draft: feat: add export",
+			description: "Body",
+			labels: "ui,csv",
+			target_branch: "main",
+			reviewer_ids: [42],
+			milestone_id: 3,
+		});
+	});
+
+	test("reports unknown users as a configuration error", async () => {
+		routes["GET /api/v4/users"] = () => [];
+		await expect(
+			forge().createRequest("t", "b", "feat/x", { reviewers: ["nobody"] }),
+		).rejects.toBeInstanceOf(ConfigError);
+	});
+
+	test("updates an MR, adding labels", async () => {
+		routes[`PUT ${project}/merge_requests/7`] = () => mr;
+		await forge().updateRequest(
+			{ number: 7, url: mr.web_url, title: "old", body: "" },
+			"new title",
+			"new body",
+			{ labels: ["ui"] },
+		);
+		expect(requests[0]?.body).toEqual({
+			title: "new title",
+			description: "new body",
+			add_labels: "ui",
+		});
+	});
+
+	test("moves review comments GitLab cannot anchor into the summary note", async () => {
+		routes[`GET ${project}/merge_requests/7`] = () => ({
+			diff_refs: { base_sha: "a", head_sha: "b", start_sha: "c" },
+		});
+		routes[`POST ${project}/merge_requests/7/discussions`] = () => ({});
+		routes[`POST ${project}/merge_requests/7/notes`] = () => ({});
+		await forge().postReview(
+			{ number: 7, url: mr.web_url, title: "", body: "" },
+			"Summary",
+			[{ path: "a.ts", line: 3, body: "Inline" }],
+		);
+		expect(requests[1]?.body).toMatchObject({
+			body: "Inline",
+			position: { new_path: "a.ts", new_line: 3, head_sha: "b" },
+		});
+		expect(requests[2]?.body).toEqual({ body: "Summary" });
+
+		requests = [];
+		delete routes[`POST ${project}/merge_requests/7/discussions`];
+		await forge().postReview(
+			{ number: 7, url: mr.web_url, title: "", body: "" },
+			"Summary",
+			[{ path: "a.ts", line: 3, body: "Inline" }],
+		);
+		expect(requests.at(-1)?.body).toEqual({
+			body: "Summary\n\n---\n\n`a.ts:3`\n\nInline",
+		});
+	});
+});
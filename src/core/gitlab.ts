@@ -0,0 +1,293 @@
+import ora from "ora";
+import { theme } from "../ui/theme";
+import { ConfigError, ForgeError, PrerequisiteError } from "../utils/errors";
+import {
+	type ExistingPr,
+	type Forge,
+	type PrMetadata,
+	type RemoteInfo,
+	type ReviewComment,
+	openUrl,
+	requestJson,
+} from "./forge";
+
+export const GITLAB_TOKEN_ENV = "GITLAB_TOKEN";
+
+interface GitLabMergeRequest {
+	iid: number;
+	web_url: string;
+	title: string;
+	description: string | null;
+}
+
+/**
+ * Creates a GitLab forge that talks to the REST API (v4) with a personal access token.
+ * @param {RemoteInfo} remote - Host and project path from the `origin` remote.
+ * @param {string} [apiUrl] - API base URL; defaults to `https://<host>/api/v4`.
+ * @returns {Forge} - The GitLab forge.
+ */
+export function createGitLabForge(remote: RemoteInfo, apiUrl?: string): Forge {
+	const baseUrl = (apiUrl ?? `https://${remote.host}/api/v4`).replace(
+		/\/$/,
+		"",
+	);
+	const projectUrl = `${baseUrl}/projects/${encodeURIComponent(remote.path)}`;
+
+	function api<T>(url: string, init: RequestInit = {}): Promise<T> {
+		return requestJson<T>(url, {
+			...init,
+			headers: { "PRIVATE-TOKEN": process.env[GITLAB_TOKEN_ENV] ?? "" },
+		});
+	}
+
+	async function findUserIds(usernames: string[] = []): Promise<number[]> {
+		const ids: number[] = [];
+		for (const username of usernames) {
+			const users = await api<{ id: number }[]>(
+				`${baseUrl}/users?username=${encodeURIComponent(username.replace(/^@/, ""))}`,
+			);
+			if (!users[0]) {
+				throw new ConfigError(`GitLab user '${username}' not found.`, {
+					hint: "Check the --reviewer and --assignee usernames.",
+				});
+			}
+			ids.push(users[0].id);
+		}
+		return ids;
+	}
+
+	async function findMilestoneId(title?: string): Promise<number | undefined> {
+		if (!title) return undefined;
+		const milestones = await api<{ id: number }[]>(
+			`${projectUrl}/milestones?title=${encodeURIComponent(title)}`,
+		);
+		if (!milestones[0]) {
+			throw new ConfigError(`GitLab milestone '${title}' not found.`, {
+				hint: "Check the --milestone title.",
+			});
+		}
+		return milestones[0].id;
+	}
+
+	// Usernames and milestone titles have to be resolved to IDs for the MR endpoints
+	async function buildMetadataFields(metadata: PrMetadata) {
+		return {
+			...(metadata.base ? { target_branch: metadata.base } : {}),
+			...(metadata.reviewers?.length
+				? { reviewer_ids: await findUserIds(metadata.reviewers) }
+				: {}),
+			...(metadata.assignees?.length
+				? { assignee_ids: await findUserIds(metadata.assignees) }
+				: {}),
+			...(metadata.milestone
+				? { milestone_id: await findMilestoneId(metadata.milestone) }
+				: {}),
+		};
+	}
+
+	function toExistingPr(mr: GitLabMergeRequest): ExistingPr {
+		return {
+			number: mr.iid,
+			url: mr.web_url,
+			title: mr.title,
+			body: mr.description ?? "",
+		};
+	}
+
+	return {
+		name: "gitlab",
+		label: "GitLab",
+		requestName: "MR",
+
+		async checkAuth() {
+			if (!process.env[GITLAB_TOKEN_ENV]) {
+				throw new PrerequisiteError(
+					`${GITLAB_TOKEN_ENV} environment variable is not set. Create a personal access token with the 'api' scope on ${remote.host} and export it.`,
+				);
+			}
+			try {
+				await api(projectUrl);
+			} catch (error: unknown) {
+				throw new ForgeError(
+					`Cannot access GitLab project '${remote.path}': ${error instanceof Error ? error.message : error}`,
+					{ cause: error },
+				);
+			}
+		},
+
+		async findOpenRequest(branchName) {
+			const spinner = ora(
+				theme.info(`Checking for an open MR from '${branchName}'...`),
+			).start();
+			try {
+				const [mr] = await api<GitLabMergeRequest[]>(
+					`${projectUrl}/merge_requests?state=opened&source_branch=${encodeURIComponent(branchName)}`,
+				);
+				if (!mr) {
+					spinner.succeed(theme.success("No open MR found for this branch."));
+					return null;
+				}
+				spinner.succeed(
+					theme.success(`Found open MR !${mr.iid}: ${theme.info(mr.web_url)}`),
+				);
+				return toExistingPr(mr);
+			} catch (error: unknown) {
+				spinner.fail(theme.error("Failed to look up existing MRs."));
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		async createRequest(title, body, branchName, metadata) {
+			const spinner = ora(theme.info("Creating GitLab MR...")).start();
+			try {
+				const mr = await api<GitLabMergeRequest>(
+					`${projectUrl}/merge_requests`,
+					{
+						method: "POST",
+						body: JSON.stringify({
+							source_branch: branchName,
+							// GitLab marks drafts through the title prefix
+							title: metadata.draft ? `Draft: ${title}` : title,
+							description: body,
+							labels: metadata.labels?.join(","),
+							...(await buildMetadataFields(metadata)),
+						}),
+					},
+				);
+				spinner.succeed(
+					theme.success(`MR created successfully: ${theme.info(mr.web_url)}`),
+				);
+				return mr.web_url;
+			} catch (error: unknown) {
+				spinner.fail(theme.error("Failed to create GitLab MR."));
+				// Unknown reviewers and milestones are the user's input, not a failed request
+				if (error instanceof ConfigError) throw error;
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		async updateRequest(pr, title, body, metadata) {
+			const spinner = ora(theme.info(`Updating MR !${pr.number}...`)).start();
+			try {
+				const mr = await api<GitLabMergeRequest>(
+					`${projectUrl}/merge_requests/${pr.number}`,
+					{
+						method: "PUT",
+						body: JSON.stringify({
+							title,
+							description: body,
+							add_labels: metadata.labels?.join(","),
+							// GitLab replaces reviewers/assignees instead of adding to them
+							...(await buildMetadataFields(metadata)),
+						}),
+					},
+				);
+				spinner.succeed(
+					theme.success(`MR updated successfully: ${theme.info(mr.web_url)}`),
+				);
+				return mr.web_url;
+			} catch (error: unknown) {
+				spinner.fail(theme.error(`Failed to update MR !${pr.number}.`));
+				if (error instanceof ConfigError) throw error;
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		async listLabels() {
+			const spinner = ora(theme.info("Fetching project labels...")).start();
+			try {
+				const labels = await api<
+					{ name: string; description: string | null }[]
+				>(`${projectUrl}/labels?per_page=100`);
+				spinner.succeed(theme.success(`Found ${labels.length} label(s).`));
+				return labels.map((label) => ({
+					name: label.name,
+					description: label.description ?? "",
+				}));
+			} catch (error: unknown) {
+				spinner.fail(theme.error("Failed to fetch project labels."));
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		async getIssue(number) {
+			const issue = await api<{
+				title: string;
+				description: string | null;
+				web_url: string;
+			}>(`${projectUrl}/issues/${number}`);
+			return {
+				title: issue.title,
+				body: issue.description ?? "",
+				url: issue.web_url,
+			};
+		},
+
+		async postReview(pr, body, comments: ReviewComment[]) {
+			const spinner = ora(
+				theme.info(`Posting review to MR !${pr.number}...`),
+			).start();
+			const mrUrl = `${projectUrl}/merge_requests/${pr.number}`;
+			try {
+				const { diff_refs: refs } = await api<{
+					diff_refs: { base_sha: string; head_sha: string; start_sha: string };
+				}>(mrUrl);
+				// Comments GitLab cannot anchor (e.g., on unchanged context lines) go into the summary note
+				const unanchored: string[] = [];
+				for (const comment of comments) {
+					try {
+						await api(`${mrUrl}/discussions`, {
+							method: "POST",
+							body: JSON.stringify({
+								body: comment.body,
+								position: {
+									position_type: "text",
+									base_sha: refs.base_sha,
+									start_sha: refs.start_sha,
+									head_sha: refs.head_sha,
+									new_path: comment.path,
+									new_line: comment.line,
+								},
+							}),
+						});
+					} catch {
+						unanchored.push(
+							`\`${comment.path}:${comment.line}\`\n\n${comment.body}`,
+						);
+					}
+				}
+				await api(`${mrUrl}/notes`, {
+					method: "POST",
+					body: JSON.stringify({
+						body: [body, ...unanchored].join("\n\n---\n\n"),
+					}),
+				});
+				spinner.succeed(
+					theme.success(
+						`Review posted with ${comments.length - unanchored.length} inline comment(s): ${theme.info(pr.url)}`,
+					),
+				);
+			} catch (error: unknown) {
+				spinner.fail(theme.error(`Failed to post review to MR !${pr.number}.`));
+				throw new ForgeError(
+					error instanceof Error ? error.message : String(error),
+					{ cause: error },
+				);
+			}
+		},
+
+		openInBrowser: openUrl,
+	};
+}
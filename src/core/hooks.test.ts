@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	mkdir,
+	mkdtemp,
+	readFile,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { $ } from "bun";
+import { ConfigError } from "../utils/errors";
+import {
+	installHookBlock,
+	resolveHookTarget,
+	shouldSkipHookSource,
+	uninstallHookBlock,
+} from "./hooks";
+
+const CUSTOM_HOOK = '#!/usr/bin/env bash\necho "custom"\nexit 0\n';
+
+let dir: string;
+let hook: string;
+
+beforeEach(async () => {
+	dir = await mkdtemp(join(tmpdir(), "gitlift-hooks-"));
+	await mkdir(join(dir, "hooks"));
+	hook = join(dir, "hooks", "prepare-commit-msg");
+});
+
+afterEach(async () => {
+	await rm(dir, { recursive: true, force: true });
+});
+
+describe("installHookBlock", () => {
+	test("creates an executable shell script when there is no hook", async () => {
+		await rm(join(dir, "hooks"), { recursive: true });
+		expect(await installHookBlock(hook)).toBe("installed");
+		const content = await readFile(hook, "utf8");
+		expect(content).toStartWith("#!/bin/sh\n# >>> gitlift >>>\n");
+		expect(content).toEndWith("# <<< gitlift <<<\n");
+		expect((await stat(hook)).mode & 0o111).toBe(0o111);
+	});
+
+	test("inserts the block right after the shebang of an existing script", async () => {
+		await writeFile(hook, CUSTOM_HOOK);
+		expect(await installHookBlock(hook)).toBe("installed");
+		const lines = (await readFile(hook, "utf8")).split("\n");
+		expect(lines[0]).toBe("#!/usr/bin/env bash");
+		expect(lines[1]).toBe("# >>> gitlift >>>");
+		expect(lines.slice(-4)).toEqual([
+			"# <<< gitlift <<<",
+			'echo "custom"',
+			"exit 0",
+			"",
+		]);
+	});
+
+	test("reports a reinstall as updated without duplicating the block", async () => {
+		await writeFile(hook, CUSTOM_HOOK);
+		await installHookBlock(hook);
+		const first = await readFile(hook, "utf8");
+		expect(await installHookBlock(hook)).toBe("updated");
+		const second = await readFile(hook, "utf8");
+		expect(second).toBe(first);
+		expect(second.split("# >>> gitlift >>>")).toHaveLength(2);
+	});
+
+	test("refuses hooks written in another language", async () => {
+		const script = "#!/usr/bin/env python3\nprint('hi')\n";
+		await writeFile(hook, script);
+		expect(installHookBlock(hook)).rejects.toBeInstanceOf(ConfigError);
+		expect(await readFile(hook, "utf8")).toBe(script);
+	});
+});
+
+describe("resolveHookTarget", () => {
+	// Configuration passed through the environment (e.g. core.hooksPath) would override the repository's
+	const CONFIG_COUNT_ENV = "GIT_CONFIG_COUNT";
+	const cwd = process.cwd();
+	const previousConfigCount = process.env[CONFIG_COUNT_ENV];
+
+	beforeEach(async () => {
+		delete process.env[CONFIG_COUNT_ENV];
+		await $`git init -q ${dir}`.quiet();
+		process.chdir(dir);
+	});
+
+	afterEach(() => {
+		process.chdir(cwd);
+		if (previousConfigCount !== undefined) {
+			process.env[CONFIG_COUNT_ENV] = previousConfigCount;
+		}
+	});
+
+	test("uses Git's hooks directory by default", async () => {
+		expect(await resolveHookTarget()).toEqual({
+			manager: "git",
+			path: join(dir, ".git", "hooks", "prepare-commit-msg"),
+		});
+	});
+
+	test("writes Husky hooks to .husky rather than its internal directory", async () => {
+		await $`git config core.hooksPath .husky/_`.quiet();
+		expect(await resolveHookTarget()).toEqual({
+			manager: "husky",
+			path: join(dir, ".husky", "prepare-commit-msg"),
+		});
+	});
+
+	test("points lefthook users at their config file", async () => {
+		await writeFile(join(dir, "lefthook.yml"), "");
+		expect(await resolveHookTarget()).toEqual({
+			manager: "lefthook",
+			path: join(dir, "lefthook.yml"),
+		});
+	});
+});
+
+describe("uninstallHookBlock", () => {
+	test("removes only the GitLift block from a custom hook", async () => {
+		await writeFile(hook, CUSTOM_HOOK);
+		await installHookBlock(hook);
+		expect(await uninstallHookBlock(hook)).toBe(true);
+		expect(await readFile(hook, "utf8")).toBe(CUSTOM_HOOK);
+	});
+
+	test("deletes a hook that only held the GitLift block", async () => {
+		await installHookBlock(hook);
+		expect(await uninstallHookBlock(hook)).toBe(true);
+		expect(stat(hook)).rejects.toThrow();
+	});
+
+	test("leaves hooks without a GitLift block alone", async () => {
+		expect(await uninstallHookBlock(hook)).toBe(false);
+		await writeFile(hook, CUSTOM_HOOK);
+		expect(await uninstallHookBlock(hook)).toBe(false);
+		expect(await readFile(hook, "utf8")).toBe(CUSTOM_HOOK);
+	});
+});
+
+describe("shouldSkipHookSource", () => {
+	test("skips messages Git or the user already provided", () => {
+		for (const source of ["message", "merge", "squash", "commit"]) {
+			expect(shouldSkipHookSource(source)).toBe(true);
+		}
+	});
+
+	test("fills plain commits and template messages", () => {
+		expect(shouldSkipHookSource(undefined)).toBe(false);
+		expect(shouldSkipHookSource("template")).toBe(false);
+	});
+});
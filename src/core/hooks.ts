@@ -0,0 +1,195 @@
+import {
+	access,
+	chmod,
+	mkdir,
+	readFile,
+	rm,
+	writeFile,
+} from "node:fs/promises";
+import { dirname, isAbsolute, join } from "node:path";
+import { $ } from "bun";
+import { ConfigError, GitError } from "../utils/errors";
+import { getRepoRoot } from "./git";
+
+export const HOOK_NAME = "prepare-commit-msg";
+
+const BLOCK_START = "# >>> gitlift >>>";
+const BLOCK_END = "# <<< gitlift <<<";
+
+// Runs GitLift without ever failing the commit; the hook is a convenience, not a gate
+const HOOK_BLOCK = `${BLOCK_START}
+# Pre-fills the commit message with GitLift. Remove with \`gitlift hook uninstall\`.
+if command -v gitlift >/dev/null 2>&1; then
+	gitlift hook run "$1" "$2" "$3" || true
+fi
+${BLOCK_END}`;
+
+const LEFTHOOK_CONFIG_FILES = [
+	"lefthook.yml",
+	".lefthook.yml",
+	"lefthook.yaml",
+	".lefthook.yaml",
+	"lefthook.json",
+	".lefthook.json",
+	"lefthook.toml",
+	".lefthook.toml",
+];
+
+/**
+ * Hook managers GitLift integrates with instead of writing to `.git/hooks` directly.
+ */
+export type HookManager = "git" | "husky" | "lefthook";
+
+/**
+ * Where the `prepare-commit-msg` hook lives for this repository.
+ */
+export interface HookTarget {
+	manager: HookManager;
+	/** Absolute path of the hook file (for lefthook, the config file to edit). */
+	path: string;
+}
+
+/**
+ * Snippet users add to their lefthook config, since `lefthook install` overwrites `.git/hooks`.
+ */
+export const LEFTHOOK_SNIPPET = `${HOOK_NAME}:
+  commands:
+    gitlift:
+      run: gitlift hook run {1} {2} {3} || true`;
+
+async function exists(path: string): Promise<boolean> {
+	try {
+		await access(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Works out where the `prepare-commit-msg` hook should be installed.
+ * Husky (detected via `core.hooksPath`) keeps user hooks in `.husky/`, lefthook is
+ * configured through its own config file, and everything else uses Git's hooks directory.
+ * @returns {Promise<HookTarget>} - The hook manager and file to modify.
+ * @throws {GitError} If not inside a Git repository.
+ */
+export async function resolveHookTarget(): Promise<HookTarget> {
+	const repoRoot = await getRepoRoot();
+	if (!repoRoot) {
+		throw new GitError("Not inside a Git repository.");
+	}
+
+	for (const file of LEFTHOOK_CONFIG_FILES) {
+		const path = join(repoRoot, file);
+		if (await exists(path)) return { manager: "lefthook", path };
+	}
+
+	const hooksPath = (
+		await $`git config core.hooksPath`.cwd(repoRoot).nothrow().quiet().text()
+	).trim();
+	if (/(^|\/)\.husky(\/_)?\/?$/.test(hooksPath)) {
+		// Husky v9 points core.hooksPath at .husky/_ but runs user hooks from .husky/
+		const huskyDir = hooksPath.replace(/\/_\/?$/, "").replace(/\/$/, "");
+		return {
+			manager: "husky",
+			path: join(
+				isAbsolute(huskyDir) ? huskyDir : join(repoRoot, huskyDir),
+				HOOK_NAME,
+			),
+		};
+	}
+
+	const gitHooksDir = (
+		await $`git rev-parse --git-path hooks`.cwd(repoRoot).text()
+	).trim();
+	return {
+		manager: "git",
+		path: join(
+			isAbsolute(gitHooksDir) ? gitHooksDir : join(repoRoot, gitHooksDir),
+			HOOK_NAME,
+		),
+	};
+}
+
+function removeBlock(content: string): string {
+	const start = content.indexOf(BLOCK_START);
+	const end = content.indexOf(BLOCK_END);
+	if (start === -1 || end === -1) return content;
+	return (
+		content.slice(0, start) +
+		content.slice(end + BLOCK_END.length).replace(/^\n/, "")
+	);
+}
+
+/**
+ * Adds the GitLift block to a hook file, creating the file if needed.
+ * Existing hook content is preserved; the block is inserted right after the shebang so
+ * an `exit` later in the script cannot skip it.
+ * @param {string} path - Absolute path of the hook file.
+ * @returns {Promise<"installed" | "updated">} - Whether the hook was created/extended or an older block replaced.
+ * @throws {ConfigError} If the existing hook is not a shell script.
+ */
+export async function installHookBlock(
+	path: string,
+): Promise<"installed" | "updated"> {
+	const existing = (await exists(path)) ? await readFile(path, "utf8") : "";
+	const alreadyInstalled = existing.includes(BLOCK_START);
+	const content = removeBlock(existing);
+
+	let updated: string;
+	if (!content.trim()) {
+		updated = `#!/bin/sh\n${HOOK_BLOCK}\n`;
+	} else if (content.startsWith("#!")) {
+		if (!/^#!.*\b(sh|bash|zsh|dash)\b/.test(content)) {
+			throw new ConfigError(`Existing hook ${path} is not a shell script.`, {
+				hint: `Call 'gitlift hook run "$1" "$2" "$3"' from it manually.`,
+			});
+		}
+		const newline = content.indexOf("\n");
+		const shebang = newline === -1 ? content : content.slice(0, newline);
+		const rest = newline === -1 ? "" : content.slice(newline + 1);
+		updated = `${shebang}\n${HOOK_BLOCK}\n${rest}`;
+	} else {
+		updated = `${HOOK_BLOCK}\n${content}`;
+	}
+
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(path, updated);
+	await chmod(path, 0o755);
+	return alreadyInstalled ? "updated" : "installed";
+}
+
+/**
+ * Removes the GitLift block from a hook file, deleting the file if nothing else is left.
+ * @param {string} path - Absolute path of the hook file.
+ * @returns {Promise<boolean>} - False if the hook did not contain a GitLift block.
+ */
+export async function uninstallHookBlock(path: string): Promise<boolean> {
+	if (!(await exists(path))) return false;
+	const existing = await readFile(path, "utf8");
+	if (!existing.includes(BLOCK_START)) return false;
+
+	const content = removeBlock(existing);
+	if (!content.replace(/^#!.*$/m, "").trim()) {
+		await rm(path);
+	} else {
+		await writeFile(path, content);
+	}
+	return true;
+}
+
+/**
+ * Decides whether the hook should leave the message alone, based on the
+ * `prepare-commit-msg` source argument.
+ * Merges, squashes, amends/reuses (`commit`) and messages given with `-m`/`-F` (`message`) are skipped.
+ * @param {string | undefined} source - The second argument Git passes to the hook.
+ * @returns {boolean} - True if GitLift should not generate a message.
+ */
+export function shouldSkipHookSource(source: string | undefined): boolean {
+	return (
+		source === "message" ||
+		source === "merge" ||
+		source === "squash" ||
+		source === "commit"
+	);
+}
@@ -0,0 +1,54 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { $ } from "bun";
+import { IGNORE_FILE_NAME, loadIgnoreMatcher } from "./ignore";
+
+describe("loadIgnoreMatcher", () => {
+	const cwd = process.cwd();
+	let root: string;
+
+	beforeAll(async () => {
+		root = await mkdtemp(join(tmpdir(), "gitlift-ignore-"));
+		await $`git init -q ${root}`.quiet();
+		await writeFile(
+			join(root, IGNORE_FILE_NAME),
+			"# secrets stay local\n*.pem\nfixtures/\n",
+		);
+		// Paths are matched relative to the repository root, even from a subdirectory
+		await mkdir(join(root, "src"));
+		process.chdir(join(root, "src"));
+	});
+
+	afterAll(async () => {
+		process.chdir(cwd);
+		await rm(root, { recursive: true, force: true });
+	});
+
+	test("applies the .gitliftignore rules at the repository root", async () => {
+		const isExcluded = await loadIgnoreMatcher();
+		expect(isExcluded("certs/server.pem")).toBe(true);
+		expect(isExcluded("fixtures/big.json")).toBe(true);
+		expect(isExcluded("src/index.ts")).toBe(false);
+	});
+
+	test("adds the exclude patterns from the config", async () => {
+		const isExcluded = await loadIgnoreMatcher(["docs/**", "*.snap"]);
+		expect(isExcluded("docs/guide.md")).toBe(true);
+		expect(isExcluded("src/__snapshots__/a.snap")).toBe(true);
+		expect(isExcluded("key.pem")).toBe(true);
+		expect(isExcluded("README.md")).toBe(false);
+	});
+
+	test("falls back to the config patterns outside a repository", async () => {
+		process.chdir(tmpdir());
+		try {
+			const isExcluded = await loadIgnoreMatcher(["*.log"]);
+			expect(isExcluded("debug.log")).toBe(true);
+			expect(isExcluded("key.pem")).toBe(false);
+		} finally {
+			process.chdir(join(root, "src"));
+		}
+	});
+});
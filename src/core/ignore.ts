@@ -0,0 +1,33 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import ignore from "ignore";
+import { theme } from "../ui/theme";
+import { getRepoRoot } from "./git";
+
+export const IGNORE_FILE_NAME = ".gitliftignore";
+
+/**
+ * Builds a matcher for paths whose diff should never be sent to the AI.
+ * Combines the `.gitliftignore` file at the repository root (gitignore syntax)
+ * with the `exclude` patterns from the configuration.
+ * @param {string[]} [exclude=[]] - Extra gitignore-style patterns from the config.
+ * @returns {Promise<(path: string) => boolean>} - Returns true for repository-relative paths to exclude.
+ */
+export async function loadIgnoreMatcher(
+	exclude: string[] = [],
+): Promise<(path: string) => boolean> {
+	const matcher = ignore().add(exclude);
+
+	const repoRoot = await getRepoRoot();
+	if (repoRoot) {
+		const ignoreFilePath = join(repoRoot, IGNORE_FILE_NAME);
+		try {
+			matcher.add(await readFile(ignoreFilePath, "utf8"));
+			console.log(theme.dim(`Loaded ignore rules from: ${ignoreFilePath}`));
+		} catch {
+			// No .gitliftignore in this repository; config patterns still apply
+		}
+	}
+
+	return (path: string) => matcher.ignores(path);
+}
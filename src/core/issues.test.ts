@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigError } from "../utils/errors";
+import {
+	appendIssueLinks,
+	extractIssueReferences,
+	resolveIssueSettings,
+} from "./issues";
+
+const JIRA = { jiraUrl: "https://acme.atlassian.net" };
+
+describe("extractIssueReferences", () => {
+	test("closes issues named by a marked branch segment or the type/<n>-slug shape", () => {
+		for (const branch of [
+			"fix/456-login",
+			"feature/gh-456",
+			"issue-456-login",
+			"#456",
+		]) {
+			expect(extractIssueReferences(branch, [])).toEqual([
+				{ id: "456", kind: "number", closes: true },
+			]);
+		}
+	});
+
+	test("ignores unmarked numbers outside the type/<n>-slug shape", () => {
+		for (const branch of [
+			"release/2",
+			"hotfix/2024-10-19-login",
+			"v2/cleanup",
+			"2-fix",
+		]) {
+			expect(extractIssueReferences(branch, [])).toEqual([]);
+		}
+	});
+
+	test("closes issues from commits only with a closing keyword", () => {
+		expect(
+			extractIssueReferences(null, ["Fixes #12", "Refs #34", "see #34"]),
+		).toEqual([
+			{ id: "12", kind: "number", closes: true },
+			{ id: "34", kind: "number", closes: false },
+		]);
+	});
+
+	test("lets a closing reference win over a plain one", () => {
+		expect(extractIssueReferences(null, ["Refs #7", "Resolves #7"])).toEqual([
+			{ id: "7", kind: "number", closes: true },
+		]);
+	});
+
+	test("ignores ticket keys without a tracker", () => {
+		expect(
+			extractIssueReferences("feat/UTF-8-support", [
+				"Switch hashes to SHA-256 and dates to ISO-8601",
+				"Patch CVE-2024",
+			]),
+		).toEqual([]);
+	});
+
+	test("finds ticket keys when jiraUrl is set", () => {
+		expect(
+			extractIssueReferences("PROJ-123-login", ["Follow-up to PROJ-99"], JIRA),
+		).toEqual([
+			{ id: "PROJ-123", kind: "key", closes: true },
+			{ id: "PROJ-99", kind: "key", closes: false },
+		]);
+	});
+
+	test("uses only the custom pattern when one is configured", () => {
+		expect(
+			extractIssueReferences("ENG-5-fix/456-x", ["ENG-6 and #7"], {
+				pattern: "\\b(ENG-\\d+)\\b",
+			}),
+		).toEqual([
+			{ id: "ENG-5", kind: "key", closes: true },
+			{ id: "ENG-6", kind: "key", closes: false },
+		]);
+		expect(() => extractIssueReferences("main", [], { pattern: "(" })).toThrow(
+			ConfigError,
+		);
+	});
+});
+
+describe("appendIssueLinks", () => {
+	const settings = resolveIssueSettings(JIRA);
+
+	test("adds closing keywords, references and ticket links", () => {
+		const body = appendIssueLinks(
+			"Body",
+			[
+				{ id: "456", kind: "number", closes: true },
+				{ id: "34", kind: "number", closes: false },
+				{ id: "PROJ-1", kind: "key", closes: false },
+			],
+			settings,
+			true,
+		);
+		expect(body).toBe(
+			"Body\n\nCloses #456\nRefs #34\nRefs: [PROJ-1](https://acme.atlassian.net/browse/PROJ-1)",
+		);
+	});
+
+	test("skips references the body already mentions", () => {
+		expect(
+			appendIssueLinks(
+				"Fixes #456",
+				[{ id: "456", kind: "number", closes: true }],
+				settings,
+				false,
+			),
+		).toBe("Fixes #456");
+	});
+
+	test("leaves the body alone when linking is off", () => {
+		expect(
+			appendIssueLinks(
+				"Body",
+				[{ id: "1", kind: "number", closes: true }],
+				resolveIssueSettings({ link: false }),
+				false,
+			),
+		).toBe("Body");
+	});
+});
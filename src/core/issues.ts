@@ -0,0 +1,333 @@
+import ora from "ora";
+import { theme } from "../ui/theme";
+import { ConfigError } from "../utils/errors";
+import { type Forge, requestJson } from "./forge";
+
+export const JIRA_EMAIL_ENV = "JIRA_EMAIL";
+export const JIRA_API_TOKEN_ENV = "JIRA_API_TOKEN";
+
+/**
+ * The `issues` section of the config file.
+ */
+export interface IssueConfig {
+	/** Regex matching issue references; capture group 1 (or the whole match) is the ID. */
+	pattern?: string;
+	/** Base URL of a Jira-style tracker (e.g., "https://acme.atlassian.net") for ticket keys. */
+	jiraUrl?: string;
+	/** Fetch issue titles and bodies for the prompt. */
+	fetch?: boolean;
+	/** Add closing keywords and ticket links to PR bodies and commit footers. */
+	link?: boolean;
+	/** Keyword used to close forge issues (e.g., "Closes", "Fixes"). */
+	closeKeyword?: string;
+}
+
+/**
+ * An issue reference found in the branch name or commit messages.
+ */
+export interface IssueReference {
+	/** The issue number ("456") or ticket key ("PROJ-123"). */
+	id: string;
+	/** Numbers belong to the forge's issue tracker, keys to a Jira-style tracker. */
+	kind: "number" | "key";
+	/** Whether the change resolves the issue (branch references and closing keywords). */
+	closes: boolean;
+}
+
+/**
+ * A referenced issue with the details fetched from its tracker.
+ */
+export interface LinkedIssue {
+	reference: IssueReference;
+	title: string;
+	body: string;
+	url: string | null;
+}
+
+/**
+ * The issue settings with defaults applied.
+ */
+export type IssueSettings = IssueConfig &
+	Required<Pick<IssueConfig, "fetch" | "link" | "closeKeyword">>;
+
+const DEFAULT_ISSUE_CONFIG: IssueSettings = {
+	fetch: true,
+	link: true,
+	closeKeyword: "Closes",
+};
+
+// Ticket keys like PROJ-123, anywhere in the branch name or commit messages; only looked for
+// with a configured tracker, since UTF-8 or SHA-256 look the same
+const TICKET_KEY_PATTERN = /\b([A-Z][A-Z0-9]{1,9}-\d+)\b/g;
+// Marked issue numbers as a branch name segment: feature/gh-456, issue-456, #456
+const BRANCH_NUMBER_PATTERN = /(?:^|\/)(?:issue-|gh-|#)(\d+)(?=[-_/]|$)/g;
+// The type/<number>-slug shape (fix/456-login), the only place an unmarked number names an
+// issue; dates and versions (hotfix/2024-10-19, release/2) do not
+const BRANCH_TYPE_ISSUE_PATTERN = /^[a-z][\w.-]*\/(\d+)[-_][a-z]/i;
+// Issue numbers after a keyword in commit messages ("Fixes #12", "Refs #34")
+const COMMIT_NUMBER_PATTERN =
+	/\b(close[sd]?|fix(?:e[sd])?|resolve[sd]?|refs?|see|part of)\s+#(\d+)\b/gi;
+const CLOSING_KEYWORD = /^(close[sd]?|fix(?:e[sd])?|resolve[sd]?)$/i;
+
+// Long issue bodies are cut so they do not crowd out the diff
+const MAX_ISSUE_BODY_CHARS = 1500;
+
+/**
+ * Fills in the defaults of the `issues` config section.
+ * @param {IssueConfig} [config] - The configured section, if any.
+ * @returns {IssueSettings} - The effective settings.
+ */
+export function resolveIssueSettings(config: IssueConfig = {}): IssueSettings {
+	return { ...DEFAULT_ISSUE_CONFIG, ...config };
+}
+
+/**
+ * Formats a reference the way it is written in Markdown (e.g., "#456" or "PROJ-123").
+ * @param {IssueReference} reference - The reference.
+ * @returns {string} - The display form.
+ */
+export function formatIssueReference(reference: IssueReference): string {
+	return reference.kind === "number" ? `#${reference.id}` : reference.id;
+}
+
+function addReference(
+	references: IssueReference[],
+	id: string,
+	closes: boolean,
+) {
+	const existing = references.find((reference) => reference.id === id);
+	if (existing) {
+		existing.closes ||= closes;
+		return;
+	}
+	references.push({ id, kind: /^\d+$/.test(id) ? "number" : "key", closes });
+}
+
+/**
+ * Finds issue references in the branch name and commit messages.
+ * With a custom pattern, every match is a reference; branch matches close their issue.
+ * By default, ticket keys match anywhere if `jiraUrl` is set. Branch numbers match with a marker
+ * (`gh-456`, `issue-456`, `#456`) or in the `fix/456-login` shape and close their issue; other
+ * numbers in the branch name (`release/2`, `hotfix/2024-10-19`) are ignored. Commit numbers match
+ * after a keyword, and only closing keywords ("Fixes #12") close an issue.
+ * @param {string | null} branch - The current branch name.
+ * @param {string[]} messages - Commit messages to scan.
+ * @param {Pick<IssueConfig, "pattern" | "jiraUrl">} [config] - The custom regex and ticket tracker, if configured.
+ * @returns {IssueReference[]} - Unique references, branch references first.
+ * @throws {ConfigError} If the custom pattern is not a valid regex.
+ */
+export function extractIssueReferences(
+	branch: string | null,
+	messages: string[],
+	config: Pick<IssueConfig, "pattern" | "jiraUrl"> = {},
+): IssueReference[] {
+	const references: IssueReference[] = [];
+	const { pattern, jiraUrl } = config;
+
+	if (pattern) {
+		let regex: RegExp;
+		try {
+			regex = new RegExp(pattern, "g");
+		} catch (error: unknown) {
+			throw new ConfigError(
+				`Invalid issues.pattern in config: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+		for (const match of (branch ?? "").matchAll(regex)) {
+			addReference(references, (match[1] ?? match[0]).replace(/^#/, ""), true);
+		}
+		for (const message of messages) {
+			for (const match of message.matchAll(regex)) {
+				addReference(
+					references,
+					(match[1] ?? match[0]).replace(/^#/, ""),
+					false,
+				);
+			}
+		}
+		return references;
+	}
+
+	if (branch) {
+		if (jiraUrl) {
+			for (const match of branch.matchAll(TICKET_KEY_PATTERN)) {
+				if (match[1]) addReference(references, match[1], true);
+			}
+		}
+		const typedIssue = BRANCH_TYPE_ISSUE_PATTERN.exec(branch)?.[1];
+		if (typedIssue) addReference(references, typedIssue, true);
+		for (const match of branch.matchAll(BRANCH_NUMBER_PATTERN)) {
+			if (match[1]) addReference(references, match[1], true);
+		}
+	}
+	for (const message of messages) {
+		if (jiraUrl) {
+			for (const match of message.matchAll(TICKET_KEY_PATTERN)) {
+				if (match[1]) addReference(references, match[1], false);
+			}
+		}
+		for (const match of message.matchAll(COMMIT_NUMBER_PATTERN)) {
+			if (match[2]) {
+				addReference(
+					references,
+					match[2],
+					CLOSING_KEYWORD.test(match[1] ?? ""),
+				);
+			}
+		}
+	}
+	return references;
+}
+
+function getJiraAuthorizationHeader(): string | null {
+	const token = process.env[JIRA_API_TOKEN_ENV];
+	if (!token) return null;
+	const email = process.env[JIRA_EMAIL_ENV];
+	// Jira Cloud uses email + API token; Server/Data Center uses personal access tokens
+	return email
+		? `Basic ${Buffer.from(`${email}:${token}`).toString("base64")}`
+		: `Bearer ${token}`;
+}
+
+/**
+ * Builds the browser URL of a ticket in a Jira-style tracker.
+ * @param {string} jiraUrl - The tracker's base URL.
+ * @param {string} key - The ticket key.
+ * @returns {string} - The ticket URL.
+ */
+export function getTicketUrl(jiraUrl: string, key: string): string {
+	return `${jiraUrl.replace(/\/$/, "")}/browse/${key}`;
+}
+
+async function fetchJiraTicket(
+	jiraUrl: string,
+	reference: IssueReference,
+): Promise<LinkedIssue> {
+	const ticket = await requestJson<{
+		fields: { summary: string; description: string | null };
+	}>(
+		`${jiraUrl.replace(/\/$/, "")}/rest/api/2/issue/${encodeURIComponent(reference.id)}?fields=summary,description`,
+		{ headers: { Authorization: getJiraAuthorizationHeader() ?? "" } },
+	);
+	return {
+		reference,
+		title: ticket.fields.summary,
+		body: ticket.fields.description ?? "",
+		url: getTicketUrl(jiraUrl, reference.id),
+	};
+}
+
+/**
+ * Fetches the title and body of each referenced issue: numbers from the forge, keys from the
+ * configured Jira-style tracker. Issues that cannot be fetched are skipped with a warning.
+ * @param {IssueReference[]} references - The references to look up.
+ * @param {IssueSettings} settings - The effective issue settings.
+ * @param {Forge | null} forge - The forge for numbered issues, or null if there is none.
+ * @returns {Promise<LinkedIssue[]>} - The issues that were found.
+ */
+export async function fetchIssues(
+	references: IssueReference[],
+	settings: IssueSettings,
+	forge: Forge | null,
+): Promise<LinkedIssue[]> {
+	if (references.length === 0) return [];
+	const spinner = ora(
+		theme.info(
+			`Fetching linked issues: ${references.map(formatIssueReference).join(", ")}...`,
+		),
+	).start();
+
+	const issues: LinkedIssue[] = [];
+	const failures: string[] = [];
+	for (const reference of references) {
+		try {
+			if (reference.kind === "number") {
+				if (!forge) continue;
+				const issue = await forge.getIssue(Number(reference.id));
+				issues.push({ reference, ...issue });
+			} else if (settings.jiraUrl) {
+				issues.push(await fetchJiraTicket(settings.jiraUrl, reference));
+			}
+		} catch (error: unknown) {
+			failures.push(
+				`${formatIssueReference(reference)}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	}
+
+	if (failures.length > 0) {
+		spinner.warn(
+			theme.warning(
+				`Fetched ${issues.length} of ${references.length} linked issue(s). Could not fetch:\n${failures.map((f) => `  - ${f}`).join("\n")}`,
+			),
+		);
+	} else {
+		spinner.succeed(theme.success(`Fetched ${issues.length} linked issue(s).`));
+	}
+	return issues;
+}
+
+/**
+ * Renders fetched issues as context for the prompt.
+ * @param {LinkedIssue[]} issues - The fetched issues.
+ * @returns {string} - The prompt section, or an empty string if there are none.
+ */
+export function formatIssuesForPrompt(issues: LinkedIssue[]): string {
+	return issues
+		.map((issue) => {
+			const body =
+				issue.body.length > MAX_ISSUE_BODY_CHARS
+					? `${issue.body.slice(0, MAX_ISSUE_BODY_CHARS)}\n[... truncated ...]`
+					: issue.body;
+			const status = issue.reference.closes ? "resolved by" : "related to";
+			return `### ${formatIssueReference(issue.reference)}: ${issue.title} (${status} this change)\n${body.trim() || "(no description)"}`;
+		})
+		.join("\n\n");
+}
+
+/**
+ * Adds closing keywords and ticket links for the referenced issues to a PR body or a commit
+ * message body (as footer lines). References the text already mentions this way are skipped.
+ * @param {string} body - The generated body.
+ * @param {IssueReference[]} references - The references found for the change.
+ * @param {IssueSettings} settings - The effective issue settings.
+ * @param {boolean} markdown - Link tickets with Markdown (PR bodies) instead of plain trailers (commits).
+ * @returns {string} - The body with the links appended.
+ */
+export function appendIssueLinks(
+	body: string,
+	references: IssueReference[],
+	settings: IssueSettings,
+	markdown: boolean,
+): string {
+	if (!settings.link) return body;
+
+	const lines: string[] = [];
+	for (const reference of references) {
+		if (reference.kind === "number") {
+			const keyword = reference.closes ? settings.closeKeyword : "Refs";
+			const mentioned = new RegExp(
+				`\\b(close[sd]?|fix(e[sd])?|resolve[sd]?|refs?)\\s+#${reference.id}\\b`,
+				"i",
+			);
+			if (!mentioned.test(body)) lines.push(`${keyword} #${reference.id}`);
+		} else {
+			const url = settings.jiraUrl
+				? getTicketUrl(settings.jiraUrl, reference.id)
+				: null;
+			const mentioned =
+				(url !== null && body.includes(url)) ||
+				new RegExp(`^Refs: .*\\b${reference.id}\\b`, "m").test(body);
+			if (mentioned) continue;
+			lines.push(
+				markdown && url
+					? `Refs: [${reference.id}](${url})`
+					: `Refs: ${reference.id}`,
+			);
+		}
+	}
+	if (lines.length === 0) return body;
+	return body.trim()
+		? `${body.trimEnd()}\n\n${lines.join("\n")}`
+		: lines.join("\n");
+}
@@ -0,0 +1,86 @@
+import { readFile, readdir } from "node:fs/promises";
+import { basename, join, relative } from "node:path";
+import { getRepoRoot } from "./git";
+
+/**
+ * A pull request template discovered in the repository.
+ */
+export interface PrTemplate {
+	/** File name without the `.md` extension, used by `--template <name>`. */
+	name: string;
+	/** Path relative to the repository root. */
+	path: string;
+	content: string;
+}
+
+// Locations GitHub reads single templates from, in GitHub's lookup order
+const TEMPLATE_DIRS = [".github", "", "docs"];
+const TEMPLATE_FILE_PATTERN = /^pull_request_template\.md$/i;
+const TEMPLATE_FOLDER_PATTERN = /^pull_request_template$/i;
+
+async function listEntries(dir: string) {
+	try {
+		return await readdir(dir, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Discovers pull request templates in the current repository.
+ * Looks for `pull_request_template.md` (any casing) in `.github/`, the repository root and `docs/`,
+ * and for every markdown file inside a `PULL_REQUEST_TEMPLATE/` folder in those locations.
+ * @returns {Promise<PrTemplate[]>} - The templates found, single-file templates first.
+ */
+export async function findPrTemplates(): Promise<PrTemplate[]> {
+	const repoRoot = await getRepoRoot();
+	if (!repoRoot) return [];
+
+	const singleFiles: string[] = [];
+	const folderFiles: string[] = [];
+
+	for (const dir of TEMPLATE_DIRS) {
+		const absoluteDir = join(repoRoot, dir);
+		for (const entry of await listEntries(absoluteDir)) {
+			if (entry.isFile() && TEMPLATE_FILE_PATTERN.test(entry.name)) {
+				singleFiles.push(join(absoluteDir, entry.name));
+			} else if (
+				entry.isDirectory() &&
+				TEMPLATE_FOLDER_PATTERN.test(entry.name)
+			) {
+				const folder = join(absoluteDir, entry.name);
+				for (const file of await listEntries(folder)) {
+					if (file.isFile() && file.name.toLowerCase().endsWith(".md")) {
+						folderFiles.push(join(folder, file.name));
+					}
+				}
+			}
+		}
+	}
+
+	return Promise.all(
+		[...singleFiles, ...folderFiles.sort()].map(async (file) => ({
+			name: basename(file).replace(/\.md$/i, ""),
+			path: relative(repoRoot, file),
+			content: await readFile(file, "utf8"),
+		})),
+	);
+}
+
+/**
+ * Finds a template by name (case-insensitive) or by its repository-relative path.
+ * @param {PrTemplate[]} templates - The discovered templates.
+ * @param {string} nameOrPath - The value passed to `--template`.
+ * @returns {PrTemplate | undefined} - The matching template, if any.
+ */
+export function findPrTemplateByName(
+	templates: PrTemplate[],
+	nameOrPath: string,
+): PrTemplate | undefined {
+	const wanted = nameOrPath.toLowerCase().replace(/\.md$/, "");
+	return templates.find(
+		(template) =>
+			template.name.toLowerCase() === wanted ||
+			template.path.toLowerCase().replace(/\.md$/, "") === wanted,
+	);
+}
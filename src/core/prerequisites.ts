@@ -1,56 +1,58 @@
-import { $ } from "bun";
 import ora from "ora";
 import { theme } from "../ui/theme";
+import { CommandError, PrerequisiteError } from "../utils/errors";
+import type { Forge } from "./forge";
+import { githubForge } from "./github";
+import {
+	PROVIDERS,
+	type ProviderOptions,
+	assertProviderCredentials,
+} from "./provider";
 
 /**
- * Checks if required tools (git, gh) are installed and authenticated.
- * Checks for the OPENAI_API_KEY environment variable.
- * Throws an error if any prerequisite is missing.
+ * Checks if Git is installed and the forge (gh for GitHub, API tokens for GitLab/Bitbucket) is usable.
+ * Checks for the credentials required by the selected AI provider.
+ * Throws a `PrerequisiteError` if a tool or credentials are missing, a `ForgeError` if the forge
+ * cannot be reached and a `ConfigError` if the provider settings are incomplete.
+ * @param {ProviderOptions} [providerOptions] - The AI provider to check credentials for (defaults to OpenAI).
+ * @param {Forge | null} [forge] - The forge to check access to (defaults to GitHub); null for commands that do not use one.
  */
-export async function checkPrerequisites() {
+export async function checkPrerequisites(
+	providerOptions: ProviderOptions = { provider: "openai" },
+	forge: Forge | null = githubForge,
+) {
 	const spinner = ora("Checking prerequisites...").start();
 	try {
 		// Check Git
 		spinner.text = "Checking Git installation...";
 		if (!Bun.which("git")) {
-			throw new Error(
+			throw new PrerequisiteError(
 				"Git is not installed. Please install git and try again.",
 			);
 		}
 		spinner.succeed(theme.success("Git found."));
 
-		// Check GitHub CLI
-		spinner.start("Checking GitHub CLI installation...");
-		if (!Bun.which("gh")) {
-			throw new Error(
-				"GitHub CLI (gh) is not installed. Please install it (e.g., 'brew install gh') and authenticate with 'gh auth login'.",
-			);
-		}
-		spinner.succeed(theme.success("GitHub CLI found."));
-
-		// Check GitHub CLI Auth Status
-		spinner.start("Checking GitHub CLI authentication...");
-		try {
-			await $`gh auth status`.quiet();
-			spinner.succeed(theme.success("GitHub CLI authenticated."));
-		} catch (authError) {
-			throw new Error(
-				"GitHub CLI is not authenticated. Please run 'gh auth login'.",
-			);
+		// Check forge access (CLI installation and authentication, or API token)
+		if (forge) {
+			spinner.start(`Checking ${forge.label} access...`);
+			await forge.checkAuth();
+			spinner.succeed(theme.success(`${forge.label} access verified.`));
 		}
 
-		// Check OpenAI API Key
-		spinner.start("Checking OpenAI API Key...");
-		if (!process.env.OPENAI_API_KEY) {
-			throw new Error(
-				"OPENAI_API_KEY environment variable is not set. Please set it (e.g., 'export OPENAI_API_KEY=your_key') and try again.",
-			);
-		}
-		spinner.succeed(theme.success("OPENAI_API_KEY found."));
+		// Check AI provider credentials
+		const { label } = PROVIDERS[providerOptions.provider];
+		spinner.start(`Checking ${label} credentials...`);
+		assertProviderCredentials(providerOptions);
+		spinner.succeed(theme.success(`${label} credentials found.`));
 	} catch (error: unknown) {
 		spinner.fail(theme.error("Prerequisite check failed."));
-		// Re-throw the original error preserving the message
-		if (error instanceof Error) throw error;
-		throw new Error("An unknown error occurred during prerequisite checks.");
+		// Classified errors keep their exit code and hint; anything else counts as a missing prerequisite
+		if (error instanceof CommandError) throw error;
+		throw new PrerequisiteError(
+			error instanceof Error
+				? error.message
+				: "An unknown error occurred during prerequisite checks.",
+			{ cause: error },
+		);
 	}
 }
@@ -0,0 +1,189 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ConfigError } from "../utils/errors";
+import { getRepoRoot } from "./git";
+
+/**
+ * Prompt overrides for one kind of content, from the `prompt.pr` / `prompt.commit` config keys.
+ * A plain string is shorthand for `{ instructions }`.
+ */
+export type PromptTemplateConfig =
+	| string
+	| {
+			/** Project guidelines added to the default (or custom) system prompt. */
+			instructions?: string;
+			/** Replaces the system prompt; may use placeholders. */
+			system?: string;
+			/** Replaces the user prompt; may use placeholders. */
+			user?: string;
+	  };
+
+/**
+ * The `prompt` section of the config file.
+ */
+export interface PromptConfig {
+	pr?: PromptTemplateConfig;
+	commit?: PromptTemplateConfig;
+}
+
+export type PromptKind = keyof PromptConfig;
+
+/**
+ * The effective prompt customization for one kind of content.
+ */
+export interface PromptTemplates {
+	/** Repository guidelines (`.gitlift/instructions.md`) followed by the configured instructions. */
+	instructions: string;
+	system?: string;
+	user?: string;
+}
+
+// Values each kind of prompt can reference as {{name}}
+const PLACEHOLDERS: Record<PromptKind, string[]> = {
+	pr: [
+		"diff",
+		"commits",
+		"language",
+		"branch",
+		"issues",
+		"template",
+		"instructions",
+	],
+	commit: [
+		"diff",
+		"language",
+		"branch",
+		"issues",
+		"convention",
+		"maxTitleLength",
+		"instructions",
+	],
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Shared guidelines, and per-kind template files (e.g., .gitlift/prompts/pr.system.md)
+const INSTRUCTIONS_FILE = join(".gitlift", "instructions.md");
+const TEMPLATE_DIR = join(".gitlift", "prompts");
+
+async function readOptionalFile(path: string): Promise<string | undefined> {
+	try {
+		return (await readFile(path, "utf8")).trim() || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function validateTemplate(template: string, kind: PromptKind, source: string) {
+	const allowed = PLACEHOLDERS[kind];
+	for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+		if (!allowed.includes(match[1] as string)) {
+			throw new ConfigError(
+				`Unknown placeholder ${match[0]} in ${source}. Available for ${kind} prompts: ${allowed.map((name) => `{{${name}}}`).join(", ")}.`,
+			);
+		}
+	}
+}
+
+/**
+ * Loads the prompt customization for PRs or commits. Guidelines come from `.gitlift/instructions.md`
+ * (shared by both kinds) plus the configured instructions; template overrides come from the config or,
+ * if not configured, from `.gitlift/prompts/<kind>.system.md` and `.gitlift/prompts/<kind>.user.md`.
+ * @param {PromptConfig | undefined} config - The `prompt` config section.
+ * @param {PromptKind} kind - Which prompts to load.
+ * @returns {Promise<PromptTemplates>} - The guidelines and templates (empty if nothing is customized).
+ * @throws {ConfigError} If a template uses a placeholder that is not available for its kind.
+ */
+export async function loadPromptTemplates(
+	config: PromptConfig | undefined,
+	kind: PromptKind,
+): Promise<PromptTemplates> {
+	const entry = config?.[kind];
+	const configured =
+		typeof entry === "string" ? { instructions: entry } : entry;
+	const repoRoot = await getRepoRoot();
+	const fromRepo = (path: string) =>
+		repoRoot ? readOptionalFile(join(repoRoot, path)) : undefined;
+
+	const instructions = [
+		await fromRepo(INSTRUCTIONS_FILE),
+		configured?.instructions?.trim(),
+	]
+		.filter(Boolean)
+		.join("\n\n");
+
+	const templates: PromptTemplates = { instructions };
+	for (const part of ["system", "user"] as const) {
+		const file = join(TEMPLATE_DIR, `${kind}.${part}.md`);
+		const template = configured?.[part] ?? (await fromRepo(file));
+		if (!template) continue;
+		validateTemplate(
+			template,
+			kind,
+			configured?.[part] ? `prompt.${kind}.${part}` : file,
+		);
+		templates[part] = template;
+	}
+	return templates;
+}
+
+/**
+ * Fills in the `{{name}}` placeholders of a template.
+ * @param {string} template - The template text.
+ * @param {Record<string, string>} values - Placeholder values by name.
+ * @returns {string} - The rendered prompt.
+ */
+export function renderPromptTemplate(
+	template: string,
+	values: Record<string, string>,
+): string {
+	return template.replace(
+		PLACEHOLDER_PATTERN,
+		(match, name: string) => values[name] ?? match,
+	);
+}
+
+/**
+ * Appends project guidelines to a system prompt.
+ * @param {string} systemPrompt - The system prompt.
+ * @param {string} [instructions] - The guidelines, if any.
+ * @returns {string} - The system prompt with the guidelines section.
+ */
+export function withInstructions(
+	systemPrompt: string,
+	instructions?: string,
+): string {
+	if (!instructions) return systemPrompt;
+	return `${systemPrompt}\n\nProject guidelines (follow them; they take precedence over the general instructions above):\n${instructions}`;
+}
+
+/**
+ * Applies the prompt customization to the default prompts: custom templates replace them, and
+ * guidelines are appended to the system prompt unless the template places `{{instructions}}` itself.
+ * @param {{ systemPrompt: string; userPrompt: string }} defaults - The built-in prompts.
+ * @param {PromptTemplates | undefined} templates - The loaded customization.
+ * @param {Record<string, string>} values - Placeholder values (`instructions` is added automatically).
+ * @returns {{ systemPrompt: string; userPrompt: string }} - The prompts to send.
+ */
+export function applyPromptTemplates(
+	defaults: { systemPrompt: string; userPrompt: string },
+	templates: PromptTemplates | undefined,
+	values: Record<string, string>,
+): { systemPrompt: string; userPrompt: string } {
+	if (!templates) return defaults;
+	const allValues = { ...values, instructions: templates.instructions };
+	const systemPrompt = templates.system
+		? renderPromptTemplate(templates.system, allValues)
+		: defaults.systemPrompt;
+	const placesInstructions = /\{\{\s*instructions\s*\}\}/.test(
+		templates.system ?? "",
+	);
+	return {
+		systemPrompt: placesInstructions
+			? systemPrompt
+			: withInstructions(systemPrompt, templates.instructions),
+		userPrompt: templates.user
+			? renderPromptTemplate(templates.user, allValues)
+			: defaults.userPrompt,
+	};
+}
@@ -0,0 +1,134 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModelV1 } from "ai";
+import { ConfigError, PrerequisiteError } from "../utils/errors";
+
+/**
+ * AI providers GitLift knows how to talk to.
+ */
+export const PROVIDER_NAMES = [
+	"openai",
+	"anthropic",
+	"ollama",
+	"openai-compatible",
+] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+/**
+ * Provider selection plus the optional endpoint override used to build a model.
+ */
+export interface ProviderOptions {
+	provider: ProviderName;
+	baseURL?: string;
+}
+
+interface ProviderInfo {
+	label: string;
+	/** Environment variable holding the API key, if the provider uses one. */
+	apiKeyEnv?: string;
+	/** Whether generation must be refused when the API key is missing. */
+	requiresApiKey: boolean;
+	/** Whether a base URL must be configured (no sensible public default). */
+	requiresBaseURL: boolean;
+	defaultBaseURL?: string;
+	defaultModel: string;
+	keyUrl?: string;
+}
+
+export const PROVIDERS: Record<ProviderName, ProviderInfo> = {
+	openai: {
+		label: "OpenAI",
+		apiKeyEnv: "OPENAI_API_KEY",
+		requiresApiKey: true,
+		requiresBaseURL: false,
+		defaultModel: "gpt-4.1-mini",
+		keyUrl: "https://platform.openai.com/api-keys",
+	},
+	anthropic: {
+		label: "Anthropic",
+		apiKeyEnv: "ANTHROPIC_API_KEY",
+		requiresApiKey: true,
+		requiresBaseURL: false,
+		defaultModel: "claude-3-5-haiku-latest",
+		keyUrl: "https://console.anthropic.com/settings/keys",
+	},
+	ollama: {
+		label: "Ollama",
+		requiresApiKey: false,
+		requiresBaseURL: false,
+		defaultBaseURL: "http://localhost:11434/v1",
+		defaultModel: "llama3.1",
+	},
+	"openai-compatible": {
+		label: "OpenAI-compatible endpoint",
+		apiKeyEnv: "OPENAI_COMPATIBLE_API_KEY",
+		requiresApiKey: false,
+		requiresBaseURL: true,
+		defaultModel: "gpt-4.1-mini",
+	},
+};
+
+/**
+ * Returns the default model for a provider.
+ * @param {ProviderName} provider - The provider name.
+ * @returns {string} - The model used when none is configured.
+ */
+export function getDefaultModel(provider: ProviderName): string {
+	return PROVIDERS[provider].defaultModel;
+}
+
+/**
+ * Verifies that the credentials and endpoint a provider needs are available.
+ * @param {ProviderOptions} options - The provider and optional base URL.
+ * @throws {PrerequisiteError | ConfigError} If the API key or base URL required by the provider is missing.
+ */
+export function assertProviderCredentials(options: ProviderOptions) {
+	const info = PROVIDERS[options.provider];
+
+	if (info.requiresApiKey && info.apiKeyEnv && !process.env[info.apiKeyEnv]) {
+		throw new PrerequisiteError(
+			`${info.label} API key is missing. Set the ${info.apiKeyEnv} environment variable (e.g., 'export ${info.apiKeyEnv}=your_key') and try again.`,
+			info.keyUrl ? { hint: `Create a key at ${info.keyUrl}.` } : {},
+		);
+	}
+
+	if (info.requiresBaseURL && !options.baseURL) {
+		throw new ConfigError(
+			`Provider '${options.provider}' requires a base URL. Set 'baseURL' in your .gitliftrc file.`,
+		);
+	}
+}
+
+/**
+ * Builds a language model instance for the configured provider.
+ * @param {string} modelName - The model name understood by the provider.
+ * @param {ProviderOptions} options - The provider and optional base URL.
+ * @returns {LanguageModelV1} - The model instance to pass to the AI SDK.
+ */
+export function getLanguageModel(
+	modelName: string,
+	options: ProviderOptions,
+): LanguageModelV1 {
+	const info = PROVIDERS[options.provider];
+	const baseURL = options.baseURL || info.defaultBaseURL;
+	const apiKey = info.apiKeyEnv ? process.env[info.apiKeyEnv] : undefined;
+
+	switch (options.provider) {
+		case "openai":
+			return createOpenAI({ baseURL, apiKey, compatibility: "strict" })(
+				modelName,
+			);
+		case "anthropic":
+			return createAnthropic({ baseURL, apiKey })(modelName);
+		case "ollama":
+		case "openai-compatible":
+			// Local and third-party endpoints often ignore the key, but the SDK insists on one
+			return createOpenAI({
+				baseURL,
+				apiKey: apiKey || options.provider,
+				compatibility: "compatible",
+				name: options.provider,
+			})(modelName);
+	}
+}
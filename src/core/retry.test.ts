@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import { APICallError } from "ai";
+import {
+	AiTimeoutError,
+	type RetryAttempt,
+	getBackoffDelay,
+	resolveRetrySettings,
+	withRetries,
+} from "./retry";
+
+function apiError(
+	statusCode: number,
+	responseHeaders?: Record<string, string>,
+): APICallError {
+	return new APICallError({
+		message: `HTTP ${statusCode}`,
+		url: "https://api.example.com",
+		requestBodyValues: {},
+		statusCode,
+		responseHeaders,
+	});
+}
+
+const fast = resolveRetrySettings({ initialDelayMs: 1, maxDelayMs: 10 });
+
+describe("getBackoffDelay", () => {
+	const settings = resolveRetrySettings({
+		initialDelayMs: 1000,
+		maxDelayMs: 5000,
+	});
+
+	test("doubles the delay per attempt and randomizes half of it", () => {
+		expect(getBackoffDelay(1, settings, () => 0)).toBe(500);
+		expect(getBackoffDelay(1, settings, () => 1)).toBe(1000);
+		expect(getBackoffDelay(3, settings, () => 0.5)).toBe(3000);
+	});
+
+	test("caps the delay at maxDelayMs", () => {
+		expect(getBackoffDelay(10, settings, () => 1)).toBe(5000);
+	});
+});
+
+describe("withRetries", () => {
+	test("retries rate limits and server errors until a request succeeds", async () => {
+		const failures = [apiError(429), apiError(503)];
+		const retries: RetryAttempt[] = [];
+		const result = await withRetries(
+			async () => {
+				const failure = failures.shift();
+				if (failure) throw failure;
+				return "ok";
+			},
+			fast,
+			(retry) => retries.push(retry),
+		);
+		expect(result).toBe("ok");
+		expect(retries.map((retry) => [retry.attempt, retry.kind])).toEqual([
+			[1, "rate-limit"],
+			[2, "transient"],
+		]);
+	});
+
+	test("gives up after maxRetries with the last error", async () => {
+		let calls = 0;
+		const failure = apiError(500);
+		await expect(
+			withRetries(
+				async () => {
+					calls++;
+					throw failure;
+				},
+				{ ...fast, maxRetries: 1 },
+			),
+		).rejects.toBe(failure);
+		expect(calls).toBe(2);
+	});
+
+	test("does not retry fatal errors or missing models", async () => {
+		for (const failure of [apiError(401), apiError(404), new Error("bug")]) {
+			let calls = 0;
+			await expect(
+				withRetries(async () => {
+					calls++;
+					throw failure;
+				}, fast),
+			).rejects.toBe(failure);
+			expect(calls).toBe(1);
+		}
+	});
+
+	test("waits for Retry-After and gives up when it exceeds maxDelayMs", async () => {
+		const retries: RetryAttempt[] = [];
+		let calls = 0;
+		await withRetries(
+			async () => {
+				if (calls++ === 0) throw apiError(429, { "retry-after-ms": "5" });
+				return "ok";
+			},
+			fast,
+			(retry) => retries.push(retry),
+		);
+		expect(retries[0]?.delayMs).toBe(5);
+
+		const tooLong = apiError(429, { "retry-after": "60" });
+		await expect(
+			withRetries(async () => {
+				throw tooLong;
+			}, fast),
+		).rejects.toBe(tooLong);
+	});
+
+	test("aborts slow requests and reports a timeout", async () => {
+		const settings = { ...fast, maxRetries: 0, timeoutSeconds: 0.01 };
+		await expect(
+			withRetries(
+				(signal) =>
+					new Promise((_, reject) => {
+						signal.addEventListener("abort", () => reject(signal.reason));
+					}),
+				settings,
+			),
+		).rejects.toBeInstanceOf(AiTimeoutError);
+	});
+});
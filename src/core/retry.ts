@@ -0,0 +1,161 @@
+import { APICallError } from "ai";
+
+/**
+ * The `retry` section of the config file.
+ */
+export interface RetryConfig {
+	/** How many times a failed request is repeated on the same model. */
+	maxRetries?: number;
+	/** Wait before the first retry, in milliseconds; doubled for each further retry. */
+	initialDelayMs?: number;
+	/** Longest wait between retries, in milliseconds. A longer `Retry-After` gives up on the model instead. */
+	maxDelayMs?: number;
+	/** How long a single request may take, in seconds. */
+	timeoutSeconds?: number;
+}
+
+export type RetrySettings = Required<RetryConfig>;
+
+/**
+ * Why an AI request failed, as far as retrying it is concerned.
+ */
+export type AiFailureKind =
+	| "rate-limit"
+	| "model-not-found"
+	| "transient"
+	| "timeout"
+	| "fatal";
+
+/**
+ * A failed request that was retried.
+ */
+export interface RetryAttempt {
+	/** The retry about to be made (1 for the first retry). */
+	attempt: number;
+	delayMs: number;
+	kind: AiFailureKind;
+}
+
+const DEFAULT_RETRY_CONFIG: RetrySettings = {
+	maxRetries: 2,
+	initialDelayMs: 1000,
+	maxDelayMs: 30000,
+	timeoutSeconds: 120,
+};
+
+/**
+ * Fills in the defaults of the `retry` config section.
+ * @param {RetryConfig} [config] - The configured section, if any.
+ * @returns {RetrySettings} - The effective settings.
+ */
+export function resolveRetrySettings(config: RetryConfig = {}): RetrySettings {
+	return { ...DEFAULT_RETRY_CONFIG, ...config };
+}
+
+/**
+ * An AI request that did not finish within `retry.timeoutSeconds`.
+ */
+export class AiTimeoutError extends Error {
+	constructor(timeoutSeconds: number) {
+		super(`The AI request timed out after ${timeoutSeconds}s.`);
+		this.name = "AiTimeoutError";
+	}
+}
+
+/**
+ * Classifies a failed AI request. Rate limits, server errors and network failures are worth
+ * retrying; a missing model or rate limit that persists is worth trying another model for.
+ * @param {unknown} error - The error thrown by the AI SDK.
+ * @returns {AiFailureKind} - The failure class.
+ */
+export function classifyAiError(error: unknown): AiFailureKind {
+	if (error instanceof AiTimeoutError) return "timeout";
+	if (!APICallError.isInstance(error)) return "fatal";
+	const message = `${error.message} ${error.responseBody ?? ""}`.toLowerCase();
+	if (
+		error.statusCode === 404 ||
+		/model[_ ]not[_ ]found|not_found_error|does not exist/.test(message)
+	) {
+		return "model-not-found";
+	}
+	if (error.statusCode === 429) return "rate-limit";
+	return error.isRetryable ? "transient" : "fatal";
+}
+
+/**
+ * Reads how long the provider asked to wait from the `retry-after-ms` or `retry-after` header
+ * (in seconds or as an HTTP date).
+ * @param {unknown} error - The error thrown by the AI SDK.
+ * @returns {number | null} - The wait in milliseconds, or null if the provider gave none.
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+	if (!APICallError.isInstance(error) || !error.responseHeaders) return null;
+	const headers = error.responseHeaders;
+	const milliseconds = Number.parseFloat(headers["retry-after-ms"] ?? "");
+	if (Number.isFinite(milliseconds) && milliseconds >= 0) return milliseconds;
+	const retryAfter = headers["retry-after"];
+	if (!retryAfter) return null;
+	const seconds = Number(retryAfter);
+	if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+	const date = Date.parse(retryAfter);
+	return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the wait before a retry: exponential backoff with half of it randomized, so
+ * concurrent runs do not retry in lockstep.
+ * @param {number} attempt - The retry about to be made (1 for the first retry).
+ * @param {RetrySettings} settings - The effective retry settings.
+ * @param {() => number} [random=Math.random] - Source of jitter between 0 and 1.
+ * @returns {number} - The wait in milliseconds, at most `maxDelayMs`.
+ */
+export function getBackoffDelay(
+	attempt: number,
+	settings: RetrySettings,
+	random: () => number = Math.random,
+): number {
+	const delay = Math.min(
+		settings.maxDelayMs,
+		settings.initialDelayMs * 2 ** (attempt - 1),
+	);
+	return Math.round(delay / 2 + (delay / 2) * random());
+}
+
+/**
+ * Runs an AI request, aborting it after the timeout and repeating it with backoff while it fails
+ * with a rate limit, a server error, a network error or a timeout. A `Retry-After` longer than
+ * `maxDelayMs` is not waited for.
+ * @param {(abortSignal: AbortSignal) => Promise<T>} request - Makes one attempt; must pass the signal to the AI SDK.
+ * @param {RetrySettings} settings - The effective retry settings.
+ * @param {(retry: RetryAttempt) => void} [onRetry] - Called before waiting for a retry.
+ * @returns {Promise<T>} - The result of the first successful attempt.
+ * @throws {Error} The error of the last attempt (an `AiTimeoutError` if it timed out).
+ */
+export async function withRetries<T>(
+	request: (abortSignal: AbortSignal) => Promise<T>,
+	settings: RetrySettings,
+	onRetry?: (retry: RetryAttempt) => void,
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		const timeout = AbortSignal.timeout(settings.timeoutSeconds * 1000);
+		let failure: unknown;
+		try {
+			return await request(timeout);
+		} catch (error: unknown) {
+			failure = timeout.aborted
+				? new AiTimeoutError(settings.timeoutSeconds)
+				: error;
+		}
+
+		const kind = classifyAiError(failure);
+		const retryable =
+			kind === "rate-limit" || kind === "transient" || kind === "timeout";
+		if (!retryable || attempt > settings.maxRetries) throw failure;
+		const retryAfter = getRetryAfterMs(failure);
+		if (retryAfter !== null && retryAfter > settings.maxDelayMs) throw failure;
+
+		const delayMs = retryAfter ?? getBackoffDelay(attempt, settings);
+		onRetry?.({ attempt, delayMs, kind });
+		await new Promise((resolve) => setTimeout(resolve, delayMs));
+	}
+}
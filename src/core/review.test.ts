@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type ReviewFinding,
+	annotateDiffLineNumbers,
+	getCommentableLines,
+	sortFindings,
+	toSarif,
+} from "./review";
+
+const DIFF = `diff --git a/loop.c b/loop.c
+index 1111111..2222222 100644
+--- a/loop.c
++++ b/loop.c
+@@ -1,3 +1,4 @@
+ int i = 0;
++++i;
+---i;
++--i;
+ return;
+diff --git a/next.c b/next.c
+index 3333333..4444444 100644
+--- a/next.c
++++ b/next.c
+@@ -10,2 +10,2 @@
+-old();
++new();
+ done();`;
+
+const finding = (overrides: Partial<ReviewFinding>): ReviewFinding => ({
+	file: "a.ts",
+	startLine: 1,
+	endLine: 1,
+	severity: "minor",
+	category: "bug",
+	title: "Title",
+	explanation: "Explanation",
+	suggestion: "Suggestion",
+	...overrides,
+});
+
+describe("annotateDiffLineNumbers", () => {
+	test("numbers new-file lines and leaves headers and removals unnumbered", () => {
+		expect(annotateDiffLineNumbers(DIFF).split("\n")).toEqual([
+			"diff --git a/loop.c b/loop.c",
+			"index 1111111..2222222 100644",
+			"--- a/loop.c",
+			"+++ b/loop.c",
+			"@@ -1,3 +1,4 @@",
+			"    1  int i = 0;",
+			"    2 +++i;",
+			"      ---i;",
+			"    3 +--i;",
+			"    4  return;",
+			"diff --git a/next.c b/next.c",
+			"index 3333333..4444444 100644",
+			"--- a/next.c",
+			"+++ b/next.c",
+			"@@ -10,2 +10,2 @@",
+			"      -old();",
+			"   10 +new();",
+			"   11  done();",
+		]);
+	});
+});
+
+describe("getCommentableLines", () => {
+	test("collects added and context lines per file, including lines that look like headers", () => {
+		const lines = getCommentableLines(DIFF);
+		expect([...(lines.get("loop.c") ?? [])]).toEqual([1, 2, 3, 4]);
+		expect([...(lines.get("next.c") ?? [])]).toEqual([10, 11]);
+	});
+});
+
+describe("sortFindings", () => {
+	test("orders by severity, then file and line", () => {
+		const sorted = sortFindings([
+			finding({ file: "b.ts", severity: "minor" }),
+			finding({ file: "a.ts", startLine: 9, severity: "minor" }),
+			finding({ file: "z.ts", severity: "critical" }),
+			finding({ file: "a.ts", startLine: 2, severity: "minor" }),
+		]);
+		expect(sorted.map((f) => `${f.severity} ${f.file}:${f.startLine}`)).toEqual(
+			["critical z.ts:1", "minor a.ts:2", "minor a.ts:9", "minor b.ts:1"],
+		);
+	});
+});
+
+describe("toSarif", () => {
+	test("maps findings to results with one rule per category", () => {
+		const log = toSarif(
+			{
+				summary: "",
+				findings: [
+					finding({ severity: "major", category: "security" }),
+					finding({ severity: "info", category: "security", startLine: 4 }),
+				],
+			},
+			"1.0.0",
+		);
+		const [run] = log.runs;
+		expect(run?.tool.driver.rules.map((rule) => rule.id)).toEqual(["security"]);
+		expect(run?.results.map((result) => result.level)).toEqual([
+			"error",
+			"note",
+		]);
+		expect(
+			run?.results[1]?.locations[0]?.physicalLocation.region.startLine,
+		).toBe(4);
+	});
+});
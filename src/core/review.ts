@@ -0,0 +1,229 @@
+import { theme } from "../ui/theme";
+import { parseDiff } from "./diff";
+
+/**
+ * Finding severities, most severe first.
+ */
+export const REVIEW_SEVERITIES = [
+	"critical",
+	"major",
+	"minor",
+	"info",
+] as const;
+
+export type ReviewSeverity = (typeof REVIEW_SEVERITIES)[number];
+
+export const REVIEW_CATEGORIES = [
+	"bug",
+	"security",
+	"performance",
+	"maintainability",
+	"error-handling",
+	"testing",
+	"documentation",
+	"style",
+] as const;
+
+export type ReviewCategory = (typeof REVIEW_CATEGORIES)[number];
+
+/**
+ * A single issue found by the AI review, located in the new version of a file.
+ */
+export interface ReviewFinding {
+	file: string;
+	startLine: number;
+	endLine: number;
+	severity: ReviewSeverity;
+	category: ReviewCategory;
+	title: string;
+	explanation: string;
+	suggestion: string;
+}
+
+/**
+ * The outcome of an AI review.
+ */
+export interface CodeReview {
+	summary: string;
+	findings: ReviewFinding[];
+}
+
+const SARIF_LEVELS: Record<ReviewSeverity, "error" | "warning" | "note"> = {
+	critical: "error",
+	major: "error",
+	minor: "warning",
+	info: "note",
+};
+
+/**
+ * Prefixes every line of a diff with its line number in the new file, so the model
+ * can report accurate locations. Removed lines get no number.
+ * @param {string} diff - A unified diff.
+ * @returns {string} - The annotated diff.
+ */
+export function annotateDiffLineNumbers(diff: string): string {
+	let newLine = 0;
+	return diff
+		.split("\n")
+		.map((line) => {
+			// The next file's header lines come before its first hunk and stay unnumbered
+			if (line.startsWith("diff --git")) {
+				newLine = 0;
+				return line;
+			}
+			const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+			if (hunk) {
+				newLine = Number(hunk[1]);
+				return line;
+			}
+			// Before the first hunk, "+++"/"---" are file headers; inside a hunk they are code
+			if (newLine === 0) return line;
+			if (line.startsWith("-") || line.startsWith("\\")) {
+				return `      ${line}`;
+			}
+			return `${String(newLine++).padStart(5)} ${line}`;
+		})
+		.join("\n");
+}
+
+/**
+ * Collects the new-file lines that appear in the diff hunks. Forges only accept inline
+ * comments on these lines.
+ * @param {string} diff - A unified diff.
+ * @returns {Map<string, Set<number>>} - Line numbers per file path.
+ */
+export function getCommentableLines(diff: string): Map<string, Set<number>> {
+	const lines = new Map<string, Set<number>>();
+	for (const file of parseDiff(diff)) {
+		const fileLines = new Set<number>();
+		let newLine = 0;
+		for (const line of file.content.split("\n")) {
+			const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+			if (hunk) {
+				newLine = Number(hunk[1]);
+			} else if (
+				newLine > 0 &&
+				(line.startsWith("+") || line.startsWith(" "))
+			) {
+				fileLines.add(newLine++);
+			}
+		}
+		lines.set(file.path, fileLines);
+	}
+	return lines;
+}
+
+/**
+ * Sorts findings by severity, then by file and line.
+ * @param {ReviewFinding[]} findings - The findings to sort.
+ * @returns {ReviewFinding[]} - A sorted copy.
+ */
+export function sortFindings(findings: ReviewFinding[]): ReviewFinding[] {
+	return [...findings].sort(
+		(a, b) =>
+			REVIEW_SEVERITIES.indexOf(a.severity) -
+				REVIEW_SEVERITIES.indexOf(b.severity) ||
+			a.file.localeCompare(b.file) ||
+			a.startLine - b.startLine,
+	);
+}
+
+function formatLocation(finding: ReviewFinding): string {
+	return finding.endLine > finding.startLine
+		? `${finding.file}:${finding.startLine}-${finding.endLine}`
+		: `${finding.file}:${finding.startLine}`;
+}
+
+function colorSeverity(severity: ReviewSeverity): string {
+	const label = `[${severity}]`;
+	if (severity === "critical" || severity === "major") {
+		return theme.error(label);
+	}
+	if (severity === "minor") return theme.warning(label);
+	return theme.dim(label);
+}
+
+/**
+ * Renders a review for the terminal.
+ * @param {CodeReview} review - The review to render.
+ * @returns {string} - The colored report.
+ */
+export function formatReviewText(review: CodeReview): string {
+	const sections = [
+		`${theme.primary("🔎 Review Summary:")}\n${review.summary}`,
+	];
+	if (review.findings.length === 0) {
+		sections.push(theme.success("No issues found."));
+	}
+	for (const finding of review.findings) {
+		sections.push(
+			[
+				`${colorSeverity(finding.severity)} ${theme.info(formatLocation(finding))} ${theme.dim(`(${finding.category})`)}`,
+				`  ${finding.title}`,
+				`  ${theme.dim(finding.explanation)}`,
+				`  💡 ${finding.suggestion}`,
+			].join("\n"),
+		);
+	}
+	return sections.join("\n\n");
+}
+
+/**
+ * Renders a finding as a Markdown comment body for a pull request.
+ * @param {ReviewFinding} finding - The finding.
+ * @param {boolean} [withLocation=false] - Include the file and lines (for comments that are not inline).
+ * @returns {string} - The Markdown comment.
+ */
+export function formatFindingComment(
+	finding: ReviewFinding,
+	withLocation = false,
+): string {
+	const location = withLocation ? ` \`${formatLocation(finding)}\`` : "";
+	return `**[${finding.severity}] ${finding.title}** _(${finding.category})_${location}\n\n${finding.explanation}\n\n**Suggestion:** ${finding.suggestion}`;
+}
+
+/**
+ * Converts a review into a SARIF 2.1.0 log for code scanning tools.
+ * @param {CodeReview} review - The review to convert.
+ * @param {string} toolVersion - The GitLift version reported as the tool version.
+ * @returns {object} - The SARIF log.
+ */
+export function toSarif(review: CodeReview, toolVersion: string) {
+	const categories = [...new Set(review.findings.map((f) => f.category))];
+	return {
+		$schema: "https://json.schemastore.org/sarif-2.1.0.json",
+		version: "2.1.0",
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: "GitLift",
+						version: toolVersion,
+						rules: categories.map((category) => ({
+							id: category,
+							shortDescription: { text: `AI review: ${category}` },
+						})),
+					},
+				},
+				results: review.findings.map((finding) => ({
+					ruleId: finding.category,
+					level: SARIF_LEVELS[finding.severity],
+					message: {
+						text: `${finding.title}\n\n${finding.explanation}\n\nSuggestion: ${finding.suggestion}`,
+					},
+					locations: [
+						{
+							physicalLocation: {
+								artifactLocation: { uri: finding.file },
+								region: {
+									startLine: finding.startLine,
+									endLine: finding.endLine,
+								},
+							},
+						},
+					],
+				})),
+			},
+		],
+	};
+}
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { isPoorCommitTitle } from "./reword";
+
+describe("isPoorCommitTitle", () => {
+	test("flags uninformative and very short titles", () => {
+		for (const title of [
+			"wip",
+			"Fix",
+			"fixed stuff",
+			"update",
+			"misc changes",
+			"oops!",
+			"...",
+			"tweak css",
+			"  ",
+		]) {
+			expect(isPoorCommitTitle(title)).toBe(true);
+		}
+	});
+
+	test("keeps titles that describe the change", () => {
+		for (const title of [
+			"fix: handle empty diffs in the split planner",
+			"Update README with install steps",
+			"Refactor config loading into layers",
+		]) {
+			expect(isPoorCommitTitle(title)).toBe(false);
+		}
+	});
+});
@@ -0,0 +1,188 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { $ } from "bun";
+import ora from "ora";
+import { theme } from "../ui/theme";
+import { CommandError, ExitCode, GitError } from "../utils/errors";
+
+/**
+ * A commit in the range being reworded.
+ */
+export interface RangeCommit {
+	hash: string;
+	title: string;
+	body: string;
+}
+
+/**
+ * The commits a reword touches. The rebase replays everything from `base` to HEAD,
+ * so commits after the range are kept as they are.
+ */
+export interface RewordRange {
+	/** Parent of the oldest commit in the range, or null if the range starts at the root commit. */
+	base: string | null;
+	/** The commits in the range, oldest first. */
+	commits: RangeCommit[];
+	/** Every commit from `base` to HEAD, oldest first. */
+	replayed: string[];
+}
+
+// Titles that say nothing about the change ("wip", "fix", "update stuff", "asdf", "...")
+const UNINFORMATIVE_TITLE =
+	/^(wip|fix(es|ed)?|bug ?fix|update[sd]?|changes?|misc|tmp|temp|test(ing)?|stuff|asdf+|minor|cleanup|refactor|save|commit|work|oops|\.+|-+)(\s+(stuff|things|changes|code|it|this|more))?[\s.!]*$/i;
+const MIN_TITLE_LENGTH = 10;
+
+async function git(args: string[], what: string): Promise<string> {
+	const result = await $`git ${args}`.nothrow().quiet();
+	if (result.exitCode !== 0) {
+		throw new GitError(`Could not ${what}: ${result.stderr.toString().trim()}`);
+	}
+	return result.stdout.toString();
+}
+
+/**
+ * Resolves a revision range into the commits to reword. A single revision means
+ * "from there to HEAD" (e.g., `HEAD~5` is `HEAD~5..HEAD`).
+ * @param {string} range - A revision range (e.g., "origin/main..HEAD", "HEAD~3").
+ * @returns {Promise<RewordRange>} - The commits in the range and the commits the rebase replays.
+ * @throws {CommandError} If the range is invalid, empty, not part of the current branch, or contains merge commits.
+ */
+export async function resolveRewordRange(range: string): Promise<RewordRange> {
+	const spec = range.includes("..") ? range : `${range}..HEAD`;
+	const hashes = (
+		await git(["rev-list", "--reverse", spec], `resolve range '${range}'`)
+	)
+		.split("\n")
+		.filter(Boolean);
+	if (hashes.length === 0) {
+		throw new CommandError(
+			`No commits found in range '${spec}'. Nothing to reword.`,
+			ExitCode.NothingToDo,
+		);
+	}
+
+	const oldest = hashes[0] as string;
+	const newest = hashes[hashes.length - 1] as string;
+	const onBranch = await $`git merge-base --is-ancestor ${newest} HEAD`
+		.nothrow()
+		.quiet();
+	if (onBranch.exitCode !== 0) {
+		throw new CommandError(
+			`The range '${spec}' is not part of the current branch. Check out the branch to reword first.`,
+			ExitCode.Usage,
+		);
+	}
+
+	const parent = await $`git rev-parse --verify --quiet ${oldest}^`
+		.nothrow()
+		.quiet();
+	const base = parent.exitCode === 0 ? parent.stdout.toString().trim() : null;
+	const replaySpec = base ? [`${base}..HEAD`] : ["HEAD"];
+	const replayed = (
+		await git(
+			["rev-list", "--reverse", ...replaySpec],
+			"list the commits to replay",
+		)
+	)
+		.split("\n")
+		.filter(Boolean);
+	// The todo list only picks commits, so the replayed history has to be linear
+	const merges = (
+		await git(["rev-list", "--merges", ...replaySpec], "check for merges")
+	).trim();
+	if (merges) {
+		throw new CommandError(
+			"The commits between the range and HEAD include merge commits, which reword cannot replay. Reword a range after the last merge.",
+			ExitCode.Usage,
+		);
+	}
+
+	const commits: RangeCommit[] = [];
+	for (const hash of hashes) {
+		const message = (
+			await git(["log", "-1", "--format=%B", hash], `read commit ${hash}`)
+		).trim();
+		const [title = "", ...rest] = message.split("\n");
+		commits.push({ hash, title, body: rest.join("\n").trim() });
+	}
+	return { base, commits, replayed };
+}
+
+/**
+ * Flags commit titles that do not describe the change ("wip", "fix", "update", very short titles).
+ * @param {string} title - The commit title.
+ * @returns {boolean} - True if the message is worth rewording.
+ */
+export function isPoorCommitTitle(title: string): boolean {
+	const trimmed = title.trim();
+	return trimmed.length < MIN_TITLE_LENGTH || UNINFORMATIVE_TITLE.test(trimmed);
+}
+
+/**
+ * Rewrites commit messages with a non-interactive rebase: the todo list picks every commit
+ * from the base to HEAD and amends the message right after each reworded one. Uncommitted
+ * changes are stashed and restored around the rebase. If the rebase fails, it is aborted and
+ * the branch is left as it was.
+ * @param {RewordRange} range - The range from `resolveRewordRange`.
+ * @param {Map<string, string>} messages - New full messages by commit hash.
+ * @returns {Promise<Map<string, string>>} - The new hash of each replayed commit, by old hash.
+ * @throws {GitError} If the rebase fails.
+ */
+export async function rewordCommits(
+	range: RewordRange,
+	messages: Map<string, string>,
+): Promise<Map<string, string>> {
+	const spinner = ora(`Rewording ${messages.size} commit(s)...`).start();
+	const dir = await mkdtemp(join(tmpdir(), "gitlift-reword-"));
+	try {
+		const todo: string[] = [];
+		for (const hash of range.replayed) {
+			todo.push(`pick ${hash}`);
+			const message = messages.get(hash);
+			if (message === undefined) continue;
+			const messagePath = join(dir, `${hash}.txt`);
+			await writeFile(messagePath, `${message}\n`);
+			// --no-verify: the messages were already reviewed, and a rejecting hook would stop the rebase halfway
+			todo.push(
+				`exec git commit --amend --only --no-verify --allow-empty --cleanup=whitespace -F '${messagePath}'`,
+			);
+		}
+		const todoPath = join(dir, "todo");
+		await writeFile(todoPath, `${todo.join("\n")}\n`);
+
+		// Git calls the sequence editor with the todo file; copying ours over it makes the rebase non-interactive
+		const rebase = await $`git rebase -i --autostash ${range.base ?? "--root"}`
+			.env({
+				...process.env,
+				GIT_SEQUENCE_EDITOR: `cp '${todoPath}'`,
+				GIT_EDITOR: "true",
+			})
+			.nothrow()
+			.quiet();
+		if (rebase.exitCode !== 0) {
+			await $`git rebase --abort`.nothrow().quiet();
+			spinner.fail(
+				theme.error("Rebase failed; the branch was left unchanged."),
+			);
+			throw new GitError(
+				`Could not reword the commits: ${rebase.stderr.toString().trim()}`,
+			);
+		}
+
+		const newHashes = (
+			await git(
+				["rev-list", "--reverse", range.base ? `${range.base}..HEAD` : "HEAD"],
+				"list the reworded commits",
+			)
+		)
+			.split("\n")
+			.filter(Boolean);
+		spinner.succeed(theme.success(`Reworded ${messages.size} commit(s).`));
+		return new Map(
+			range.replayed.map((hash, index) => [hash, newHashes[index] ?? hash]),
+		);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
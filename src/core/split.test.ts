@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { $ } from "bun";
+import {
+	type DiffHunk,
+	type PlannedCommit,
+	buildPatch,
+	normalizeCommitPlan,
+	splitIntoHunks,
+} from "./split";
+
+const MODIFIED = `diff --git a/app.ts b/app.ts
+index 1111111..2222222 100644
+--- a/app.ts
++++ b/app.ts
+@@ -1,3 +1,3 @@
+-const a = 1;
++const a = 2;
+ const b = 2;
+ const c = 3;
+@@ -20,3 +20,4 @@
+ const x = 1;
+ const y = 2;
++const z = 3;
+ export { x, y };
+`;
+
+const ADDED = `diff --git a/new.ts b/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/new.ts
+@@ -0,0 +1,2 @@
++export const one = 1;
++export const two = 2;
+`;
+
+const plan = (...hunks: string[][]): PlannedCommit[] =>
+	hunks.map((ids, index) => ({
+		title: `commit ${index + 1}`,
+		body: "",
+		hunks: ids,
+	}));
+
+describe("splitIntoHunks", () => {
+	test("splits modified files per hunk and keeps new files whole", () => {
+		const hunks = splitIntoHunks(MODIFIED + ADDED);
+		expect(hunks.map((hunk) => [hunk.id, hunk.path])).toEqual([
+			["h1", "app.ts"],
+			["h2", "app.ts"],
+			["h3", "new.ts"],
+		]);
+		expect(hunks[0]?.header).toStartWith("diff --git a/app.ts");
+		expect(hunks[0]?.content).toStartWith("@@ -1,3 +1,3 @@");
+		expect([hunks[1]?.additions, hunks[1]?.deletions]).toEqual([1, 0]);
+		expect(hunks[2]?.header).toContain("new file mode");
+	});
+
+	test("marks excluded paths as omitted", () => {
+		const hunks = splitIntoHunks(ADDED, (path) => path === "new.ts");
+		expect(hunks[0]?.omitted).toBe("excluded");
+	});
+});
+
+describe("buildPatch", () => {
+	test("rebuilds the original diff from all hunks", () => {
+		const diff = MODIFIED + ADDED;
+		expect(buildPatch(splitIntoHunks(diff))).toBe(diff);
+	});
+
+	test("writes each file header once", () => {
+		const hunks = splitIntoHunks(MODIFIED);
+		const patch = buildPatch(hunks);
+		expect(patch.match(/^diff --git/gm)).toHaveLength(1);
+	});
+
+	test("includes only the chosen hunks", () => {
+		const [, second] = splitIntoHunks(MODIFIED) as [DiffHunk, DiffHunk];
+		const patch = buildPatch([second]);
+		expect(patch).toContain("+const z = 3;");
+		expect(patch).not.toContain("+const a = 2;");
+	});
+});
+
+describe("normalizeCommitPlan", () => {
+	const hunks = splitIntoHunks(MODIFIED + ADDED);
+
+	test("drops unknown and duplicate IDs and empty commits", () => {
+		const result = normalizeCommitPlan(
+			plan(["h1", "h9"], ["h1"], ["h2", "h3", "h3"]),
+			hunks,
+		);
+		expect(result.plan.map((commit) => commit.hunks)).toEqual([
+			["h1"],
+			["h2", "h3"],
+		]);
+		expect(result.unassigned).toEqual([]);
+	});
+
+	test("puts left-out hunks into a commit touching the same file", () => {
+		const result = normalizeCommitPlan(plan(["h3"], ["h1"]), hunks);
+		expect(result.plan.map((commit) => commit.hunks)).toEqual([
+			["h3"],
+			["h1", "h2"],
+		]);
+		expect(result.unassigned).toEqual(["h2"]);
+	});
+
+	test("puts left-out hunks of other files into the last commit", () => {
+		const result = normalizeCommitPlan(plan(["h1"], ["h2"]), hunks);
+		expect(result.plan.at(-1)?.hunks).toEqual(["h2", "h3"]);
+	});
+
+	test("sorts hunks into diff order and keeps a commit when the plan is empty", () => {
+		expect(
+			normalizeCommitPlan(plan(["h3", "h2", "h1"]), hunks).plan[0]?.hunks,
+		).toEqual(["h1", "h2", "h3"]);
+		const empty = normalizeCommitPlan(plan(["h9"]), hunks);
+		expect(empty.plan).toHaveLength(1);
+		expect(empty.plan[0]?.hunks).toEqual(["h1", "h2", "h3"]);
+	});
+});
+
+describe("patches of a split plan", () => {
+	let repo: string;
+
+	beforeAll(async () => {
+		repo = await mkdtemp(join(tmpdir(), "gitlift-split-"));
+		const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+		await $`git init -q && git config user.email t@t && git config user.name t`
+			.cwd(repo)
+			.quiet();
+		await writeFile(join(repo, "file.txt"), `${lines.join("\n")}\n`);
+		await $`git add file.txt && git commit -qm init`.cwd(repo).quiet();
+		lines[0] = "line 1 changed";
+		lines[28] = "line 29 changed";
+		await writeFile(join(repo, "file.txt"), `${lines.join("\n")}\n`);
+		await $`git add file.txt`.cwd(repo).quiet();
+	});
+
+	afterAll(async () => {
+		await rm(repo, { recursive: true, force: true });
+	});
+
+	test("apply to the reset index one commit at a time", async () => {
+		const diff = await $`git diff --cached --binary --no-color`
+			.cwd(repo)
+			.text();
+		const hunks = splitIntoHunks(diff);
+		expect(hunks).toHaveLength(2);
+		const { plan: commits } = normalizeCommitPlan(plan(["h2"], ["h1"]), hunks);
+
+		await $`git reset -q`.cwd(repo).quiet();
+		for (const commit of commits) {
+			const patch = buildPatch(
+				hunks.filter((hunk) => commit.hunks.includes(hunk.id)),
+			);
+			await $`git apply --cached - < ${new Response(patch)}`.cwd(repo).quiet();
+			await $`git commit -qm ${commit.title}`.cwd(repo).quiet();
+		}
+
+		const log = await $`git log --format=%s`.cwd(repo).text();
+		expect(log.trim().split("\n")).toEqual(["commit 2", "commit 1", "init"]);
+		const staged = await $`git diff HEAD --stat`.cwd(repo).text();
+		expect(staged).toBe("");
+	});
+});
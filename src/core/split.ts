@@ -0,0 +1,308 @@
+import { $ } from "bun";
+import ora from "ora";
+import { theme } from "../ui/theme";
+import { CommandError, ExitCode, GitError } from "../utils/errors";
+import { classifyLowValueFile, estimateTokens, parseDiff } from "./diff";
+import { type SecretsSettings, scanDiffForSecrets } from "./secrets";
+
+/**
+ * A unit of a staged diff that can be staged on its own: one hunk of a modified file,
+ * or a whole file when it cannot be split (new, deleted, renamed, mode change, binary).
+ */
+export interface DiffHunk {
+	/** Stable ID used in the prompt and the plan (e.g., "h3"). */
+	id: string;
+	path: string;
+	/** The file header (`diff --git`, `index`, `---`, `+++` lines). */
+	header: string;
+	/** The hunk text, or the rest of the file diff for whole-file units. */
+	content: string;
+	additions: number;
+	deletions: number;
+	/** Why the hunk content is not worth showing to the model, if it isn't. */
+	omitted: string | null;
+}
+
+/**
+ * One commit of a split plan.
+ */
+export interface PlannedCommit {
+	title: string;
+	body: string;
+	/** IDs of the hunks staged for this commit. */
+	hunks: string[];
+}
+
+/**
+ * The index and HEAD before a split started, used to undo it.
+ */
+export interface IndexSnapshot {
+	head: string;
+	/** Tree object written from the index (`git write-tree`). */
+	tree: string;
+}
+
+// Header lines that make a file diff impossible to apply hunk by hunk
+const WHOLE_FILE_PATTERN =
+	/^(new file mode|deleted file mode|old mode|new mode|rename from|copy from|similarity index|Binary files|GIT binary patch)/m;
+
+/**
+ * Reads the staged diff in a form `git apply --cached` accepts back (binary patches included).
+ * @returns {Promise<string>} - The raw staged diff.
+ * @throws {GitError} If `git diff` fails.
+ */
+export async function getStagedPatch(): Promise<string> {
+	const result = await $`git diff --cached --binary --no-color --no-ext-diff`
+		.nothrow()
+		.quiet();
+	if (result.exitCode !== 0) {
+		throw new GitError(
+			`Could not read the staged diff: ${result.stderr.toString().trim()}`,
+		);
+	}
+	return result.stdout.toString();
+}
+
+/**
+ * Splits a staged diff into hunks that can be committed separately.
+ * @param {string} diff - The raw diff from `getStagedPatch`.
+ * @param {(path: string) => boolean} [isExcluded] - Paths whose content is hidden from the model (they are still committed).
+ * @returns {DiffHunk[]} - The hunks in diff order.
+ */
+export function splitIntoHunks(
+	diff: string,
+	isExcluded?: (path: string) => boolean,
+): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	for (const file of parseDiff(diff)) {
+		const firstHunk = file.content.search(/^@@ /m);
+		const header =
+			firstHunk === -1 ? file.content : file.content.slice(0, firstHunk);
+		const omitted = isExcluded?.(file.path)
+			? "excluded"
+			: classifyLowValueFile(file);
+		const parts =
+			firstHunk === -1 || WHOLE_FILE_PATTERN.test(header)
+				? [firstHunk === -1 ? "" : file.content.slice(firstHunk)]
+				: file.content.slice(firstHunk).split(/^(?=@@ )/m);
+		for (const content of parts) {
+			const lines = content.split("\n");
+			hunks.push({
+				id: `h${hunks.length + 1}`,
+				path: file.path,
+				header: firstHunk === -1 ? file.content : header,
+				content,
+				additions: lines.filter((l) => l.startsWith("+")).length,
+				deletions: lines.filter((l) => l.startsWith("-")).length,
+				omitted,
+			});
+		}
+	}
+	return hunks;
+}
+
+/**
+ * Redacts secrets from the hunks shown to the model. The hunks used to build patches keep their real
+ * content; hunks of sensitive files (e.g., `.env`) are marked as omitted instead.
+ * @param {DiffHunk[]} hunks - The staged hunks.
+ * @param {SecretsSettings} settings - The effective `secrets` settings.
+ * @returns {DiffHunk[]} - Copies of the hunks, safe to render in the prompt.
+ */
+export function redactHunks(
+	hunks: DiffHunk[],
+	settings: SecretsSettings,
+): DiffHunk[] {
+	return hunks.map((hunk) => {
+		if (hunk.omitted || !hunk.content) return hunk;
+		const scan = scanDiffForSecrets(hunk.header + hunk.content, settings);
+		if (scan.findings.some((finding) => finding.rule === "sensitive-file")) {
+			return { ...hunk, omitted: "sensitive file" };
+		}
+		return { ...hunk, content: scan.content.slice(hunk.header.length) };
+	});
+}
+
+/**
+ * Renders the hunks for the split prompt. Hunk content is dropped (keeping the `@@` line and
+ * counts) if the full listing would exceed the token budget.
+ * @param {DiffHunk[]} hunks - The staged hunks.
+ * @param {number} maxTokens - The token budget (the `maxDiffTokens` setting).
+ * @returns {string} - The prompt section.
+ */
+export function formatHunksForPrompt(
+	hunks: DiffHunk[],
+	maxTokens: number,
+): string {
+	const render = (withContent: boolean) =>
+		hunks
+			.map((hunk) => {
+				const heading = `### ${hunk.id} ${hunk.path} (+${hunk.additions}/-${hunk.deletions})`;
+				let content = hunk.content.trimEnd();
+				if (hunk.omitted) {
+					content = `(content omitted: ${hunk.omitted})`;
+				} else if (!hunk.content) {
+					content = hunk.header.trim();
+				} else if (!withContent) {
+					content = hunk.content.split("\n")[0] ?? "";
+				}
+				return `${heading}\n${content}`;
+			})
+			.join("\n\n");
+
+	const full = render(true);
+	return estimateTokens(full) <= maxTokens ? full : render(false);
+}
+
+/**
+ * Makes a plan safe to apply: every hunk ends up in exactly one commit, unknown IDs are
+ * dropped, and empty commits are removed. Hunks the model left out join a commit that
+ * already touches the same file, or the last commit.
+ * @param {PlannedCommit[]} plan - The plan proposed by the AI.
+ * @param {DiffHunk[]} hunks - All staged hunks.
+ * @returns {{ plan: PlannedCommit[]; unassigned: string[] }} - The fixed plan and the IDs that had to be placed.
+ */
+export function normalizeCommitPlan(
+	plan: PlannedCommit[],
+	hunks: DiffHunk[],
+): { plan: PlannedCommit[]; unassigned: string[] } {
+	const byId = new Map(hunks.map((hunk) => [hunk.id, hunk]));
+	const seen = new Set<string>();
+	const commits = plan.map((commit) => ({
+		...commit,
+		hunks: commit.hunks.filter((id) => {
+			if (!byId.has(id) || seen.has(id)) return false;
+			seen.add(id);
+			return true;
+		}),
+	}));
+	const normalized = commits.filter((commit) => commit.hunks.length > 0);
+	if (normalized.length === 0) {
+		normalized.push({ title: plan[0]?.title ?? "", body: "", hunks: [] });
+	}
+
+	const unassigned = hunks.filter((hunk) => !seen.has(hunk.id));
+	for (const hunk of unassigned) {
+		const target =
+			normalized.find((commit) =>
+				commit.hunks.some((id) => byId.get(id)?.path === hunk.path),
+			) ?? normalized[normalized.length - 1];
+		target?.hunks.push(hunk.id);
+	}
+	// Keep diff order inside each commit so hunks of the same file apply cleanly
+	const order = new Map(hunks.map((hunk, index) => [hunk.id, index]));
+	for (const commit of normalized) {
+		commit.hunks.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0));
+	}
+	return { plan: normalized, unassigned: unassigned.map((hunk) => hunk.id) };
+}
+
+/**
+ * Lists the files a planned commit touches.
+ * @param {PlannedCommit} commit - The planned commit.
+ * @param {DiffHunk[]} hunks - All staged hunks.
+ * @returns {string[]} - Unique file paths in diff order.
+ */
+export function getPlannedFiles(
+	commit: PlannedCommit,
+	hunks: DiffHunk[],
+): string[] {
+	const ids = new Set(commit.hunks);
+	return [
+		...new Set(
+			hunks.filter((hunk) => ids.has(hunk.id)).map((hunk) => hunk.path),
+		),
+	];
+}
+
+/**
+ * Builds a patch containing only the given hunks, one file header per file.
+ * @param {DiffHunk[]} hunks - The hunks to include, in diff order.
+ * @returns {string} - A patch for `git apply --cached`.
+ */
+export function buildPatch(hunks: DiffHunk[]): string {
+	let patch = "";
+	let previousPath: string | null = null;
+	for (const hunk of hunks) {
+		if (hunk.path !== previousPath) patch += hunk.header;
+		patch += hunk.content;
+		previousPath = hunk.path;
+	}
+	return patch.endsWith("\n") ? patch : `${patch}\n`;
+}
+
+/**
+ * Records HEAD and the current index, then resets the index to HEAD so commits can be
+ * staged one at a time. The working tree is not touched.
+ * @returns {Promise<IndexSnapshot>} - What `restoreIndex` needs to undo the split.
+ * @throws {CommandError} If the repository has no commits yet or git fails.
+ */
+export async function snapshotAndResetIndex(): Promise<IndexSnapshot> {
+	const head = await $`git rev-parse --verify --quiet HEAD`.nothrow().quiet();
+	if (head.exitCode !== 0) {
+		throw new CommandError(
+			"--split needs an existing commit to build on. Make the first commit without --split.",
+			ExitCode.Usage,
+		);
+	}
+	const tree = await $`git write-tree`.nothrow().quiet();
+	if (tree.exitCode !== 0) {
+		throw new GitError(
+			`Could not save the index: ${tree.stderr.toString().trim()}`,
+		);
+	}
+	const snapshot = {
+		head: head.stdout.toString().trim(),
+		tree: tree.stdout.toString().trim(),
+	};
+	await $`git read-tree ${snapshot.head}`.quiet();
+	return snapshot;
+}
+
+/**
+ * Stages a patch without touching the working tree.
+ * @param {string} patch - The patch from `buildPatch`.
+ * @throws {GitError} If the patch does not apply.
+ */
+export async function applyPatchToIndex(patch: string) {
+	const result =
+		await $`git apply --cached --whitespace=nowarn - < ${Buffer.from(patch)}`
+			.nothrow()
+			.quiet();
+	if (result.exitCode !== 0) {
+		throw new GitError(
+			`Could not stage the planned changes: ${result.stderr.toString().trim()}`,
+		);
+	}
+}
+
+/**
+ * Checks whether the index matches a snapshot, i.e. every staged change was committed.
+ * @param {IndexSnapshot} snapshot - The snapshot taken before the split.
+ * @returns {Promise<boolean>} - True if the index tree equals the snapshot's tree.
+ */
+export async function indexMatchesSnapshot(
+	snapshot: IndexSnapshot,
+): Promise<boolean> {
+	const tree = await $`git write-tree`.nothrow().quiet();
+	return tree.stdout.toString().trim() === snapshot.tree;
+}
+
+/**
+ * Undoes a split: moves the branch back to the original HEAD (dropping commits made so far)
+ * and restores the staged changes exactly as they were. The working tree is not touched.
+ * @param {IndexSnapshot} snapshot - The snapshot taken before the split.
+ */
+export async function restoreIndex(snapshot: IndexSnapshot) {
+	const spinner = ora("Restoring the staged changes...").start();
+	const reset = await $`git reset --soft ${snapshot.head}`.nothrow().quiet();
+	const readTree = await $`git read-tree ${snapshot.tree}`.nothrow().quiet();
+	if (reset.exitCode !== 0 || readTree.exitCode !== 0) {
+		spinner.fail(
+			theme.error(
+				`Could not restore the index. Run 'git reset --soft ${snapshot.head} && git read-tree ${snapshot.tree}' to restore it manually.`,
+			),
+		);
+		return;
+	}
+	spinner.succeed(theme.success("Staged changes restored."));
+}
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { appendFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type UsageRecord,
+	appendUsageRecord,
+	estimateCost,
+	findModelPrice,
+	getUsageLogPath,
+	readUsageRecords,
+	resolvePrices,
+	summarizeUsage,
+} from "./usage";
+
+const prices = resolvePrices({ "my-model": { input: 1, output: 2 } });
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+	timestamp: "2026-01-01T00:00:00.000Z",
+	command: "generate pr",
+	repo: "/work/app",
+	provider: "openai",
+	model: "gpt-4.1-mini",
+	promptTokens: 1000,
+	completionTokens: 100,
+	cost: 0.001,
+	...overrides,
+});
+
+describe("findModelPrice", () => {
+	test("matches exact names, then the longest dated prefix", () => {
+		expect(findModelPrice("openai", "gpt-4.1", prices)).toEqual({
+			input: 2,
+			output: 8,
+		});
+		expect(findModelPrice("openai", "gpt-4.1-mini-2025-04-14", prices)).toEqual(
+			{ input: 0.4, output: 1.6 },
+		);
+		expect(findModelPrice("openai-compatible", "my-model", prices)).toEqual({
+			input: 1,
+			output: 2,
+		});
+	});
+
+	test("treats Ollama models as free and other unknown models as unpriced", () => {
+		expect(findModelPrice("ollama", "llama3.1", prices)).toEqual({
+			input: 0,
+			output: 0,
+		});
+		expect(findModelPrice("openai", "gpt-4.10", prices)).toBeNull();
+	});
+});
+
+describe("estimateCost", () => {
+	test("prices input and output tokens per million", () => {
+		expect(estimateCost({ input: 2, output: 8 }, 500_000, 100_000)).toBe(1.8);
+		expect(estimateCost(null, 1000, 1000)).toBeNull();
+	});
+});
+
+describe("summarizeUsage", () => {
+	const records = [
+		record({ cost: 0.5 }),
+		record({ model: "gpt-4.1", cost: 2, command: "review" }),
+		record({ model: "gpt-4.1", cost: 1, repo: null }),
+		record({ provider: "openai-compatible", model: "local", cost: null }),
+	];
+
+	test("sums calls per model, most expensive first", () => {
+		expect(summarizeUsage(records, "model")).toEqual([
+			{
+				key: "openai:gpt-4.1",
+				calls: 2,
+				promptTokens: 2000,
+				completionTokens: 200,
+				cost: 3,
+				unpricedCalls: 0,
+			},
+			{
+				key: "openai:gpt-4.1-mini",
+				calls: 1,
+				promptTokens: 1000,
+				completionTokens: 100,
+				cost: 0.5,
+				unpricedCalls: 0,
+			},
+			{
+				key: "openai-compatible:local",
+				calls: 1,
+				promptTokens: 1000,
+				completionTokens: 100,
+				cost: 0,
+				unpricedCalls: 1,
+			},
+		]);
+	});
+
+	test("groups by repository and command", () => {
+		expect(
+			summarizeUsage(records, "repo").map((s) => [s.key, s.calls, s.cost]),
+		).toEqual([
+			["/work/app", 3, 2.5],
+			["(no repository)", 1, 1],
+		]);
+		expect(
+			summarizeUsage(records, "command").map((s) => [s.key, s.calls]),
+		).toEqual([
+			["review", 1],
+			["generate pr", 3],
+		]);
+	});
+});
+
+describe("usage log", () => {
+	const DATA_HOME_ENV = "XDG_DATA_HOME";
+	const previousDataHome = process.env[DATA_HOME_ENV];
+	let dataHome: string;
+
+	beforeAll(async () => {
+		dataHome = await mkdtemp(join(tmpdir(), "gitlift-usage-"));
+		process.env[DATA_HOME_ENV] = dataHome;
+	});
+
+	afterAll(async () => {
+		if (previousDataHome === undefined) delete process.env[DATA_HOME_ENV];
+		else process.env[DATA_HOME_ENV] = previousDataHome;
+		await rm(dataHome, { recursive: true, force: true });
+	});
+
+	test("appends records and reads them back since a time, skipping broken lines", async () => {
+		expect(await readUsageRecords()).toEqual([]);
+		const old = record({ timestamp: "2026-01-01T00:00:00.000Z" });
+		const recent = record({ timestamp: "2026-03-01T00:00:00.000Z" });
+		await appendUsageRecord(old);
+		await appendFile(getUsageLogPath(), '{"timestamp":\n');
+		await appendUsageRecord(recent);
+
+		expect(getUsageLogPath()).toBe(join(dataHome, "gitlift", "usage.jsonl"));
+		expect(await readUsageRecords()).toEqual([old, recent]);
+		expect(await readUsageRecords(new Date("2026-02-01"))).toEqual([recent]);
+	});
+});
@@ -0,0 +1,205 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { ProviderName } from "./provider";
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+/**
+ * Prices by model name. A name also matches dated versions (e.g., "gpt-4o" matches "gpt-4o-2024-08-06").
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * One AI call, as appended to the usage log.
+ */
+export interface UsageRecord {
+	/** ISO 8601 time of the call. */
+	timestamp: string;
+	/** The command that made the call (e.g., "generate pr"). */
+	command: string;
+	/** Root of the repository the command ran in, or null outside a repository. */
+	repo: string | null;
+	provider: ProviderName;
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+	/** Estimated cost in USD, or null if the model has no price. */
+	cost: number | null;
+}
+
+export const USAGE_GROUPS = ["model", "repo", "command"] as const;
+
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+/**
+ * Usage summed over the records of one group.
+ */
+export interface UsageSummary {
+	key: string;
+	calls: number;
+	promptTokens: number;
+	completionTokens: number;
+	/** Cost of the calls whose model has a price. */
+	cost: number;
+	/** Calls left out of `cost` because their model has no price. */
+	unpricedCalls: number;
+}
+
+// List prices in USD per million tokens; override or extend them with the `prices` config
+export const DEFAULT_PRICES: PriceTable = {
+	"gpt-4.1": { input: 2, output: 8 },
+	"gpt-4.1-mini": { input: 0.4, output: 1.6 },
+	"gpt-4.1-nano": { input: 0.1, output: 0.4 },
+	"gpt-4o": { input: 2.5, output: 10 },
+	"gpt-4o-mini": { input: 0.15, output: 0.6 },
+	"o3-mini": { input: 1.1, output: 4.4 },
+	"o4-mini": { input: 1.1, output: 4.4 },
+	"claude-3-5-haiku": { input: 0.8, output: 4 },
+	"claude-3-7-sonnet": { input: 3, output: 15 },
+	"claude-sonnet-4": { input: 3, output: 15 },
+	"claude-opus-4": { input: 15, output: 75 },
+};
+
+/**
+ * Combines the built-in prices with the `prices` config.
+ * @param {PriceTable} [config] - Configured prices, which take precedence.
+ * @returns {PriceTable} - The effective price table.
+ */
+export function resolvePrices(config: PriceTable = {}): PriceTable {
+	return { ...DEFAULT_PRICES, ...config };
+}
+
+/**
+ * Looks up the price of a model: an exact entry, or the longest entry the name starts with.
+ * Local Ollama models are free.
+ * @param {ProviderName} provider - The provider that served the call.
+ * @param {string} model - The model name.
+ * @param {PriceTable} prices - The effective price table.
+ * @returns {ModelPrice | null} - The price, or null if it is unknown.
+ */
+export function findModelPrice(
+	provider: ProviderName,
+	model: string,
+	prices: PriceTable,
+): ModelPrice | null {
+	const exact = prices[model];
+	if (exact) return exact;
+	const prefix = Object.keys(prices)
+		.filter((name) => model.startsWith(`${name}-`))
+		.sort((a, b) => b.length - a.length)[0];
+	if (prefix) return prices[prefix] ?? null;
+	return provider === "ollama" ? { input: 0, output: 0 } : null;
+}
+
+/**
+ * Estimates the cost of one call.
+ * @param {ModelPrice | null} price - The model's price (see `findModelPrice`).
+ * @param {number} promptTokens - Input tokens.
+ * @param {number} completionTokens - Output tokens.
+ * @returns {number | null} - The cost in USD, or null if the price is unknown.
+ */
+export function estimateCost(
+	price: ModelPrice | null,
+	promptTokens: number,
+	completionTokens: number,
+): number | null {
+	if (!price) return null;
+	return (promptTokens * price.input + completionTokens * price.output) / 1e6;
+}
+
+/**
+ * Path of the usage log: `$XDG_DATA_HOME/gitlift/usage.jsonl`, or `~/.local/share/gitlift/usage.jsonl`.
+ * @returns {string} - The file path.
+ */
+export function getUsageLogPath(): string {
+	const base = process.env.XDG_DATA_HOME || join(homedir(), ".local", "share");
+	return join(base, "gitlift", "usage.jsonl");
+}
+
+/**
+ * Appends a call to the usage log. Failures are ignored so they never fail a command.
+ * @param {UsageRecord} record - The call to log.
+ */
+export async function appendUsageRecord(record: UsageRecord) {
+	const path = getUsageLogPath();
+	try {
+		await mkdir(dirname(path), { recursive: true });
+		await appendFile(path, `${JSON.stringify(record)}\n`);
+	} catch {
+		// Tracking spend must not get in the way of the actual work
+	}
+}
+
+/**
+ * Reads the usage log, skipping lines that cannot be parsed.
+ * @param {Date | null} [since] - Only return calls made at or after this time.
+ * @returns {Promise<UsageRecord[]>} - The logged calls, oldest first (empty if nothing was logged yet).
+ */
+export async function readUsageRecords(
+	since: Date | null = null,
+): Promise<UsageRecord[]> {
+	let contents: string;
+	try {
+		contents = await readFile(getUsageLogPath(), "utf8");
+	} catch {
+		return [];
+	}
+	const records: UsageRecord[] = [];
+	for (const line of contents.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			const record = JSON.parse(line) as UsageRecord;
+			if (!since || new Date(record.timestamp) >= since) records.push(record);
+		} catch {
+			// A line cut short by an interrupted write
+		}
+	}
+	return records;
+}
+
+/**
+ * Sums logged calls per model, repository or command.
+ * @param {UsageRecord[]} records - The logged calls.
+ * @param {UsageGroup} by - What to group by.
+ * @returns {UsageSummary[]} - One summary per group, most expensive first.
+ */
+export function summarizeUsage(
+	records: UsageRecord[],
+	by: UsageGroup,
+): UsageSummary[] {
+	const groups = new Map<string, UsageSummary>();
+	for (const record of records) {
+		const key =
+			by === "model"
+				? `${record.provider}:${record.model}`
+				: (record[by] ?? "(no repository)");
+		const summary = groups.get(key) ?? {
+			key,
+			calls: 0,
+			promptTokens: 0,
+			completionTokens: 0,
+			cost: 0,
+			unpricedCalls: 0,
+		};
+		summary.calls++;
+		summary.promptTokens += record.promptTokens;
+		summary.completionTokens += record.completionTokens;
+		if (record.cost === null) summary.unpricedCalls++;
+		else summary.cost += record.cost;
+		groups.set(key, summary);
+	}
+	return [...groups.values()].sort(
+		(a, b) =>
+			b.cost - a.cost ||
+			b.promptTokens +
+				b.completionTokens -
+				(a.promptTokens + a.completionTokens),
+	);
+}
@@ -0,0 +1,52 @@
+import inquirer from "inquirer";
+import { theme } from "./theme";
+
+/**
+ * Shows the generated release notes and lets the user confirm, edit or cancel them.
+ * @param {string} initialNotes - The rendered Markdown (changelog entry or release body).
+ * @param {string} confirmLabel - What confirming does (e.g., "Add to CHANGELOG.md").
+ * @returns {Promise<string | null>} - The final Markdown, or null if cancelled.
+ */
+export async function reviewReleaseNotes(
+	initialNotes: string,
+	confirmLabel: string,
+): Promise<string | null> {
+	let currentNotes = initialNotes;
+
+	while (true) {
+		console.log(`\n${theme.primary("📰 Generated Release Notes (Preview):")}`);
+		console.log(theme.dim(currentNotes));
+
+		const { action } = await inquirer.prompt([
+			{
+				type: "list",
+				name: "action",
+				message: "Review the release notes:",
+				choices: [
+					{ name: `✅ Confirm and ${confirmLabel}`, value: "confirm" },
+					{ name: "📝 Edit (in $EDITOR)", value: "edit" },
+					{ name: "❌ Cancel", value: "cancel" },
+				],
+			},
+		]);
+
+		switch (action) {
+			case "confirm":
+				return currentNotes;
+			case "edit": {
+				const answers = await inquirer.prompt({
+					type: "editor",
+					name: "newNotes",
+					message: "Edit the release notes (save and close editor to confirm):",
+					default: currentNotes,
+					waitForUseInput: true,
+				});
+				currentNotes = answers.newNotes.trim();
+				break;
+			}
+			case "cancel":
+				console.log(theme.warning("Release notes cancelled by user."));
+				return null;
+		}
+	}
+}
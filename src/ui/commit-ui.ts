@@ -1,19 +1,42 @@
 import inquirer from "inquirer";
+import {
+	type Draft,
+	type RegenerateDraft,
+	chooseFromHistory,
+	createDraftHistory,
+	regenerateChoices,
+	regenerateDraft,
+} from "./regenerate-ui";
 import { theme } from "./theme";
 
 /**
  * Presents the generated commit title and body to the user for review and editing.
- * Allows confirming, editing title/body, or cancelling.
+ * Allows confirming, editing title/body, regenerating (optionally with instructions), going back
+ * to an earlier version, or cancelling.
  * @param {string} initialTitle - The initial commit title generated by AI.
  * @param {string} initialBody - The initial commit body generated by AI.
+ * @param {(title: string) => string[]} [validateTitle] - Returns convention violations for a title, which are shown as warnings.
+ * @param {RegenerateDraft} [regenerate] - Generates a new title and body, enabling the regenerate actions.
+ * @param {Draft[]} [alternatives] - Other candidates to offer under "Back to an Earlier Version".
  * @returns {Promise<{ title: string; body: string } | null>} - The final title/body object, or null if cancelled.
  */
 export async function reviewAndConfirmCommitMessage(
 	initialTitle: string,
 	initialBody: string,
+	validateTitle?: (title: string) => string[],
+	regenerate?: RegenerateDraft,
+	alternatives?: Draft[],
 ): Promise<{ title: string; body: string } | null> {
 	let currentTitle = initialTitle;
 	let currentBody = initialBody;
+	const history = createDraftHistory(
+		{ title: initialTitle, body: initialBody },
+		alternatives,
+	);
+	const applyDraft = (draft: Draft) => {
+		currentTitle = draft.title;
+		currentBody = draft.body;
+	};
 
 	while (true) {
 		console.log(`\n${theme.primary("🤖 Generated Commit Message (Preview):")}`);
@@ -22,15 +45,30 @@ export async function reviewAndConfirmCommitMessage(
 			`${theme.info("Body:")}\n${currentBody || theme.dim("(empty body)")}`,
 		); // Show (empty body) if currentBody is empty
 
+		const violations = validateTitle?.(currentTitle) ?? [];
+		if (violations.length > 0) {
+			console.log(theme.warning("⚠️ The title breaks the commit convention:"));
+			for (const violation of violations) {
+				console.log(theme.warning(`  - ${violation}`));
+			}
+		}
+
 		const { action } = await inquirer.prompt([
 			{
 				type: "list",
 				name: "action",
 				message: "Review the generated commit message:",
 				choices: [
-					{ name: "✅ Confirm and Commit", value: "confirm" },
+					{
+						name:
+							violations.length > 0
+								? "⚠️ Confirm and Commit anyway"
+								: "✅ Confirm and Commit",
+						value: "confirm",
+					},
 					{ name: "✏️ Edit Title", value: "edit_title" },
 					{ name: "📝 Edit Body", value: "edit_body" },
+					...regenerateChoices(Boolean(regenerate), history),
 					{ name: "❌ Cancel", value: "cancel" },
 				],
 			},
@@ -38,6 +76,12 @@ export async function reviewAndConfirmCommitMessage(
 
 		switch (action) {
 			case "confirm":
+				if (!currentTitle.trim()) {
+					console.log(
+						theme.warning("The title is empty. Edit it or regenerate first."),
+					);
+					break;
+				}
 				return { title: currentTitle, body: currentBody };
 			case "edit_title": {
 				const { newTitle } = await inquirer.prompt([
@@ -64,6 +108,27 @@ export async function reviewAndConfirmCommitMessage(
 				currentBody = newBody;
 				break;
 			}
+			case "regenerate":
+			case "regenerate_with_feedback": {
+				if (!regenerate) break;
+				applyDraft(
+					await regenerateDraft(
+						history,
+						{ title: currentTitle, body: currentBody },
+						regenerate,
+						action === "regenerate_with_feedback",
+					),
+				);
+				break;
+			}
+			case "history":
+				applyDraft(
+					await chooseFromHistory(history, {
+						title: currentTitle,
+						body: currentBody,
+					}),
+				);
+				break;
 			case "cancel":
 				console.log(theme.warning("Commit creation cancelled by user."));
 				return null;
@@ -0,0 +1,41 @@
+import { type PreparedDiff, formatOmittedFiles } from "../core/diff";
+import { type SecretFinding, formatSecretFindings } from "../core/secrets";
+import { theme } from "./theme";
+
+/**
+ * Tells the user which files were left out of the AI prompt and whether the diff was summarized.
+ * Prints nothing when the full diff was sent as-is.
+ * @param {PreparedDiff} diff - The prepared diff returned by `prepareDiff`.
+ */
+export function printDiffReport(diff: PreparedDiff) {
+	if (diff.summarized) {
+		console.log(
+			theme.warning(
+				"⚠️ The diff exceeded the token budget and was summarized per file before generation.",
+			),
+		);
+	}
+	if (diff.omitted.length > 0) {
+		console.log(
+			theme.warning(
+				`⚠️ ${diff.omitted.length} file(s) were omitted or truncated in the AI prompt:`,
+			),
+		);
+		console.log(theme.dim(formatOmittedFiles(diff.omitted)));
+	}
+}
+
+/**
+ * Warns the user about secrets that were redacted from the diff before it was sent to the AI.
+ * Prints nothing when the diff was clean.
+ * @param {SecretFinding[]} findings - The findings returned by `scrubDiff`.
+ */
+export function printSecretsReport(findings: SecretFinding[]) {
+	if (findings.length === 0) return;
+	console.log(
+		theme.warning(
+			`🔒 Redacted ${findings.length} possible secret(s) from the diff before sending it to the AI:`,
+		),
+	);
+	console.log(theme.dim(formatSecretFindings(findings)));
+}
@@ -1,19 +1,70 @@
 import inquirer from "inquirer";
+import type { ExistingPr } from "../core/forge";
+import { diffTexts } from "../core/git";
+import type { PrTemplate } from "../core/pr-template";
+import {
+	type Draft,
+	type RegenerateDraft,
+	chooseFromHistory,
+	createDraftHistory,
+	regenerateChoices,
+	regenerateDraft,
+} from "./regenerate-ui";
 import { theme } from "./theme";
 
+/**
+ * Lets the user pick which pull request template the AI should fill in.
+ * @param {PrTemplate[]} templates - The discovered templates (at least one).
+ * @returns {Promise<PrTemplate | null>} - The chosen template, or null to generate a free-form body.
+ */
+export async function choosePrTemplate(
+	templates: PrTemplate[],
+): Promise<PrTemplate | null> {
+	const { template } = await inquirer.prompt([
+		{
+			type: "list",
+			name: "template",
+			message: "This repository has PR templates. Which one should be used?",
+			choices: [
+				...templates.map((t) => ({
+					name: `📄 ${t.name} ${theme.dim(`(${t.path})`)}`,
+					value: t,
+				})),
+				{ name: "🚫 No template (free-form body)", value: null },
+			],
+		},
+	]);
+	return template;
+}
+
 /**
  * Presents the generated PR content to the user for review and editing.
- * Allows confirming, editing title/body, or cancelling.
+ * Allows confirming, editing title/body, regenerating (optionally with instructions), going back
+ * to an earlier version, or cancelling.
  * @param {string} initialTitle - The initial title generated by AI.
  * @param {string} initialBody - The initial body generated by AI.
+ * @param {ExistingPr} [existingPr] - The open PR being updated, enabling a diff against its current description.
+ * @param {RegenerateDraft} [regenerate] - Generates a new title and body, enabling the regenerate actions.
+ * @param {Draft[]} [alternatives] - Other candidates to offer under "Back to an Earlier Version".
  * @returns {Promise<{ title: string; body: string } | null>} - The final title/body object, or null if cancelled.
  */
 export async function reviewAndConfirmPr(
 	initialTitle: string,
 	initialBody: string,
+	existingPr?: ExistingPr,
+	regenerate?: RegenerateDraft,
+	alternatives?: Draft[],
 ): Promise<{ title: string; body: string } | null> {
 	let currentTitle = initialTitle;
 	let currentBody = initialBody;
+	const history = createDraftHistory(
+		{ title: initialTitle, body: initialBody },
+		alternatives,
+	);
+	const applyDraft = (draft: Draft) => {
+		currentTitle = draft.title;
+		currentBody = draft.body;
+	};
 
 	while (true) {
 		console.log(`\n${theme.primary("🤖 Generated PR Content (Preview):")}`);
@@ -26,9 +77,18 @@ export async function reviewAndConfirmPr(
 				name: "action",
 				message: "Review the generated content:",
 				choices: [
-					{ name: "✅ Confirm and Create PR", value: "confirm" },
+					{
+						name: existingPr
+							? `✅ Confirm and Update PR #${existingPr.number}`
+							: "✅ Confirm and Create PR",
+						value: "confirm",
+					},
 					{ name: "✏️ Edit Title", value: "edit_title" },
 					{ name: "📝 Edit Body (in $EDITOR)", value: "edit_body" },
+					...regenerateChoices(Boolean(regenerate), history),
+					...(existingPr
+						? [{ name: "🔍 Show Changes vs. Current PR", value: "show_diff" }]
+						: []),
 					{ name: "❌ Cancel", value: "cancel" },
 				],
 			},
@@ -36,6 +96,12 @@ export async function reviewAndConfirmPr(
 
 		switch (action) {
 			case "confirm":
+				if (!currentTitle.trim()) {
+					console.log(
+						theme.warning("The title is empty. Edit it or regenerate first."),
+					);
+					break;
+				}
 				return { title: currentTitle, body: currentBody };
 			case "edit_title": {
 				const { newTitle } = await inquirer.prompt([
@@ -60,9 +126,83 @@ export async function reviewAndConfirmPr(
 				currentBody = answers.newBody;
 				break;
 			}
+			case "regenerate":
+			case "regenerate_with_feedback": {
+				if (!regenerate) break;
+				applyDraft(
+					await regenerateDraft(
+						history,
+						{ title: currentTitle, body: currentBody },
+						regenerate,
+						action === "regenerate_with_feedback",
+					),
+				);
+				break;
+			}
+			case "history":
+				applyDraft(
+					await chooseFromHistory(history, {
+						title: currentTitle,
+						body: currentBody,
+					}),
+				);
+				break;
+			case "show_diff": {
+				if (!existingPr) break;
+				const before = `${existingPr.title}\n\n${existingPr.body}`;
+				const after = `${currentTitle}\n\n${currentBody}`;
+				const changes = await diffTexts(before, after);
+				console.log(
+					`\n${theme.primary(`🔍 Changes vs. PR #${existingPr.number} (title on the first line):`)}`,
+				);
+				console.log(changes || theme.dim("(no changes)"));
+				break;
+			}
 			case "cancel":
 				console.log(theme.warning("PR creation cancelled by user."));
 				return null;
 		}
 	}
 }
+
+/**
+ * Asks whether an existing open PR should have its title and body regenerated.
+ * @param {ExistingPr} pr - The open PR for the current branch.
+ * @returns {Promise<boolean>} - True to regenerate and update the PR.
+ */
+export async function confirmUpdateExistingPr(
+	pr: ExistingPr,
+): Promise<boolean> {
+	const { update } = await inquirer.prompt([
+		{
+			type: "confirm",
+			name: "update",
+			message: `PR #${pr.number} ("${pr.title}") is already open for this branch. Regenerate and update its title/body?`,
+			default: true,
+		},
+	]);
+	return update;
+}
+
+/**
+ * Lets the user confirm which AI-suggested labels to apply.
+ * @param {string[]} suggested - The suggested label names (all pre-selected).
+ * @returns {Promise<string[]>} - The labels the user kept.
+ */
+export async function chooseSuggestedLabels(
+	suggested: string[],
+): Promise<string[]> {
+	const { labels } = await inquirer.prompt([
+		{
+			type: "checkbox",
+			name: "labels",
+			message: "Apply these suggested labels?",
+			choices: suggested.map((label) => ({
+				name: label,
+				value: label,
+				checked: true,
+			})),
+		},
+	]);
+	return labels;
+}
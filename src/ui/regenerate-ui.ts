@@ -0,0 +1,211 @@
+import inquirer from "inquirer";
+import { UserCancelledError } from "../utils/errors";
+import { theme } from "./theme";
+
+/**
+ * A title and body under review (PR content or a commit message).
+ */
+export interface Draft {
+	title: string;
+	body: string;
+}
+
+/**
+ * Generates a new draft from the current one, optionally following the user's instructions.
+ */
+export type RegenerateDraft = (
+	current: Draft,
+	feedback?: string,
+) => Promise<Draft>;
+
+/**
+ * Builds the regenerate and history entries for a review menu.
+ * @param {boolean} canRegenerate - Whether a regenerate callback was provided.
+ * @param {Draft[]} history - The drafts seen so far.
+ * @returns {{ name: string; value: string }[]} - Choices to add to the inquirer list.
+ */
+export function regenerateChoices(
+	canRegenerate: boolean,
+	history: Draft[],
+): { name: string; value: string }[] {
+	return [
+		...(canRegenerate
+			? [
+					{ name: "🔄 Regenerate", value: "regenerate" },
+					{
+						name: "💬 Regenerate with Instructions",
+						value: "regenerate_with_feedback",
+					},
+				]
+			: []),
+		...(history.length > 1
+			? [
+					{
+						name: `🕘 Back to an Earlier Version (${history.length})`,
+						value: "history",
+					},
+				]
+			: []),
+	];
+}
+
+/**
+ * Starts the version history of a review loop.
+ * @param {Draft} initial - The draft shown first.
+ * @param {Draft[]} [alternatives=[]] - Other drafts to offer from the start (e.g., the other `--candidates`).
+ * @returns {Draft[]} - The history, in generation order.
+ */
+export function createDraftHistory(
+	initial: Draft,
+	alternatives: Draft[] = [],
+): Draft[] {
+	const history: Draft[] = [];
+	for (const draft of [...alternatives, initial]) recordDraft(history, draft);
+	return history;
+}
+
+function recordDraft(history: Draft[], draft: Draft) {
+	// The empty draft left by a cancelled first generation is not worth going back to
+	if (!draft.title.trim()) return;
+	const known = history.some(
+		(entry) => entry.title === draft.title && entry.body === draft.body,
+	);
+	if (!known) history.push({ ...draft });
+}
+
+/**
+ * Asks the AI for a new draft and adds it to the history. The current draft (including manual
+ * edits) is kept in the history too, so the user can go back to it. Generation errors and
+ * cancelling with Ctrl+C leave the current draft in place.
+ * @param {Draft[]} history - The drafts seen so far; updated in place.
+ * @param {Draft} current - The draft on screen.
+ * @param {RegenerateDraft} regenerate - Generates the new draft.
+ * @param {boolean} withFeedback - Ask the user what to change first.
+ * @returns {Promise<Draft>} - The new draft, or `current` if generation failed or was cancelled, or no instructions were given.
+ */
+export async function regenerateDraft(
+	history: Draft[],
+	current: Draft,
+	regenerate: RegenerateDraft,
+	withFeedback: boolean,
+): Promise<Draft> {
+	let feedback: string | undefined;
+	if (withFeedback) {
+		const answers = await inquirer.prompt([
+			{
+				type: "input",
+				name: "feedback",
+				message:
+					'What should change? (e.g., "shorter", "mention the migration", "use imperative mood")',
+			},
+		]);
+		feedback = answers.feedback.trim();
+		if (!feedback) return current;
+	}
+
+	recordDraft(history, current);
+	try {
+		const next = await regenerate(current, feedback);
+		recordDraft(history, next);
+		return next;
+	} catch (error: unknown) {
+		if (error instanceof UserCancelledError) {
+			console.log(
+				theme.warning("Regeneration cancelled, keeping this version."),
+			);
+			return current;
+		}
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(theme.error(`Regeneration failed: ${message}`));
+		return current;
+	}
+}
+
+/**
+ * Runs the first generation of a review loop. Cancelling it with Ctrl+C returns an empty draft,
+ * so the user lands in the review menu and can write the text or regenerate instead.
+ * @param {() => Promise<Draft>} generate - Generates the first draft.
+ * @returns {Promise<Draft>} - The generated draft, or an empty one if generation was cancelled.
+ */
+export async function generateInitialDraft(
+	generate: () => Promise<Draft>,
+): Promise<Draft> {
+	try {
+		return await generate();
+	} catch (error: unknown) {
+		if (!(error instanceof UserCancelledError)) throw error;
+		console.log(
+			theme.warning(
+				"Generation cancelled. Edit the title and body, or regenerate.",
+			),
+		);
+		return { title: "", body: "" };
+	}
+}
+
+/**
+ * Lets the user pick an earlier draft from the history.
+ * @param {Draft[]} history - The drafts seen so far.
+ * @param {Draft} current - The draft on screen, kept if the user backs out.
+ * @returns {Promise<Draft>} - The chosen draft.
+ */
+export async function chooseFromHistory(
+	history: Draft[],
+	current: Draft,
+): Promise<Draft> {
+	recordDraft(history, current);
+	const { draft } = await inquirer.prompt([
+		{
+			type: "list",
+			name: "draft",
+			message: "Which version do you want to go back to?",
+			choices: history.map((entry, index) => ({
+				name: `${index + 1}. ${entry.title}${entry.title === current.title && entry.body === current.body ? theme.dim(" (current)") : ""}`,
+				value: entry,
+			})),
+		},
+	]);
+	return { ...draft };
+}
+
+/**
+ * Shows several generated candidates one after another and lets the user pick one to review.
+ * @param {Draft[]} candidates - The alternatives (at least two).
+ * @param {string} kind - What the candidates are, for headings (e.g., "Commit Message").
+ * @param {(title: string) => string[]} [validateTitle] - Returns convention violations for a title, which are shown as warnings.
+ * @returns {Promise<Draft | null>} - The chosen candidate, or null if cancelled.
+ */
+export async function chooseCandidate(
+	candidates: Draft[],
+	kind: string,
+	validateTitle?: (title: string) => string[],
+): Promise<Draft | null> {
+	console.log(
+		`\n${theme.primary(`🤖 ${candidates.length} ${kind} Candidates:`)}`,
+	);
+	for (const [index, candidate] of candidates.entries()) {
+		console.log(`\n${theme.info(`── Candidate ${index + 1} ──`)}`);
+		console.log(`${theme.info("Title:")} ${candidate.title}`);
+		console.log(theme.dim(candidate.body.trim() || "(empty body)"));
+		for (const violation of validateTitle?.(candidate.title) ?? []) {
+			console.log(theme.warning(`⚠️ ${violation}`));
+		}
+	}
+
+	const { choice } = await inquirer.prompt([
+		{
+			type: "list",
+			name: "choice",
+			message: "Which candidate do you want to continue with?",
+			choices: [
+				...candidates.map((candidate, index) => ({
+					name: `${index + 1}. ${candidate.title}`,
+					value: index,
+				})),
+				{ name: "❌ Cancel", value: -1 },
+			],
+		},
+	]);
+	if (choice === -1) return null;
+	return candidates[choice] ?? null;
+}
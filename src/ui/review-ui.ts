@@ -0,0 +1,23 @@
+import inquirer from "inquirer";
+import type { ExistingPr } from "../core/forge";
+
+/**
+ * Asks before publishing AI review comments on a pull request.
+ * @param {ExistingPr} pr - The pull request the review would be posted to.
+ * @param {number} findingCount - How many findings would be posted.
+ * @returns {Promise<boolean>} - True to post the review.
+ */
+export async function confirmPostReview(
+	pr: ExistingPr,
+	findingCount: number,
+): Promise<boolean> {
+	const { post } = await inquirer.prompt([
+		{
+			type: "confirm",
+			name: "post",
+			message: `Post the review with ${findingCount} finding(s) to PR #${pr.number} ("${pr.title}")?`,
+			default: true,
+		},
+	]);
+	return post;
+}
@@ -0,0 +1,140 @@
+import inquirer from "inquirer";
+import type { RangeCommit } from "../core/reword";
+import { theme } from "./theme";
+
+/**
+ * A commit with the message proposed to replace its current one.
+ */
+export interface RewordEntry {
+	commit: RangeCommit;
+	title: string;
+	body: string;
+	/** False when the user chose to keep the current message. */
+	reword: boolean;
+}
+
+function printRewordPlan(
+	entries: RewordEntry[],
+	validateTitle?: (title: string) => string[],
+) {
+	console.log(`\n${theme.primary("✍️ Reworded Messages (Preview):")}`);
+	for (const [index, entry] of entries.entries()) {
+		const hash = entry.commit.hash.slice(0, 7);
+		console.log(`\n${theme.info(`${index + 1}. ${hash}`)}`);
+		if (!entry.reword) {
+			console.log(`   ${entry.commit.title} ${theme.dim("(kept)")}`);
+			continue;
+		}
+		console.log(theme.error(`   - ${entry.commit.title}`));
+		console.log(theme.success(`   + ${entry.title}`));
+		if (entry.body.trim()) {
+			console.log(theme.dim(entry.body.trim().replace(/^/gm, "     ")));
+		}
+		for (const violation of validateTitle?.(entry.title) ?? []) {
+			console.log(theme.warning(`   ⚠️ ${violation}`));
+		}
+	}
+}
+
+async function chooseEntry(
+	entries: RewordEntry[],
+	message: string,
+): Promise<number> {
+	const { index } = await inquirer.prompt([
+		{
+			type: "list",
+			name: "index",
+			message,
+			choices: entries.map((entry, i) => ({
+				name: `${i + 1}. ${entry.commit.hash.slice(0, 7)} ${entry.reword ? entry.title : entry.commit.title}`,
+				value: i,
+			})),
+		},
+	]);
+	return index;
+}
+
+/**
+ * Shows the current and proposed message of each commit and lets the user edit a proposal,
+ * keep a commit's current message, or cancel before any commit is rewritten.
+ * @param {RewordEntry[]} initialEntries - The commits with their proposed messages.
+ * @param {(title: string) => string[]} [validateTitle] - Returns convention violations for a title, which are shown as warnings.
+ * @returns {Promise<RewordEntry[] | null>} - The final entries, or null if cancelled.
+ */
+export async function reviewRewordPlan(
+	initialEntries: RewordEntry[],
+	validateTitle?: (title: string) => string[],
+): Promise<RewordEntry[] | null> {
+	const entries = initialEntries.map((entry) => ({ ...entry }));
+
+	while (true) {
+		printRewordPlan(entries, validateTitle);
+		const count = entries.filter((entry) => entry.reword).length;
+
+		const { action } = await inquirer.prompt([
+			{
+				type: "list",
+				name: "action",
+				message: "Review the new commit messages:",
+				choices: [
+					...(count > 0
+						? [
+								{
+									name: `✅ Confirm and Reword ${count} Commit(s)`,
+									value: "confirm",
+								},
+							]
+						: []),
+					{ name: "✏️ Edit a Message", value: "edit" },
+					{ name: "↩️ Keep or Restore a Proposal", value: "toggle" },
+					{ name: "❌ Cancel", value: "cancel" },
+				],
+			},
+		]);
+
+		switch (action) {
+			case "confirm":
+				return entries;
+			case "edit": {
+				const index = await chooseEntry(entries, "Which commit?");
+				const entry = entries[index] as RewordEntry;
+				const { newTitle } = await inquirer.prompt([
+					{
+						type: "input",
+						name: "newTitle",
+						message: "Enter the new commit title:",
+						default: entry.title,
+					},
+				]);
+				const { newBody } = await inquirer.prompt([
+					{
+						type: "editor",
+						name: "newBody",
+						message: "Edit the commit body (save and close editor to confirm):",
+						default: entry.body,
+						waitForUseInput: true,
+					},
+				]);
+				entries[index] = {
+					...entry,
+					title: newTitle,
+					body: newBody.trim(),
+					reword: true,
+				};
+				break;
+			}
+			case "toggle": {
+				const index = await chooseEntry(
+					entries,
+					"Keep the current message of which commit (or use the proposal again)?",
+				);
+				const entry = entries[index] as RewordEntry;
+				entries[index] = { ...entry, reword: !entry.reword };
+				break;
+			}
+			case "cancel":
+				console.log(theme.warning("Reword cancelled by user."));
+				return null;
+		}
+	}
+}
@@ -0,0 +1,161 @@
+import inquirer from "inquirer";
+import {
+	type DiffHunk,
+	type PlannedCommit,
+	getPlannedFiles,
+} from "../core/split";
+import { theme } from "./theme";
+
+function printPlan(
+	plan: PlannedCommit[],
+	hunks: DiffHunk[],
+	validateTitle?: (title: string) => string[],
+) {
+	console.log(`\n${theme.primary("🧩 Commit Plan (Preview):")}`);
+	for (const [index, commit] of plan.entries()) {
+		const violations = validateTitle?.(commit.title) ?? [];
+		const marker = violations.length > 0 ? theme.warning(" ⚠️") : "";
+		console.log(`\n${theme.info(`${index + 1}.`)} ${commit.title}${marker}`);
+		if (commit.body.trim()) {
+			console.log(theme.dim(commit.body.trim().replace(/^/gm, "   ")));
+		}
+		const files = getPlannedFiles(commit, hunks);
+		console.log(
+			theme.dim(
+				`   ${commit.hunks.length} hunk(s) in ${files.length} file(s): ${files.join(", ")}`,
+			),
+		);
+		for (const violation of violations) {
+			console.log(theme.warning(`   - ${violation}`));
+		}
+	}
+}
+
+async function chooseCommit(
+	plan: PlannedCommit[],
+	message: string,
+): Promise<number> {
+	const { index } = await inquirer.prompt([
+		{
+			type: "list",
+			name: "index",
+			message,
+			choices: plan.map((commit, i) => ({
+				name: `${i + 1}. ${commit.title}`,
+				value: i,
+			})),
+		},
+	]);
+	return index;
+}
+
+/**
+ * Shows the commit plan and lets the user reorder commits, edit their messages,
+ * merge two commits, or cancel before anything is committed.
+ * @param {PlannedCommit[]} initialPlan - The normalized plan.
+ * @param {DiffHunk[]} hunks - All staged hunks, for listing the files of each commit.
+ * @param {(title: string) => string[]} [validateTitle] - Returns convention violations for a title, which are shown as warnings.
+ * @returns {Promise<PlannedCommit[] | null>} - The final plan, or null if cancelled.
+ */
+export async function reviewCommitPlan(
+	initialPlan: PlannedCommit[],
+	hunks: DiffHunk[],
+	validateTitle?: (title: string) => string[],
+): Promise<PlannedCommit[] | null> {
+	const plan = initialPlan.map((commit) => ({ ...commit }));
+
+	while (true) {
+		printPlan(plan, hunks, validateTitle);
+
+		const { action } = await inquirer.prompt([
+			{
+				type: "list",
+				name: "action",
+				message: "Review the commit plan:",
+				choices: [
+					{
+						name: `✅ Confirm and Create ${plan.length} Commit(s)`,
+						value: "confirm",
+					},
+					{ name: "✏️ Edit a Commit Message", value: "edit" },
+					...(plan.length > 1
+						? [
+								{ name: "↕️ Move a Commit", value: "move" },
+								{ name: "🔗 Merge Two Commits", value: "merge" },
+							]
+						: []),
+					{ name: "❌ Cancel", value: "cancel" },
+				],
+			},
+		]);
+
+		switch (action) {
+			case "confirm":
+				return plan;
+			case "edit": {
+				const index = await chooseCommit(plan, "Which commit?");
+				const commit = plan[index] as PlannedCommit;
+				const { newTitle } = await inquirer.prompt([
+					{
+						type: "input",
+						name: "newTitle",
+						message: "Enter the new commit title:",
+						default: commit.title,
+					},
+				]);
+				const { newBody } = await inquirer.prompt([
+					{
+						type: "editor",
+						name: "newBody",
+						message: "Edit the commit body (save and close editor to confirm):",
+						default: commit.body,
+						waitForUseInput: true,
+					},
+				]);
+				plan[index] = { ...commit, title: newTitle, body: newBody.trim() };
+				break;
+			}
+			case "move": {
+				const from = await chooseCommit(
+					plan,
+					"Which commit do you want to move?",
+				);
+				const { to } = await inquirer.prompt([
+					{
+						type: "list",
+						name: "to",
+						message: "Move it to position:",
+						choices: plan.map((_, i) => ({ name: `${i + 1}`, value: i })),
+						default: from,
+					},
+				]);
+				const [commit] = plan.splice(from, 1);
+				if (commit) plan.splice(to, 0, commit);
+				break;
+			}
+			case "merge": {
+				const source = await chooseCommit(
+					plan,
+					"Which commit do you want to merge?",
+				);
+				const target = await chooseCommit(
+					plan.filter((_, i) => i !== source),
+					"Merge it into:",
+				);
+				const [merged] = plan.splice(source, 1);
+				const into = plan[target] as PlannedCommit;
+				plan[target] = {
+					...into,
+					body: [into.body.trim(), merged?.body.trim()]
+						.filter(Boolean)
+						.join("\n"),
+					hunks: [...into.hunks, ...(merged?.hunks ?? [])],
+				};
+				break;
+			}
+			case "cancel":
+				console.log(theme.warning("Commit split cancelled by user."));
+				return null;
+		}
+	}
+}
@@ -0,0 +1,98 @@
+import { stripVTControlCharacters } from "node:util";
+import type { Draft } from "./regenerate-ui";
+import { theme } from "./theme";
+
+/**
+ * A live view of a title and body while they are being generated.
+ */
+export interface DraftPreview {
+	/** Redraws the preview with the text received so far. */
+	update(partial: Partial<Draft>): void;
+	/** Removes the preview from the terminal. */
+	clear(): void;
+}
+
+// Redraw at most this often; tokens arrive much faster than the terminal needs to repaint
+const REDRAW_INTERVAL_MS = 50;
+
+/**
+ * Whether output can be redrawn in place, which streaming previews need.
+ * @returns {boolean} - True if stdout is an interactive terminal.
+ */
+export function canPreviewStream(): boolean {
+	return Boolean(process.stdout.isTTY);
+}
+
+function countRows(lines: string[], columns: number): number {
+	return lines.reduce(
+		(rows, line) =>
+			rows +
+			Math.max(1, Math.ceil(stripVTControlCharacters(line).length / columns)),
+		0,
+	);
+}
+
+/**
+ * Starts a preview that redraws a draft in place below the cursor as it grows.
+ * Only the last lines of a long body are shown, since lines scrolled off the screen cannot be redrawn.
+ * @param {string} heading - What is being generated, shown above the draft (e.g., the spinner text).
+ * @returns {DraftPreview} - Call `update` with each partial draft and `clear` when done.
+ */
+export function createDraftPreview(heading: string): DraftPreview {
+	const stdout = process.stdout;
+	let rendered = 0;
+	let lastDraw = 0;
+	let pending: Partial<Draft> | null = null;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+
+	const erase = () => {
+		if (rendered === 0) return;
+		stdout.write(`\x1b[${rendered}F\x1b[J`);
+		rendered = 0;
+	};
+
+	const draw = (partial: Partial<Draft>) => {
+		const columns = stdout.columns || 80;
+		const maxRows = Math.max(4, (stdout.rows || 24) - 2);
+		const header = [
+			`${heading} ${theme.dim("(Ctrl+C to cancel)")}`,
+			`${theme.info("Title:")} ${partial.title ?? ""}`,
+		];
+		let body = (partial.body ?? "").split("\n");
+		while (
+			body.length > 1 &&
+			countRows([...header, ...body], columns) > maxRows
+		) {
+			body = body.slice(1);
+		}
+		const lines = [...header, ...body];
+		erase();
+		stdout.write(`${lines.join("\n")}\n`);
+		rendered = countRows(lines, columns);
+		lastDraw = Date.now();
+	};
+
+	return {
+		update(partial) {
+			pending = partial;
+			if (timer) return;
+			const wait = REDRAW_INTERVAL_MS - (Date.now() - lastDraw);
+			if (wait <= 0) {
+				draw(partial);
+				pending = null;
+				return;
+			}
+			timer = setTimeout(() => {
+				timer = null;
+				if (pending) draw(pending);
+				pending = null;
+			}, wait);
+		},
+		clear() {
+			if (timer) clearTimeout(timer);
+			timer = null;
+			pending = null;
+			erase();
+		},
+	};
+}
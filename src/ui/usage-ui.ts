@@ -0,0 +1,89 @@
+import type { TokenUsage } from "../core/ai";
+import type { UsageGroup, UsageSummary } from "../core/usage";
+import { theme } from "./theme";
+
+/**
+ * Formats an amount in USD with enough decimals for the small amounts a single run costs.
+ * @param {number} cost - The amount in USD.
+ * @returns {string} - E.g., "$0.0042" or "$12.50".
+ */
+export function formatCost(cost: number): string {
+	return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Prints the models that answered, the tokens a command used and their estimated cost. Prints nothing if no AI call was made
+ * (e.g., every response came from the cache).
+ * @param {TokenUsage} usage - The command's usage counter.
+ */
+export function printUsageSummary(usage: TokenUsage) {
+	if (usage.totalTokens === 0 && usage.promptTokens === 0) return;
+	const tokens = `${usage.promptTokens.toLocaleString()} prompt + ${usage.completionTokens.toLocaleString()} completion tokens`;
+	const cost =
+		usage.cost === null
+			? "cost unknown (add the model to the `prices` config)"
+			: `~${formatCost(usage.cost)}`;
+	console.log(theme.dim(`📊 ${usage.models.join(", ")}: ${tokens}, ${cost}`));
+}
+
+/**
+ * Prints logged usage as a table, one row per group, with a total.
+ * @param {UsageSummary[]} summaries - The groups (see `summarizeUsage`).
+ * @param {UsageGroup} by - What the rows are grouped by.
+ */
+export function printUsageReport(summaries: UsageSummary[], by: UsageGroup) {
+	const total = summaries.reduce(
+		(sum, row) => ({
+			key: "Total",
+			calls: sum.calls + row.calls,
+			promptTokens: sum.promptTokens + row.promptTokens,
+			completionTokens: sum.completionTokens + row.completionTokens,
+			cost: sum.cost + row.cost,
+			unpricedCalls: sum.unpricedCalls + row.unpricedCalls,
+		}),
+		{
+			key: "Total",
+			calls: 0,
+			promptTokens: 0,
+			completionTokens: 0,
+			cost: 0,
+			unpricedCalls: 0,
+		},
+	);
+	const header = [
+		by[0]?.toUpperCase() + by.slice(1),
+		"Calls",
+		"Prompt",
+		"Completion",
+		"Cost",
+	];
+	const rows = [...summaries, total].map((row) => [
+		row.key,
+		row.calls.toLocaleString(),
+		row.promptTokens.toLocaleString(),
+		row.completionTokens.toLocaleString(),
+		`${formatCost(row.cost)}${row.unpricedCalls > 0 ? "*" : ""}`,
+	]);
+	const widths = header.map((title, column) =>
+		Math.max(title.length, ...rows.map((row) => (row[column] ?? "").length)),
+	);
+	const format = (cells: string[]) =>
+		cells
+			.map((cell, column) =>
+				column === 0
+					? cell.padEnd(widths[column] ?? 0)
+					: cell.padStart(widths[column] ?? 0),
+			)
+			.join("  ");
+
+	console.log(theme.primary(format(header)));
+	for (const row of rows.slice(0, -1)) console.log(format(row));
+	console.log(theme.info(format(rows.at(-1) ?? [])));
+	if (total.unpricedCalls > 0) {
+		console.log(
+			theme.dim(
+				`* ${total.unpricedCalls} call(s) used models without a price and are not included; add them to the \`prices\` config.`,
+			),
+		);
+	}
+}
@@ -0,0 +1,33 @@
+import { describe, expect, setSystemTime, test } from "bun:test";
+import { InvalidArgumentError } from "commander";
+import { parseCandidateCount, parseSince } from "./args";
+
+describe("parseSince", () => {
+	test("reads durations before now", () => {
+		setSystemTime(new Date("2026-03-10T12:00:00.000Z"));
+		try {
+			expect(parseSince("12h").toISOString()).toBe("2026-03-10T00:00:00.000Z");
+			expect(parseSince("7d").toISOString()).toBe("2026-03-03T12:00:00.000Z");
+			expect(parseSince("2W").toISOString()).toBe("2026-02-24T12:00:00.000Z");
+		} finally {
+			setSystemTime();
+		}
+	});
+
+	test("reads dates and rejects anything else", () => {
+		expect(parseSince("2026-06-01").toISOString()).toBe(
+			"2026-06-01T00:00:00.000Z",
+		);
+		expect(() => parseSince("last week")).toThrow(InvalidArgumentError);
+		expect(() => parseSince("7m")).toThrow(InvalidArgumentError);
+	});
+});
+
+describe("parseCandidateCount", () => {
+	test("accepts whole numbers from 1 to 5", () => {
+		expect(parseCandidateCount("3")).toBe(3);
+		for (const value of ["0", "6", "2.5", "two"]) {
+			expect(() => parseCandidateCount(value)).toThrow(InvalidArgumentError);
+		}
+	});
+});
@@ -0,0 +1,47 @@
+import { InvalidArgumentError } from "commander";
+
+// Keeps a single response (and the choice shown to the user) manageable
+export const MAX_CANDIDATES = 5;
+
+/**
+ * Commander argument parser for `--candidates <n>`.
+ * @param {string} value - The raw option value.
+ * @returns {number} - The number of candidates to generate.
+ * @throws {InvalidArgumentError} If the value is not a whole number between 1 and `MAX_CANDIDATES`.
+ */
+export function parseCandidateCount(value: string): number {
+	const count = Number(value);
+	if (!Number.isInteger(count) || count < 1 || count > MAX_CANDIDATES) {
+		throw new InvalidArgumentError(
+			`Must be a whole number between 1 and ${MAX_CANDIDATES}.`,
+		);
+	}
+	return count;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Commander argument parser for `--since`: a date or time ("2025-06-01") or a duration before now ("12h", "7d", "2w").
+ * @param {string} value - The raw option value.
+ * @returns {Date} - The start of the period.
+ * @throws {InvalidArgumentError} If the value is neither a date nor a duration.
+ */
+export function parseSince(value: string): Date {
+	const duration = value.trim().match(/^(\d+)\s*([hdw])$/i);
+	if (duration) {
+		const unit = DURATION_UNITS_MS[(duration[2] as string).toLowerCase()] ?? 0;
+		return new Date(Date.now() - Number(duration[1]) * unit);
+	}
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new InvalidArgumentError(
+			'Must be a date (e.g., "2025-06-01") or a duration such as "12h", "7d" or "2w".',
+		);
+	}
+	return date;
+}
@@ -1,70 +1,278 @@
-import { theme } from "../ui/theme";
+import { APICallError } from "ai";
+import { PROVIDERS, type ProviderName } from "../core/provider";
+import { AiTimeoutError } from "../core/retry";
 
 /**
- * Parses a potential AI API error and returns a more user-friendly Error object.
- * Logs the original error for debugging purposes.
- *
- * @param error The error object caught (type unknown).
- * @param modelName The name of the AI model being used (for context in messages).
- * @returns A standard Error object with a potentially refined message.
+ * Process exit codes, one per failure class, so scripts can tell why GitLift stopped.
  */
-export function parseAiApiError(error: unknown, modelName: string): Error {
-	let detailedMessage = "Failed to generate PR content using AI.";
-	let isApiError = false;
-
-	if (error instanceof Error) {
-		detailedMessage = error.message; // Default to the error message
-
-		// Check if it looks like a specific AI SDK API Call Error
-		if (error.message.startsWith("AI_APICallError:")) {
-			isApiError = true;
-			const apiErrorMessage = error.message
-				.substring("AI_APICallError:".length)
-				.trim();
-			detailedMessage = `OpenAI API Error: ${apiErrorMessage}`;
-
-			// Refine messages based on common API error content
-			if (apiErrorMessage.toLowerCase().includes("incorrect api key")) {
-				detailedMessage =
-					"Invalid OpenAI API Key provided. Please check your OPENAI_API_KEY environment variable.";
-			} else if (apiErrorMessage.toLowerCase().includes("rate limit")) {
-				detailedMessage =
-					"OpenAI API rate limit exceeded. Please try again later or check your usage.";
-			} else if (apiErrorMessage.toLowerCase().includes("model not found")) {
-				detailedMessage = `The specified AI model was not found: ${modelName}. Please check the model name or your API access.`;
-			} else if (apiErrorMessage.toLowerCase().includes("insufficient quota")) {
-				detailedMessage =
-					"OpenAI API quota exceeded. Please check your billing details on OpenAI.";
-			}
-			// Add more specific checks here if needed
-		}
-
-		// Log the original error details for debugging
-		if (!isApiError) {
-			console.error(
-				theme.error("Original AI Error Stack:"),
-				theme.dim(error.stack || error.message),
-			);
-		} else {
-			// For identified API errors, log only the original short message (the refined one will be thrown)
-			console.error(
-				theme.error("Original AI Error Message:"),
-				theme.dim(error.message),
-			);
-		}
-	} else {
-		// Log non-Error objects
-		console.error(theme.error("Raw AI Error (Non-Error object):"), error);
-		detailedMessage =
-			"An unexpected non-Error object was thrown during AI generation.";
-	}
-
-	// Return a standard Error object with the refined message
-	return new Error(detailedMessage);
+export const ExitCode = {
+	Success: 0,
+	/** Unexpected or unclassified error. */
+	Error: 1,
+	/** Invalid option or configuration value. */
+	Usage: 2,
+	/** Missing tool or credentials (git, gh, forge token, AI API key). */
+	Prerequisites: 3,
+	Git: 4,
+	/** GitHub, GitLab or Bitbucket request failed. */
+	Forge: 5,
+	/** AI provider request failed. */
+	Ai: 6,
+	/** No changes or commits to generate anything for. */
+	NothingToDo: 7,
+	/** The user declined a confirmation prompt or pressed Ctrl+C. */
+	Cancelled: 8,
+	/** The diff contains secrets and `secrets.mode` is "block". */
+	Blocked: 9,
+	/** The AI provider rejected the API key. */
+	AiAuth: 10,
+	/** The AI provider's rate limit or quota was exhausted. */
+	AiQuota: 11,
+	/** The prompt did not fit into the model's context window. */
+	AiContextLength: 12,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/**
+ * Extra details of a `CommandError`.
+ */
+export interface CommandErrorOptions {
+	/** What the user can do about the error, printed below the message. */
+	hint?: string;
+	/** The underlying error, printed with `--verbose`. */
+	cause?: unknown;
+}
+
+/**
+ * An error that carries the exit code the CLI should terminate with, and optionally a hint
+ * on how to fix it. The subclasses below cover the common failure classes.
+ */
+export class CommandError extends Error {
+	readonly exitCode: ExitCode;
+	readonly hint?: string;
+
+	constructor(
+		message: string,
+		exitCode: ExitCode,
+		options: CommandErrorOptions = {},
+	) {
+		super(message, { cause: options.cause });
+		this.name = "CommandError";
+		this.exitCode = exitCode;
+		this.hint = options.hint;
+	}
+}
+
+/**
+ * An invalid configuration value or file (exit code `Usage`).
+ */
+export class ConfigError extends CommandError {
+	constructor(message: string, options: CommandErrorOptions = {}) {
+		super(message, ExitCode.Usage, {
+			hint: "Run 'gitlift config show --origin' to see where each value comes from.",
+			...options,
+		});
+		this.name = "ConfigError";
+	}
+}
+
+/**
+ * A missing tool or missing credentials (exit code `Prerequisites`).
+ */
+export class PrerequisiteError extends CommandError {
+	constructor(message: string, options: CommandErrorOptions = {}) {
+		super(message, ExitCode.Prerequisites, options);
+		this.name = "PrerequisiteError";
+	}
+}
+
+/**
+ * A failed git command (exit code `Git`).
+ */
+export class GitError extends CommandError {
+	constructor(message: string, options: CommandErrorOptions = {}) {
+		super(message, ExitCode.Git, {
+			hint: "Run 'git status' to check the state of the repository, then try again.",
+			...options,
+		});
+		this.name = "GitError";
+	}
+}
+
+/**
+ * A failed GitHub CLI, GitLab API or Bitbucket API request (exit code `Forge`).
+ */
+export class ForgeError extends CommandError {
+	constructor(message: string, options: CommandErrorOptions = {}) {
+		super(message, ExitCode.Forge, {
+			hint: "Check your access with 'gh auth status' (GitHub) or the GITLAB_TOKEN / BITBUCKET_TOKEN variables, and that 'origin' points to the right repository.",
+			...options,
+		});
+		this.name = "ForgeError";
+	}
 }
 
-// Future Enhancement: Consider adding custom error classes like APIError, GitError, etc.
-// export class APIError extends Error { constructor(message: string) { super(message); this.name = 'APIError'; } }
-// export class GitError extends Error { constructor(message: string) { super(message); this.name = 'GitError'; } }
-// export class GitHubCLIError extends Error { constructor(message: string) { super(message); this.name = 'GitHubCLIError'; } }
-// etc.
+/**
+ * A failed AI provider request (exit code `Ai`, or a more specific one in the subclasses).
+ */
+export class AiError extends CommandError {
+	constructor(
+		message: string,
+		options: CommandErrorOptions = {},
+		exitCode: ExitCode = ExitCode.Ai,
+	) {
+		super(message, exitCode, options);
+		this.name = "AiError";
+	}
+}
+
+/**
+ * The AI provider rejected the API key (exit code `AiAuth`).
+ */
+export class AiAuthError extends AiError {
+	constructor(message: string, options: CommandErrorOptions = {}) {
+		super(message, options, ExitCode.AiAuth);
+		this.name = "AiAuthError";
+	}
+}
+
+/**
+ * The AI provider's rate limit or quota was exhausted, on every configured model (exit code `AiQuota`).
+ */
+export class AiQuotaError extends AiError {
+	constructor(message: string, options: CommandErrorOptions = {}) {
+		super(
+			message,
+			{
+				hint: "Wait a moment and try again, check the billing and limits of your account, or configure 'fallbackModels'.",
+				...options,
+			},
+			ExitCode.AiQuota,
+		);
+		this.name = "AiQuotaError";
+	}
+}
+
+/**
+ * The prompt was longer than the model's context window (exit code `AiContextLength`).
+ */
+export class AiContextLengthError extends AiError {
+	constructor(message: string, options: CommandErrorOptions = {}) {
+		super(
+			message,
+			{
+				hint: "Lower 'maxDiffTokens' so large diffs are summarized first, exclude generated files with 'exclude', or use a model with a larger context window.",
+				...options,
+			},
+			ExitCode.AiContextLength,
+		);
+		this.name = "AiContextLengthError";
+	}
+}
+
+/**
+ * The user declined a confirmation prompt or cancelled with Ctrl+C (exit code `Cancelled`).
+ */
+export class UserCancelledError extends CommandError {
+	constructor(message: string) {
+		super(message, ExitCode.Cancelled);
+		this.name = "UserCancelledError";
+	}
+}
+
+/**
+ * Maps an error to its exit code.
+ * @param {unknown} error - The caught error.
+ * @returns {ExitCode} - The exit code of a `CommandError`, or `ExitCode.Error` for anything else.
+ */
+export function getExitCode(error: unknown): ExitCode {
+	return error instanceof CommandError ? error.exitCode : ExitCode.Error;
+}
+
+/**
+ * Turns an error thrown while calling the AI provider into the matching `AiError` subclass with a
+ * user-friendly message. The original error is kept as the cause, which `--verbose` prints.
+ * Errors that already are `CommandError`s (e.g., a cancelled generation) are returned unchanged.
+ * @param {unknown} error - The caught error.
+ * @param {string} modelName - The name of the AI model being used (for context in messages).
+ * @param {ProviderName} [provider="openai"] - The AI provider that was called (for context in messages).
+ * @returns {CommandError} - The classified error.
+ */
+export function parseAiApiError(
+	error: unknown,
+	modelName: string,
+	provider: ProviderName = "openai",
+): CommandError {
+	if (error instanceof CommandError) return error;
+	const { label, apiKeyEnv, keyUrl } = PROVIDERS[provider];
+	const options = { cause: error };
+
+	if (error instanceof AiTimeoutError) {
+		return new AiError(error.message, {
+			...options,
+			hint: "Raise 'retry.timeoutSeconds' for slow models or large diffs.",
+		});
+	}
+	if (!APICallError.isInstance(error)) {
+		return new AiError(
+			error instanceof Error
+				? error.message
+				: "An unexpected non-Error object was thrown during AI generation.",
+			options,
+		);
+	}
+
+	const details = `${error.message} ${error.responseBody ?? ""}`.toLowerCase();
+	if (
+		error.statusCode === 401 ||
+		error.statusCode === 403 ||
+		/incorrect api key|invalid x-api-key|invalid api key|authentication/.test(
+			details,
+		)
+	) {
+		return new AiAuthError(`${label} rejected the API key.`, {
+			...options,
+			hint: apiKeyEnv
+				? `Check the ${apiKeyEnv} environment variable${keyUrl ? ` (keys are managed at ${keyUrl})` : ""}.`
+				: "Check the credentials your endpoint expects.",
+		});
+	}
+	if (
+		/context_length_exceeded|context length|context window|prompt is too long|too many tokens/.test(
+			details,
+		)
+	) {
+		return new AiContextLengthError(
+			`The prompt is too long for ${modelName}.`,
+			options,
+		);
+	}
+	if (
+		error.statusCode === 429 ||
+		/rate limit|insufficient_quota|insufficient quota/.test(details)
+	) {
+		return new AiQuotaError(
+			details.includes("quota")
+				? `${label} API quota exceeded.`
+				: `${label} API rate limit exceeded.`,
+			options,
+		);
+	}
+	if (
+		error.statusCode === 404 ||
+		/model not found|not_found_error|does not exist/.test(details)
+	) {
+		return new AiError(`The AI model '${modelName}' was not found.`, {
+			...options,
+			hint: "Check the model name (e.g., with --model) and that your account has access to it.",
+		});
+	}
+	if (details.includes("econnrefused") || details.includes("fetch failed")) {
+		return new AiError(`Could not reach the ${label} endpoint.`, {
+			...options,
+			hint: "Check that the server is running and 'baseURL' is correct.",
+		});
+	}
+	return new AiError(`${label} API Error: ${error.message}`, options);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { isStdoutReserved } from "./output";
+
+const argv = (...args: string[]) => ["bun", "src/cli.ts", ...args];
+
+describe("isStdoutReserved", () => {
+	test("reserves stdout for JSON results and config values", () => {
+		expect(isStdoutReserved(argv("generate", "pr", "--json"))).toBe(true);
+		expect(isStdoutReserved(argv("config", "get", "model"))).toBe(true);
+		expect(isStdoutReserved(argv("--verbose", "config", "list"))).toBe(true);
+	});
+
+	test("reserves stdout for review reports in json or sarif", () => {
+		expect(isStdoutReserved(argv("review", "--format", "sarif"))).toBe(true);
+		expect(isStdoutReserved(argv("review", "-s", "-f", "json"))).toBe(true);
+		expect(isStdoutReserved(argv("review", "--format=json"))).toBe(true);
+		expect(isStdoutReserved(argv("--verbose", "review", "-fsarif"))).toBe(true);
+	});
+
+	test("leaves stdout to the logs otherwise", () => {
+		expect(isStdoutReserved(argv("review"))).toBe(false);
+		expect(isStdoutReserved(argv("review", "--format", "text"))).toBe(false);
+		expect(isStdoutReserved(argv("generate", "commit", "-f", "json"))).toBe(
+			false,
+		);
+	});
+});
@@ -0,0 +1,209 @@
+import { writeFile } from "node:fs/promises";
+import type { TokenUsage } from "../core/ai";
+import { theme } from "../ui/theme";
+import { printUsageSummary } from "../ui/usage-ui";
+import { CommandError, ExitCode, getExitCode } from "./errors";
+
+/**
+ * Output flags shared by commands that produce a result (`--json`, `--output <file>`).
+ */
+export interface OutputOptions {
+	/** Print the result as JSON on stdout; everything else goes to stderr. */
+	json: boolean;
+	/** Also write the JSON result to this file. */
+	output?: string;
+}
+
+/**
+ * How a command finished. Failures use the status of their exit code.
+ */
+export type ResultStatus =
+	| "created"
+	| "updated"
+	| "committed"
+	| "reworded"
+	| "generated"
+	| "dry-run"
+	| "cancelled"
+	| "nothing-to-do"
+	| "error";
+
+/**
+ * Result emitted when a command fails or is cancelled.
+ */
+interface FailureResult {
+	status: ResultStatus;
+	error: string;
+	/** How to fix the error, if known. */
+	hint?: string;
+}
+
+/**
+ * Sends everything written with console.log/info to stderr, keeping stdout free for the JSON result.
+ * Spinners (ora) already write to stderr.
+ */
+export function routeLogsToStderr() {
+	console.log = console.error;
+	console.info = console.error;
+}
+
+/**
+ * Whether `--json` was passed anywhere on the command line. Checked before the
+ * arguments are parsed so nothing printed during startup ends up on stdout.
+ * @param {string[]} [argv=process.argv] - The raw process arguments.
+ * @returns {boolean} - True if JSON output was requested.
+ */
+export function isJsonRequested(argv: string[] = process.argv): boolean {
+	return argv.includes("--json");
+}
+
+/**
+ * Whether `--verbose` was passed anywhere on the command line, so errors are printed with
+ * their stack traces.
+ * @param {string[]} [argv=process.argv] - The raw process arguments.
+ * @returns {boolean} - True if verbose output was requested.
+ */
+export function isVerboseRequested(argv: string[] = process.argv): boolean {
+	return argv.includes("--verbose");
+}
+
+// `review` formats that print the report itself on stdout
+const STDOUT_REVIEW_FORMATS = new Set(["json", "sarif"]);
+
+function getReviewFormat(args: string[]): string | undefined {
+	for (const [index, arg] of args.entries()) {
+		if (arg === "-f" || arg === "--format") return args[index + 1];
+		if (arg.startsWith("--format=")) return arg.slice("--format=".length);
+		if (/^-f[^-]/.test(arg)) return arg.slice(2);
+	}
+	return undefined;
+}
+
+/**
+ * Whether stdout is reserved for the command's output: a JSON result, a `review --format json`
+ * or `sarif` report, or the values printed by `gitlift config`, which scripts read without the
+ * startup messages.
+ * @param {string[]} [argv=process.argv] - The raw process arguments.
+ * @returns {boolean} - True if logs should go to stderr.
+ */
+export function isStdoutReserved(argv: string[] = process.argv): boolean {
+	if (isJsonRequested(argv)) return true;
+	// The first argument that is not an option is the command (`--verbose` may precede it)
+	const args = argv.slice(2);
+	const commandIndex = args.findIndex((arg) => !arg.startsWith("-"));
+	const command = args[commandIndex];
+	if (command === "config") return true;
+	return (
+		command === "review" &&
+		STDOUT_REVIEW_FORMATS.has(
+			getReviewFormat(args.slice(commandIndex + 1)) ?? "",
+		)
+	);
+}
+
+function getFailureStatus(exitCode: ExitCode): ResultStatus {
+	if (exitCode === ExitCode.Cancelled) return "cancelled";
+	if (exitCode === ExitCode.NothingToDo) return "nothing-to-do";
+	return "error";
+}
+
+/**
+ * Prints an error the way every command reports failures: cancellations and "nothing to do" as
+ * a warning, anything else as an error with its remediation hint. With `--verbose`, the stack
+ * trace and the underlying cause are printed too.
+ * @param {unknown} error - The caught error.
+ * @param {string} name - What failed, for the message (e.g., "PR Generation").
+ * @returns {ExitCode} - The exit code for the error's failure class.
+ */
+export function reportError(error: unknown, name: string): ExitCode {
+	const exitCode = getExitCode(error);
+	const message = error instanceof Error ? error.message : String(error);
+	if (exitCode === ExitCode.Cancelled || exitCode === ExitCode.NothingToDo) {
+		console.log(theme.warning(message));
+		return exitCode;
+	}
+
+	if (error instanceof Error) {
+		console.error(theme.error(`\n❌ Error in ${name}: ${message}`));
+	} else {
+		console.error(
+			theme.error(`\n❌ An unexpected error occurred during ${name}:`),
+			error,
+		);
+	}
+	if (error instanceof CommandError && error.hint) {
+		console.error(theme.info(`💡 ${error.hint}`));
+	}
+	if (isVerboseRequested() && error instanceof Error) {
+		console.error(theme.dim(error.stack ?? message));
+		if (error.cause !== undefined) {
+			const cause = error.cause;
+			console.error(
+				theme.dim(
+					`Caused by: ${cause instanceof Error ? (cause.stack ?? cause.message) : String(cause)}`,
+				),
+			);
+		}
+	} else if (exitCode === ExitCode.Error) {
+		console.error(theme.dim("Run again with --verbose for the stack trace."));
+	}
+	return exitCode;
+}
+
+/**
+ * Runs a command handler and turns its outcome into output and an exit code.
+ * Handlers return their result or throw; this is the only place the process exits,
+ * so the JSON result is always written before terminating. Results that report token usage
+ * get a summary line with the estimated cost.
+ * @param {string} name - The command name used in error messages (e.g., "PR Generation").
+ * @param {OutputOptions} options - The `--json` / `--output` flags.
+ * @param {() => Promise<T>} handler - The command implementation.
+ * @returns {Promise<never>} - Exits with `ExitCode.Success` or the failure's exit code.
+ */
+export async function runCommand<
+	T extends { status: ResultStatus; usage?: TokenUsage },
+>(
+	name: string,
+	options: OutputOptions,
+	handler: () => Promise<T>,
+): Promise<never> {
+	if (options.json) routeLogsToStderr();
+
+	let result: (T | FailureResult) & { exitCode: ExitCode };
+	try {
+		const value = await handler();
+		if (value.usage) printUsageSummary(value.usage);
+		result = { ...value, exitCode: ExitCode.Success };
+	} catch (error: unknown) {
+		const exitCode = reportError(error, name);
+		const message = error instanceof Error ? error.message : String(error);
+		result = {
+			status: getFailureStatus(exitCode),
+			error: message,
+			...(error instanceof CommandError && error.hint
+				? { hint: error.hint }
+				: {}),
+			exitCode,
+		};
+	}
+
+	const json = JSON.stringify(result, null, 2);
+	if (options.output) {
+		try {
+			await writeFile(options.output, `${json}\n`);
+		} catch (error: unknown) {
+			console.error(
+				theme.error(
+					`❌ Could not write the result to ${options.output}: ${error instanceof Error ? error.message : error}`,
+				),
+			);
+			if (result.exitCode === ExitCode.Success) {
+				result.exitCode = ExitCode.Error;
+			}
+		}
+	}
+	if (options.json) {
+		process.stdout.write(`${json}\n`);
+	}
+	process.exit(result.exitCode);
+}